@@ -26,5 +26,6 @@ export default {
   collectCoverageFrom: ['src/**/*.(t|j)s', 'test/**/*.(t|j)s'],
   coverageDirectory: 'coverage',
   testEnvironment: 'node',
+  setupFiles: ['<rootDir>/test/setup.ts'],
   // maxConcurrency: 0,
 } satisfies Config;
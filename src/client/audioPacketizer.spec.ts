@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { AudioPacketizer } from '@client/audioPacketizer';
+import { AudioFormat, createWavHeader } from '@util/audioFormat';
+
+const STEREO_8K: AudioFormat = {
+  encoding: 'pcm_s16le',
+  sampleRateHz: 8_000,
+  channels: 2,
+};
+
+describe('AudioPacketizer', () => {
+  it('should cut raw audio into packets of the duration', () => {
+    const packetizer = new AudioPacketizer(100);
+    // 16kHz mono by default, 3200 bytes per 100ms
+    expect(packetizer.push(Buffer.alloc(2))).toEqual([]);
+    // too short to tell whether it's a RIFF header
+    expect(packetizer.declared).toBeNull();
+    expect(packetizer.push(Buffer.alloc(2))).toEqual([]);
+    expect(packetizer.declared).toEqual({
+      encoding: 'pcm_s16le',
+      sampleRateHz: 16_000,
+      channels: 1,
+    });
+    const packets = packetizer.push(Buffer.alloc(7_000));
+    expect(packets.map(({ data }) => data.length)).toEqual([3_200, 3_200]);
+    expect(packets.map(({ durationMs }) => durationMs)).toEqual([100, 100]);
+    // a trailing half sample is dropped
+    packetizer.push(Buffer.alloc(1));
+    expect(packetizer.flush()).toEqual({
+      data: Buffer.alloc(604),
+      durationMs: 18.875,
+    });
+    expect(packetizer.flush()).toBeNull();
+  });
+  it('should send wav streams with the header in the first packet', () => {
+    const audio = Buffer.alloc(3_200 * 2 + 100, 1);
+    const stream = Buffer.concat([
+      createWavHeader(STEREO_8K, audio.length),
+      audio,
+    ]);
+    const packetizer = new AudioPacketizer(100, STEREO_8K);
+    // not enough of the header yet
+    expect(packetizer.push(stream.subarray(0, 30))).toEqual([]);
+    expect(packetizer.declared).toBeNull();
+    const packets = packetizer.push(stream.subarray(30));
+    expect(packetizer.declared).toEqual({ encoding: 'wav' });
+    expect(packets.map(({ data }) => data.length)).toEqual([44 + 3_200, 3_200]);
+    expect(packets[0]?.data.subarray(0, 44)).toEqual(stream.subarray(0, 44));
+    expect(packetizer.flush()?.durationMs).toBe(3.125);
+  });
+  it('should reject a stream that ends within the wav header', () => {
+    const packetizer = new AudioPacketizer(100);
+    packetizer.push(createWavHeader(STEREO_8K, 0).subarray(0, 30));
+    expect(() => packetizer.flush()).toThrow('incomplete wav header');
+  });
+});
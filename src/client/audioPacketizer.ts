@@ -0,0 +1,110 @@
+import {
+  audioBytes,
+  AudioFormat,
+  audioDurationMs,
+  DeclaredAudioFormat,
+  DEFAULT_AUDIO_FORMAT,
+  frameBytes,
+  parseWavHeader,
+} from '@util/audioFormat';
+import { InvalidData } from '@util/error';
+
+export interface AudioPacket {
+  /** the first packet of a wav stream starts with its header */
+  data: Buffer;
+  durationMs: number;
+}
+
+/**
+ * Cuts a stream of audio into packets of `packetMs` as its bytes arrive.
+ * Streams starting with a RIFF header are sent as `wav`, anything else is raw audio in `rawFormat`.
+ */
+export class AudioPacketizer {
+  private pending = Buffer.alloc(0);
+  private format: AudioFormat | null = null;
+  private _declared: DeclaredAudioFormat | null = null;
+  // sent with the first packet
+  private header = Buffer.alloc(0);
+
+  constructor(
+    private readonly packetMs: number,
+    private readonly rawFormat: AudioFormat = DEFAULT_AUDIO_FORMAT,
+  ) {}
+
+  /** to connect with, null until enough of the stream arrived to tell */
+  get declared(): DeclaredAudioFormat | null {
+    return this._declared;
+  }
+
+  /**
+   * @returns the packets completed by `data`
+   * @throws InvalidData when the wav header is invalid or unsupported
+   */
+  push(data: Buffer): AudioPacket[] {
+    this.pending = Buffer.concat([this.pending, data]);
+    const format = this.format ?? this.readFormat(false);
+    if (!format) {
+      return [];
+    }
+    const packets: AudioPacket[] = [];
+    const packetBytes = Math.max(
+      audioBytes(format, this.packetMs),
+      frameBytes(format),
+    );
+    while (this.pending.length >= packetBytes) {
+      packets.push(this.createPacket(format, packetBytes));
+    }
+    return packets;
+  }
+
+  /**
+   * @returns the whole frames left at the end of the stream, null when there are none
+   * @throws InvalidData when the stream ended within the wav header
+   */
+  flush(): AudioPacket | null {
+    const format = this.format ?? this.readFormat(true);
+    if (!format) {
+      return null;
+    }
+    const bytes =
+      Math.floor(this.pending.length / frameBytes(format)) * frameBytes(format);
+    return bytes > 0 ? this.createPacket(format, bytes) : null;
+  }
+
+  private readFormat(ended: boolean): AudioFormat | null {
+    if (this.pending.length < 4 && !ended) {
+      return null;
+    }
+    if (this.pending.toString('ascii', 0, 4) !== 'RIFF') {
+      this.format = this.rawFormat;
+      this._declared = this.rawFormat;
+      return this.format;
+    }
+    let header: ReturnType<typeof parseWavHeader>;
+    try {
+      header = parseWavHeader(this.pending);
+    } catch (err) {
+      if (
+        !ended &&
+        err instanceof InvalidData &&
+        err.message === 'incomplete wav header'
+      ) {
+        return null;
+      }
+      throw err;
+    }
+    this.header = this.pending.subarray(0, header.dataOffset);
+    this.pending = this.pending.subarray(header.dataOffset);
+    this.format = header.format;
+    this._declared = { encoding: 'wav' };
+    return this.format;
+  }
+
+  private createPacket(format: AudioFormat, bytes: number): AudioPacket {
+    const audio = this.pending.subarray(0, bytes);
+    this.pending = this.pending.subarray(bytes);
+    const data = Buffer.concat([this.header, audio]);
+    this.header = Buffer.alloc(0);
+    return { data, durationMs: audioDurationMs(format, audio.length) };
+  }
+}
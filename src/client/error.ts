@@ -0,0 +1,58 @@
+import {
+  ErrorEvent,
+  InternalErrorCode,
+  parseCloseReason,
+  WsCloseCode,
+} from '@util/protocol';
+
+/**
+ * The socket closed before the client was done with it.
+ * `internalCode` is null when the server didn't say why, e.g. the connection dropped.
+ */
+export class TranscribeCloseError extends Error {
+  constructor(
+    message: string,
+    readonly code: WsCloseCode,
+    readonly internalCode: InternalErrorCode | null,
+  ) {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /** the connection was lost rather than closed by the server, its session can be resumed */
+  get retryable(): boolean {
+    return (
+      this.internalCode === null &&
+      [
+        WsCloseCode.AbnormalClosure,
+        WsCloseCode.ServiceRestart,
+        WsCloseCode.ServiceUnavailable,
+      ].includes(this.code)
+    );
+  }
+}
+
+/**
+ * @param errorEvent sent by v2 servers right before closing, its error isn't cut short like the close reason
+ */
+export function createCloseError(
+  code: number,
+  reason: string,
+  errorEvent?: ErrorEvent,
+): TranscribeCloseError {
+  const closeReason = parseCloseReason(reason);
+  const internalCode = errorEvent?.code ?? closeReason?.code ?? null;
+  let message: string;
+  if (errorEvent) {
+    message = errorEvent.error;
+  } else if (closeReason) {
+    message = String(closeReason.error);
+  } else {
+    message = reason || `connection closed with code ${code}`;
+  }
+  return new TranscribeCloseError(message, code, internalCode);
+}
@@ -0,0 +1,19 @@
+export {
+  DEFAULT_RECONNECT_OPTIONS,
+  TranscribeClient,
+} from '@client/transcribeClient';
+export type {
+  ReconnectOptions,
+  TokenProvider,
+  TranscribeClientOptions,
+  TranscribeEvent,
+} from '@client/transcribeClient';
+export { createCloseError, TranscribeCloseError } from '@client/error';
+export { getUsage } from '@client/usage';
+export { InternalErrorCode, WsCloseCode } from '@util/protocol';
+export type {
+  PacketRejectedEvent,
+  PartialTranscriptEvent,
+  ReadyEvent,
+  TranscribeResultMessage,
+} from '@util/protocol';
@@ -0,0 +1,387 @@
+import { WebSocket } from 'ws';
+import { getUsage, serverUrl } from '@client/usage';
+import { createCloseError, TranscribeCloseError } from '@client/error';
+import type { UsageResponse } from '@server/controllers/usageController';
+import {
+  AuthControlMessage,
+  ErrorEvent,
+  PacketRejectedEvent,
+  parseServerMessage,
+  PartialTranscriptEvent,
+  PROTOCOL_V2,
+  ReadyEvent,
+  ServerMessage,
+  TranscribeResultMessage,
+  TranscriptionEngineName,
+  WsCloseCode,
+} from '@util/protocol';
+import { DeclaredAudioFormat } from '@util/audioFormat';
+import {
+  BufferCounter,
+  bufferFromRawData,
+  bufferTextOrThrow,
+} from '@util/buffer';
+import { TimeoutError, UnauthorizedError } from '@util/error';
+import { Queue } from '@util/queue';
+
+export interface ReconnectOptions {
+  /** failed attempts in a row before giving up */
+  retries: number;
+  /** doubled after every failed attempt */
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: Readonly<ReconnectOptions> = {
+  retries: 5,
+  initialDelayMs: 100,
+  maxDelayMs: 5_000,
+};
+
+const DEFAULT_READY_TIMEOUT_MS = 5_000;
+
+/**
+ * A JWT, or a function returning a fresh one, called on every connect and when the server warns the token is expiring.
+ */
+export type TokenProvider = string | (() => string | Promise<string>);
+
+export interface TranscribeClientOptions {
+  /** of the server, e.g. `http://localhost:3000`, `ws(s)://` works as well */
+  url: string;
+  token: TokenProvider;
+  /** defaults to PCM 16kHz/16bit mono */
+  format?: DeclaredAudioFormat;
+  /** defaults to the engine configured for the server */
+  engine?: TranscriptionEngineName;
+  seed?: number;
+  /** also yield `partial` events */
+  interimResults?: boolean;
+  /** for `ready` on every connect, defaults to 5s */
+  readyTimeoutMs?: number;
+  /** resume the session after a dropped connection, false to fail instead */
+  reconnect?: Partial<ReconnectOptions> | false;
+}
+
+/**
+ * What iterating a client yields, every packet ends up in a `final` or a `packet_rejected`.
+ */
+export type TranscribeEvent =
+  | TranscribeResultMessage
+  | PartialTranscriptEvent
+  | PacketRejectedEvent;
+
+function isTranscribeEvent(message: ServerMessage): message is TranscribeEvent {
+  return (
+    message.event === 'final' ||
+    message.event === 'partial' ||
+    message.event === 'packet_rejected'
+  );
+}
+
+/**
+ * Client of the `/transcribe` socket speaking `transcribe.v2`.
+ * Audio is sent with increasing packet ids and results are read by iterating the client,
+ * which throws a `TranscribeCloseError` once the server closes the socket.
+ * Dropped connections resume the session, packets sent while reconnecting are held until it's ready
+ * but ones in flight when the connection dropped may be lost.
+ */
+export class TranscribeClient implements AsyncIterable<TranscribeEvent> {
+  private readonly counter = new BufferCounter();
+  private readonly events = new Queue<TranscribeEvent>();
+  private waiters: (() => void)[] = [];
+  // only set while ready
+  private socket: WebSocket | null = null;
+  private _ready: ReadyEvent | null = null;
+  private pending: Buffer[] = [];
+  private error: Error | null = null;
+  private closed = false;
+  private authRequest: {
+    resolve: () => void;
+    reject: (err: Error) => void;
+  } | null = null;
+
+  private constructor(private readonly options: TranscribeClientOptions) {}
+
+  /**
+   * Connects and waits for `ready`.
+   * @throws TranscribeCloseError when the server closes the socket first, e.g. for an invalid token
+   * @throws TimeoutError when `ready` takes longer than `readyTimeoutMs`
+   */
+  static async connect(
+    options: TranscribeClientOptions,
+  ): Promise<TranscribeClient> {
+    const client = new TranscribeClient(options);
+    await client.connectSocket();
+    return client;
+  }
+
+  /** of the latest connection, `resumed` once reconnected */
+  get ready(): ReadyEvent {
+    if (!this._ready) {
+      throw new Error('not connected');
+    }
+    return this._ready;
+  }
+
+  /** id of the last packet sent */
+  get lastId(): number {
+    return this.counter.lastId;
+  }
+
+  /**
+   * @returns the packet id, results list it in `packetIds`
+   * @throws the error the client failed with, or when it was closed
+   */
+  send(audio: Buffer): number {
+    if (this.error) {
+      throw this.error;
+    }
+    if (this.closed) {
+      throw new Error('client closed');
+    }
+    const packet = this.counter.wrap(audio);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(packet);
+    } else {
+      this.pending.push(packet);
+    }
+    return this.counter.lastId;
+  }
+
+  /**
+   * Swaps the socket's credential for a fresh token without reconnecting.
+   * @throws UnauthorizedError when the server rejects the token, the current one is kept
+   */
+  async refreshToken(): Promise<void> {
+    const token = await this.getToken();
+    const socket = this.socket;
+    if (!socket) {
+      throw new Error('not connected');
+    }
+    this.authRequest?.reject(new Error('replaced by a newer token refresh'));
+    return new Promise<void>((resolve, reject) => {
+      this.authRequest = { resolve, reject };
+      socket.send(
+        JSON.stringify({ type: 'auth', token } satisfies AuthControlMessage),
+      );
+    });
+  }
+
+  async getUsage(): Promise<UsageResponse> {
+    return getUsage(this.options.url, await this.getToken());
+  }
+
+  /**
+   * Closes the socket, iterating ends once the events received so far are read.
+   */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    this.wake();
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      socket.close(WsCloseCode.Normal);
+    });
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<TranscribeEvent, void> {
+    while (true) {
+      const event = this.events.dequeue();
+      if (event !== undefined) {
+        yield event;
+        continue;
+      }
+      if (this.error) {
+        throw this.error;
+      }
+      if (this.closed) {
+        return;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  private async getToken(): Promise<string> {
+    const { token } = this.options;
+    return typeof token === 'string' ? token : await token();
+  }
+
+  private transcribeUrl(): URL {
+    const url = new URL('/transcribe', serverUrl(this.options.url, 'ws'));
+    const { format, engine, seed, interimResults } = this.options;
+    if (format) {
+      url.searchParams.set('encoding', format.encoding);
+      if ('sampleRateHz' in format) {
+        url.searchParams.set('sampleRate', String(format.sampleRateHz));
+        url.searchParams.set('channels', String(format.channels));
+      }
+    }
+    if (engine) {
+      url.searchParams.set('engine', engine);
+    }
+    if (seed !== undefined) {
+      url.searchParams.set('seed', String(seed));
+    }
+    if (interimResults) {
+      url.searchParams.set('interimResults', 'true');
+    }
+    if (this._ready) {
+      url.searchParams.set('sessionId', this._ready.sessionId);
+    }
+    return url;
+  }
+
+  private async connectSocket(): Promise<void> {
+    const token = await this.getToken();
+    const socket = new WebSocket(this.transcribeUrl(), PROTOCOL_V2, {
+      headers: { authorization: `Bearer ${token}` },
+    });
+    const readyTimeoutMs =
+      this.options.readyTimeoutMs ?? DEFAULT_READY_TIMEOUT_MS;
+    let errorEvent: ErrorEvent | undefined;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new TimeoutError(`no ready within ${readyTimeoutMs}ms`));
+        socket.terminate();
+      }, readyTimeoutMs);
+      socket.on('message', (data) => {
+        let message: ServerMessage;
+        try {
+          message = parseServerMessage(
+            bufferTextOrThrow(bufferFromRawData(data)),
+          );
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          reject(error);
+          this.fail(error);
+          socket.terminate();
+          return;
+        }
+        if (message.event === 'ready') {
+          clearTimeout(timer);
+          this.handleReady(socket, message);
+          resolve();
+        } else if (message.event === 'error') {
+          errorEvent = message;
+        } else {
+          this.handleMessage(message);
+        }
+      });
+      // followed by a close event with the details
+      socket.on('error', () => undefined);
+      socket.once('close', (code, reason) => {
+        clearTimeout(timer);
+        const error = createCloseError(code, reason.toString(), errorEvent);
+        reject(error);
+        this.handleClose(socket, error);
+      });
+    });
+  }
+
+  private handleReady(socket: WebSocket, ready: ReadyEvent): void {
+    if (this.closed) {
+      socket.close(WsCloseCode.Normal);
+      return;
+    }
+    this.socket = socket;
+    this._ready = ready;
+    const pending = this.pending;
+    this.pending = [];
+    for (const packet of pending) {
+      socket.send(packet);
+    }
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    if (isTranscribeEvent(message)) {
+      this.events.enqueue(message);
+      this.wake();
+      return;
+    }
+    switch (message.event) {
+      case 'auth_expiring':
+        if (typeof this.options.token === 'function') {
+          // on failure the server closes the socket once the grace period is over
+          this.refreshToken().catch(() => undefined);
+        }
+        break;
+      case 'auth_ok':
+        this.authRequest?.resolve();
+        this.authRequest = null;
+        break;
+      case 'auth_error':
+        this.authRequest?.reject(new UnauthorizedError(message.error));
+        this.authRequest = null;
+        break;
+    }
+  }
+
+  private handleClose(socket: WebSocket, error: TranscribeCloseError): void {
+    if (this.socket !== socket) {
+      // never got ready, whoever connected it handles the error
+      return;
+    }
+    this.socket = null;
+    this.authRequest?.reject(error);
+    this.authRequest = null;
+    if (this.closed || this.error) {
+      return;
+    }
+    const { reconnect } = this.options;
+    if (error.retryable && reconnect !== false) {
+      void this.reconnect(error, {
+        ...DEFAULT_RECONNECT_OPTIONS,
+        ...reconnect,
+      });
+      return;
+    }
+    this.fail(error);
+  }
+
+  private async reconnect(
+    cause: Error,
+    { retries, initialDelayMs, maxDelayMs }: ReconnectOptions,
+  ): Promise<void> {
+    let error = cause;
+    for (let attempt = 0; attempt < retries; attempt++) {
+      const delayMs = Math.min(initialDelayMs * 2 ** attempt, maxDelayMs);
+      // not `delay`, nothing else keeps the process alive while disconnected
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (this.closed) {
+        return;
+      }
+      try {
+        await this.connectSocket();
+        return;
+      } catch (err) {
+        error = err instanceof Error ? err : new Error(String(err));
+        const retryable =
+          error instanceof TimeoutError ||
+          (error instanceof TranscribeCloseError && error.retryable);
+        if (!retryable) {
+          break;
+        }
+      }
+    }
+    this.fail(error);
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  formatSrtTimestamp,
+  TranscriptFormatter,
+} from '@client/transcriptFormatter';
+import { TranscribeResultMessage } from '@util/protocol';
+
+function final(
+  id: number,
+  words: [string, number, number][],
+): TranscribeResultMessage {
+  return {
+    event: 'final',
+    segmentId: id,
+    id,
+    packetIds: [id],
+    transcript: words.map(([word]) => word).join(' '),
+    words: words.map(([word, startMs, endMs]) => ({
+      word,
+      startMs,
+      endMs,
+      confidence: 1,
+    })),
+    usageUsedMs: 250,
+    confidence: 1,
+    usageRemainingMs: 750,
+  };
+}
+
+describe('formatSrtTimestamp', () => {
+  it('should format hours, minutes, seconds and ms', () => {
+    expect(formatSrtTimestamp(0)).toBe('00:00:00,000');
+    expect(formatSrtTimestamp(3_723_004.4)).toBe('01:02:03,004');
+  });
+});
+
+describe('TranscriptFormatter', () => {
+  it('should write a line per final transcript as text', () => {
+    const formatter = new TranscriptFormatter('text');
+    expect(formatter.format(final(1, [['lorem', 0, 250]]))).toBe('lorem\n');
+    expect(formatter.format(final(2, []))).toBeNull();
+    expect(
+      formatter.format({
+        event: 'partial',
+        segmentId: 3,
+        packetIds: [3],
+        transcript: 'ipsum',
+      }),
+    ).toBeNull();
+  });
+  it('should write every event as a json line', () => {
+    const formatter = new TranscriptFormatter('jsonl');
+    const event = final(1, [['lorem', 0, 250]]);
+    expect(JSON.parse(formatter.format(event) ?? '')).toEqual(event);
+  });
+  it('should number srt cues timed by their words', () => {
+    const formatter = new TranscriptFormatter('srt');
+    expect(
+      formatter.format(
+        final(1, [
+          ['lorem', 0, 250],
+          ['ipsum', 250, 500],
+        ]),
+      ),
+    ).toBe('1\n00:00:00,000 --> 00:00:00,500\nlorem ipsum\n\n');
+    expect(formatter.format(final(2, [['dolor', 61_000, 61_250]]))).toBe(
+      '2\n00:01:01,000 --> 00:01:01,250\ndolor\n\n',
+    );
+  });
+});
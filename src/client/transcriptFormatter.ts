@@ -0,0 +1,56 @@
+import { TranscribeEvent } from '@client/transcribeClient';
+
+export const OUTPUT_FORMATS = ['text', 'jsonl', 'srt'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * `HH:MM:SS,mmm`
+ */
+export function formatSrtTimestamp(ms: number): string {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Turns events into output as they arrive:
+ * - `text` a line per final transcript
+ * - `jsonl` every event as a JSON line
+ * - `srt` a cue per final transcript, timed by its words
+ */
+export class TranscriptFormatter {
+  private cues = 0;
+
+  constructor(readonly output: OutputFormat) {}
+
+  /**
+   * @returns null when the event has no output in this format
+   */
+  format(event: TranscribeEvent): string | null {
+    if (this.output === 'jsonl') {
+      return `${JSON.stringify(event)}\n`;
+    }
+    if (event.event !== 'final' || event.transcript === '') {
+      return null;
+    }
+    if (this.output === 'text') {
+      return `${event.transcript}\n`;
+    }
+    const first = event.words[0];
+    const last = event.words[event.words.length - 1];
+    if (!first || !last) {
+      return null;
+    }
+    this.cues += 1;
+    return `${this.cues}\n${formatSrtTimestamp(first.startMs)} --> ${formatSrtTimestamp(last.endMs)}\n${event.transcript}\n\n`;
+  }
+}
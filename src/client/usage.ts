@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { UsageResponse } from '@server/controllers/usageController';
+import { PLAN_NAMES } from '@util/protocol';
+
+const usageResponseSchema: z.ZodType<UsageResponse> = z.object({
+  usage: z.object({
+    remainingMs: z.number(),
+    totalUsedMs: z.number(),
+  }),
+  plan: z.enum(PLAN_NAMES),
+  window: z.object({
+    start: z.number(),
+    end: z.number(),
+    resetsInMs: z.number(),
+  }),
+});
+
+/**
+ * `http(s)://` url of the server for a `ws(s)://` one, or the other way round.
+ */
+export function serverUrl(url: string, scheme: 'http' | 'ws'): URL {
+  const result = new URL(url);
+  const secure = result.protocol === 'https:' || result.protocol === 'wss:';
+  result.protocol = `${scheme}${secure ? 's' : ''}:`;
+  result.pathname = '/';
+  result.search = '';
+  return result;
+}
+
+/**
+ * `GET /api/usage`, the plan and remaining usage of the token's user.
+ */
+export async function getUsage(
+  url: string,
+  token: string,
+): Promise<UsageResponse> {
+  const response = await fetch(new URL('/api/usage', serverUrl(url, 'http')), {
+    method: 'GET',
+    headers: { authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`getUsage response.status: ${response.status}`);
+  }
+  const result = usageResponseSchema.safeParse(await response.json());
+  if (!result.success) {
+    throw new Error(
+      `unexpected usage response: ${z.prettifyError(result.error)}`,
+    );
+  }
+  return result.data;
+}
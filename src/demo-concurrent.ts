@@ -1,69 +1,55 @@
+import { TranscribeClient, TranscribeCloseError } from '@client';
 import { createServer } from '@server';
+import { resetStorage } from '@server/services/usageService';
+import { BYTES_PER_WORD, MS_PER_WORD } from '@server/services/trascribeService';
 import {
-  createWs,
-  isReadyMessage,
   logStatusAndExecute,
+  SERVER_URL,
   USER_1_TOKEN,
   USER_2_TOKEN,
 } from '@util/demo';
-import { WebSocket } from 'ws';
-import { resetStorage } from '@server/services/usageService';
-import { BufferCounter, bufferTextOrThrow } from '@util/buffer';
-import { BYTES_PER_WORD, MS_PER_WORD } from '@server/services/trascribeService';
-import { bufferFromRawData } from '@server/ws/wsTranscribe';
 import { delay } from '@util/delay';
 import { getRandomArbitrary } from '@util/random';
 
-function setupHandlers(ws: WebSocket, label: string) {
-  ws.once('open', () => {
-    console.log(`${label} connected`);
-    ws.once('message', (data) => {
-      if (!isReadyMessage(data)) {
-        throw new Error('unexpected message');
-      }
-      console.log(`${label} ready`);
-      const abortController = new AbortController();
-      let sent = 0;
-      let received = 0;
-      ws.once('close', (code, reason) => {
-        abortController.abort();
-        console.log(`${label} disconnected`);
-        const message = bufferTextOrThrow(bufferFromRawData(reason));
-        console.log(`${label} disconnected - ${code}, reason: ${message}`);
-      });
-      ws.on('message', (data) => {
-        const message = bufferTextOrThrow(bufferFromRawData(data));
+async function sendUntilClosed(client: TranscribeClient, label: string) {
+  let sent = 0;
+  let received = 0;
+  const receiving = (async () => {
+    try {
+      for await (const event of client) {
         received += 1;
         console.log(
-          `${label} (sent: ${sent}, recv: ${received}) received: ${message}`,
+          `${label} (sent: ${sent}, recv: ${received}) received: ${JSON.stringify(event)}`,
         );
-      });
-      void (async () => {
-        const bufferCounter = new BufferCounter();
-        while (true) {
-          if (abortController.signal.aborted) {
-            break;
-          }
-          const bytes = Math.round(
-            getRandomArbitrary(BYTES_PER_WORD, BYTES_PER_WORD * 10),
-          );
-          const payload = bufferCounter.wrap(Buffer.alloc(bytes));
-          sent += 1;
-          console.log(
-            `${label} (sent: ${sent}, recv: ${received}) sending id: ${bufferCounter.lastId}, bytes: ${bytes}`,
-          );
-          ws.send(payload);
-          await delay((bytes / BYTES_PER_WORD) * MS_PER_WORD);
-        }
-      })();
-    });
-  });
-}
-
-function waitForClose(ws: WebSocket): Promise<void> {
-  return new Promise<void>((resolve) => {
-    ws.once('close', resolve);
-  });
+      }
+    } catch (err) {
+      if (!(err instanceof TranscribeCloseError)) {
+        throw err;
+      }
+      console.log(
+        `${label} disconnected - ${err.code}, internal code: ${err.internalCode}, reason: ${err.message}`,
+      );
+    }
+  })();
+  while (true) {
+    // whole 16-bit samples
+    const bytes =
+      Math.round(getRandomArbitrary(BYTES_PER_WORD, BYTES_PER_WORD * 10) / 2) *
+      2;
+    let id: number;
+    try {
+      id = client.send(Buffer.alloc(bytes));
+    } catch (_err) {
+      // closed, the receiving side logs why
+      break;
+    }
+    sent += 1;
+    console.log(
+      `${label} (sent: ${sent}, recv: ${received}) sending id: ${id}, bytes: ${bytes}`,
+    );
+    await delay((bytes / BYTES_PER_WORD) * MS_PER_WORD);
+  }
+  await receiving;
 }
 
 async function main() {
@@ -72,15 +58,19 @@ async function main() {
     createServer(3000),
   );
 
-  resetStorage(60_000);
-
-  const wsA = createWs(USER_1_TOKEN);
-  setupHandlers(wsA, 'User A:');
+  await resetStorage(60_000);
 
-  const wsB = createWs(USER_2_TOKEN);
-  setupHandlers(wsB, 'User B:');
+  const [clientA, clientB] = await Promise.all([
+    TranscribeClient.connect({ url: SERVER_URL, token: USER_1_TOKEN }),
+    TranscribeClient.connect({ url: SERVER_URL, token: USER_2_TOKEN }),
+  ]);
+  console.log('User A: ready');
+  console.log('User B: ready');
 
-  await Promise.all([waitForClose(wsA), waitForClose(wsB)]);
+  await Promise.all([
+    sendUntilClosed(clientA, 'User A:'),
+    sendUntilClosed(clientB, 'User B:'),
+  ]);
 
   await server.shutdown();
 }
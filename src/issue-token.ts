@@ -0,0 +1,50 @@
+import * as console from 'node:console';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { issueToken } from '@server/auth';
+import { isRole, userId } from '@server/types';
+
+const USAGE =
+  'usage: pnpm token <userId> [--role admin] [--expires-in seconds]';
+
+const expiresInSchema = z.coerce.number().int().positive();
+
+// signs a token with JWT_SECRET, e.g. to bootstrap an admin: `pnpm token admin --role admin`
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      role: { type: 'string', multiple: true, default: [] },
+      'expires-in': { type: 'string' },
+    },
+  });
+  const [id] = positionals;
+  if (!id) {
+    throw new Error(USAGE);
+  }
+  const roles = values.role;
+  const invalidRole = roles.find((role) => !isRole(role));
+  if (invalidRole !== undefined) {
+    throw new Error(`unknown role: ${invalidRole}`);
+  }
+  const expiresIn = values['expires-in'];
+  const expiresInSec =
+    expiresIn !== undefined ? expiresInSchema.safeParse(expiresIn) : undefined;
+  if (expiresInSec && !expiresInSec.success) {
+    throw new Error(`invalid --expires-in: ${expiresIn}\n${USAGE}`);
+  }
+  console.log(
+    issueToken(userId(id), {
+      expiresInSec: expiresInSec?.data,
+      claims: { roles },
+    }),
+  );
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,288 @@
+import * as console from 'node:console';
+import { randomBytes } from 'node:crypto';
+import { writeFile } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import {
+  InternalErrorCode,
+  TranscribeClient,
+  TranscribeCloseError,
+  WsCloseCode,
+} from '@client';
+import { serverUrl } from '@client/usage';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config } from '@server/config';
+import {
+  isTranscriptionEngineName,
+  TranscriptionEngineName,
+} from '@server/engines/transcriptionEngine';
+import { userId } from '@server/types';
+import { audioBytes, DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+import { formatLoadSummary, LoadRecorder } from '@util/loadReport';
+import { getRandomArbitrary } from '@util/random';
+
+const USAGE = `usage: pnpm load-test [--url http://localhost:3000, an in-process server when omitted]
+  [--users 10] [--ramp-up-ms 0] [--duration-ms 10000] [--packet-ms 250 or a range like 100-1000]
+  [--rate 1] [--engine name] [--usage-ms 600000] [--drain-ms 10000] [--json load-report.json]`;
+
+interface LoadTestOptions {
+  url: string | null;
+  users: number;
+  rampUpMs: number;
+  durationMs: number;
+  packetMs: { min: number; max: number };
+  rate: number;
+  engine: TranscriptionEngineName | undefined;
+  usageMs: number;
+  drainMs: number;
+  json: string;
+}
+
+function parseNumber(name: string, value: string, min = 1): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min) {
+    throw new Error(`invalid --${name}: ${value}\n${USAGE}`);
+  }
+  return number;
+}
+
+function parseOptions(): LoadTestOptions {
+  const { values } = parseArgs({
+    options: {
+      url: { type: 'string' },
+      users: { type: 'string', default: '10' },
+      'ramp-up-ms': { type: 'string', default: '0' },
+      'duration-ms': { type: 'string', default: '10000' },
+      'packet-ms': { type: 'string', default: '250' },
+      rate: { type: 'string', default: '1' },
+      engine: { type: 'string' },
+      'usage-ms': { type: 'string', default: '600000' },
+      'drain-ms': { type: 'string', default: '10000' },
+      json: { type: 'string', default: 'load-report.json' },
+    },
+  });
+  const { engine } = values;
+  if (engine !== undefined && !isTranscriptionEngineName(engine)) {
+    throw new Error(`unknown --engine: ${engine}`);
+  }
+  const [min = '', max = min] = values['packet-ms'].split('-');
+  const packetMs = {
+    min: parseNumber('packet-ms', min),
+    max: parseNumber('packet-ms', max),
+  };
+  if (packetMs.max < packetMs.min) {
+    throw new Error(`invalid --packet-ms: ${values['packet-ms']}\n${USAGE}`);
+  }
+  return {
+    url: values.url ?? null,
+    users: parseNumber('users', values.users),
+    rampUpMs: parseNumber('ramp-up-ms', values['ramp-up-ms'], 0),
+    durationMs: parseNumber('duration-ms', values['duration-ms']),
+    packetMs,
+    rate: parseNumber('rate', values.rate, Number.MIN_VALUE),
+    engine,
+    usageMs: parseNumber('usage-ms', values['usage-ms'], 0),
+    drainMs: parseNumber('drain-ms', values['drain-ms'], 0),
+    json: values.json,
+  };
+}
+
+function describeOutcome(err: unknown): string {
+  if (err instanceof TranscribeCloseError) {
+    const internal =
+      err.internalCode !== null
+        ? `: ${InternalErrorCode[err.internalCode]}`
+        : '';
+    return `${WsCloseCode[err.code] ?? 'closed'} (${err.code})${internal}`;
+  }
+  return err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+}
+
+/**
+ * Creates the virtual user, or resets its usage when it exists from an earlier run.
+ */
+async function provisionUser(
+  url: string,
+  adminToken: string,
+  id: string,
+  remainingMs: number,
+): Promise<void> {
+  const headers = {
+    authorization: `Bearer ${adminToken}`,
+    'content-type': 'application/json',
+  };
+  const base = serverUrl(url, 'http');
+  const created = await fetch(new URL('/api/admin/users', base), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ id, remainingMs }),
+  });
+  if (created.status !== 409) {
+    if (!created.ok) {
+      throw new Error(`provisionUser response.status: ${created.status}`);
+    }
+    return;
+  }
+  const updated = await fetch(new URL(`/api/admin/users/${id}/usage`, base), {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ remainingMs }),
+  });
+  if (!updated.ok) {
+    throw new Error(`provisionUser response.status: ${updated.status}`);
+  }
+}
+
+/**
+ * Connects one virtual user, sends packets at `rate` times real time for `durationMs`
+ * and waits up to `drainMs` for the results of the last ones.
+ */
+async function runUser(
+  url: string,
+  id: string,
+  options: LoadTestOptions,
+  recorder: LoadRecorder,
+): Promise<void> {
+  const connectStart = Date.now();
+  let client: TranscribeClient;
+  try {
+    client = await TranscribeClient.connect({
+      url,
+      token: () => issueToken(userId(id)),
+      engine: options.engine,
+      // a dropped connection is an outcome to report, not to paper over
+      reconnect: false,
+    });
+  } catch (err) {
+    recorder.recordConnectFailed(describeOutcome(err));
+    return;
+  }
+  recorder.recordReady(Date.now() - connectStart);
+
+  // packets waiting for a result, by id
+  const inFlight = new Map<number, { sentAt: number; audioMs: number }>();
+  let sending = true;
+  let outcome = 'completed';
+  const receiving = (async () => {
+    try {
+      for await (const event of client) {
+        if (event.event === 'packet_rejected') {
+          inFlight.delete(event.id);
+          recorder.recordRejected(event.limit);
+        } else if (event.event === 'final') {
+          const receivedAt = Date.now();
+          const latenciesMs: number[] = [];
+          let audioMs = 0;
+          for (const packetId of event.packetIds) {
+            const packet = inFlight.get(packetId);
+            if (packet) {
+              inFlight.delete(packetId);
+              latenciesMs.push(receivedAt - packet.sentAt);
+              audioMs += packet.audioMs;
+            }
+          }
+          recorder.recordResult(latenciesMs, audioMs, event.queuedMs ?? null);
+        }
+        if (!sending && inFlight.size === 0) {
+          break;
+        }
+      }
+    } catch (err) {
+      outcome = describeOutcome(err);
+    }
+  })();
+
+  const sendStart = Date.now();
+  let sentMs = 0;
+  while (Date.now() - sendStart < options.durationMs) {
+    const packetMs = Math.round(
+      getRandomArbitrary(options.packetMs.min, options.packetMs.max),
+    );
+    const data = Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, packetMs));
+    let packetId: number;
+    try {
+      packetId = client.send(data);
+    } catch (_err) {
+      // closed, receiving records why
+      break;
+    }
+    inFlight.set(packetId, { sentAt: Date.now(), audioMs: packetMs });
+    recorder.recordSent(data.length, packetMs);
+    sentMs += packetMs;
+    // not `delay`, it would let the process exit while every user is waiting
+    await sleep(Math.max(sendStart + sentMs / options.rate - Date.now(), 0));
+  }
+  sending = false;
+
+  if (inFlight.size > 0) {
+    const drained = await Promise.race([
+      receiving.then(() => true),
+      sleep(options.drainMs, false),
+    ]);
+    if (!drained) {
+      outcome = 'results timed out';
+    }
+  }
+  await client.close();
+  await receiving;
+  recorder.recordOutcome(outcome);
+}
+
+async function main() {
+  const options = parseOptions();
+  let server: Awaited<ReturnType<typeof createServer>> | null = null;
+  let url: string;
+  if (options.url === null) {
+    // only this process signs tokens for the in-process server
+    config.jwt.secret ??= randomBytes(32).toString('hex');
+    server = await createServer(0);
+    url = `http://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  } else {
+    url = options.url;
+  }
+  try {
+    const adminToken = issueToken(userId('load-test-admin'), {
+      claims: { roles: ['admin'] },
+    });
+    const ids = Array.from(
+      { length: options.users },
+      (_, i) => `load-test-${i + 1}`,
+    );
+    for (const id of ids) {
+      await provisionUser(url, adminToken, id, options.usageMs);
+    }
+
+    console.error(
+      `${options.users} users against ${url}, ramping up over ${options.rampUpMs}ms`,
+    );
+    const recorder = new LoadRecorder();
+    const start = Date.now();
+    await Promise.all(
+      ids.map(async (id, i) => {
+        await sleep((options.rampUpMs * i) / options.users);
+        await runUser(url, id, options, recorder);
+      }),
+    );
+    const summary = recorder.summary(Date.now() - start);
+
+    await writeFile(
+      options.json,
+      `${JSON.stringify({ options: { ...options, url }, ...summary }, null, 2)}\n`,
+    );
+    console.log(formatLoadSummary(summary));
+    console.error(`wrote ${options.json}`);
+  } finally {
+    await server?.shutdown();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
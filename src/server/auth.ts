@@ -1,11 +1,54 @@
-import { UserId, userId } from '@server/types';
+import { randomUUID } from 'node:crypto';
+import { config } from '@server/config';
+import { isRole, Role, UserId, userId } from '@server/types';
+import {
+  InvalidTokenClaimError,
+  TokenRevokedError,
+  UnauthorizedError,
+} from '@util/error';
+import {
+  JwkEntry,
+  JwtPayload,
+  loadJwksFile,
+  signJwt,
+  verifyJwt,
+} from '@util/jwt';
 
-export const AUTH_TOKEN = new Map(
-  Object.entries({
-    a: userId('1'),
-    b: userId('2'),
-  }),
-);
+export interface AuthenticatedUser {
+  id: UserId;
+  roles: Role[];
+  /** `jti` claim, null when the token has none */
+  tokenId: string | null;
+  /** ms since epoch, null when the token has no `exp` claim */
+  expiresAt: number | null;
+}
+
+let jwksCache: { path: string; keys: JwkEntry[] } | null = null;
+
+// jti -> token expiry (ms since epoch) so entries can be pruned once the token would be rejected anyway
+const REVOKED_TOKEN_IDS: Map<string, number | null> = new Map();
+// tokens for the user issued in an earlier second (`iat` has second precision) are rejected
+const REVOKED_BEFORE_SEC: Map<UserId, number> = new Map();
+
+function getJwks(): JwkEntry[] {
+  const path = config.jwt.jwksPath;
+  if (!path) {
+    return [];
+  }
+  if (jwksCache?.path !== path) {
+    jwksCache = { path, keys: loadJwksFile(path) };
+  }
+  return jwksCache.keys;
+}
+
+/**
+ * @throws Error when there is neither a `JWT_SECRET` nor a `JWT_JWKS_PATH` to verify tokens with
+ */
+export function assertAuthConfigured(): void {
+  if (!config.jwt.secret && !config.jwt.jwksPath) {
+    throw new Error('expected JWT_SECRET or JWT_JWKS_PATH to be set');
+  }
+}
 
 export function getTokenFromAuthorization(
   auth: string | undefined,
@@ -16,6 +59,117 @@ export function getTokenFromAuthorization(
   return auth.split(' ')[1] ?? '';
 }
 
-export function getUserIdFromToken(token: string): UserId | null {
-  return AUTH_TOKEN.get(token) ?? null;
+export function verifyToken(token: string): JwtPayload {
+  return verifyJwt(token, {
+    secret: config.jwt.secret,
+    jwks: getJwks(),
+    audience: config.jwt.audience,
+    issuer: config.jwt.issuer,
+    clockToleranceSec: config.jwt.clockToleranceSec,
+  });
+}
+
+function pruneRevokedTokenIds(): void {
+  const now = Date.now();
+  for (const [tokenId, expiresAt] of REVOKED_TOKEN_IDS) {
+    if (expiresAt !== null && expiresAt <= now) {
+      REVOKED_TOKEN_IDS.delete(tokenId);
+    }
+  }
+}
+
+export function revokeTokenId(tokenId: string, expiresAt: number | null): void {
+  pruneRevokedTokenIds();
+  REVOKED_TOKEN_IDS.set(tokenId, expiresAt);
+}
+
+/**
+ * Revokes every token for the user with an `iat` in an earlier second than `at`.
+ * Tokens issued in the same second can't be told apart, revoke those by id.
+ */
+export function revokeTokensIssuedBefore(id: UserId, at = Date.now()): void {
+  REVOKED_BEFORE_SEC.set(id, Math.floor(at / 1000));
+}
+
+export function isTokenRevoked(payload: JwtPayload): boolean {
+  if (typeof payload.jti === 'string' && REVOKED_TOKEN_IDS.has(payload.jti)) {
+    return true;
+  }
+  const revokedBeforeSec =
+    typeof payload.sub === 'string'
+      ? REVOKED_BEFORE_SEC.get(userId(payload.sub))
+      : undefined;
+  return (
+    revokedBeforeSec !== undefined &&
+    // tokens without iat can't prove they were issued afterward
+    (typeof payload.iat !== 'number' || payload.iat < revokedBeforeSec)
+  );
+}
+
+function rolesFromPayload(payload: JwtPayload): Role[] {
+  return Array.isArray(payload.roles) ? payload.roles.filter(isRole) : [];
+}
+
+/**
+ * @throws {UnauthorizedError} see {@link verifyJwt} for the specific subclasses
+ * @throws {TokenRevokedError} token was revoked via the admin api
+ */
+export function authenticateToken(token: string): AuthenticatedUser {
+  const payload = verifyToken(token);
+  if (typeof payload.sub !== 'string' || payload.sub === '') {
+    throw new InvalidTokenClaimError('Token missing subject');
+  }
+  if (isTokenRevoked(payload)) {
+    throw new TokenRevokedError();
+  }
+  return {
+    id: userId(payload.sub),
+    roles: rolesFromPayload(payload),
+    tokenId: typeof payload.jti === 'string' ? payload.jti : null,
+    expiresAt: typeof payload.exp === 'number' ? payload.exp * 1000 : null,
+  };
+}
+
+export function authenticateAuthorization(
+  auth: string | undefined,
+): AuthenticatedUser {
+  const token = getTokenFromAuthorization(auth);
+  if (!token) {
+    throw new UnauthorizedError();
+  }
+  return authenticateToken(token);
+}
+
+export function getUserIdFromToken(token: string): UserId {
+  return authenticateToken(token).id;
+}
+
+export interface IssueTokenOptions {
+  expiresInSec?: number;
+  claims?: Omit<JwtPayload, 'sub'>;
+}
+
+/**
+ * Signs an HS256 token with the configured shared secret.
+ */
+export function issueToken(id: UserId, opt: IssueTokenOptions = {}): string {
+  const secret = config.jwt.secret;
+  if (!secret) {
+    throw new Error('JWT secret not configured');
+  }
+  const nowSec = Math.floor(Date.now() / 1000);
+  return signJwt(
+    {
+      ...(config.jwt.audience !== undefined && { aud: config.jwt.audience }),
+      ...(config.jwt.issuer !== undefined && { iss: config.jwt.issuer }),
+      jti: randomUUID(),
+      ...opt.claims,
+      sub: id,
+      iat: nowSec,
+      ...(opt.expiresInSec !== undefined && {
+        exp: nowSec + opt.expiresInSec,
+      }),
+    },
+    { alg: 'HS256', secret },
+  );
 }
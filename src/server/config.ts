@@ -0,0 +1,201 @@
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import {
+  isTranscriptionEngineName,
+  TranscriptionEngineName,
+} from '@server/engines/transcriptionEngine';
+import { isSeed, MAX_SEED } from '@util/random';
+
+// public, the demos pass it explicitly so they work out of the box, never a fallback for the server
+export const DEV_JWT_SECRET = 'mock-live-transcribe-server-dev-secret';
+
+function optionalEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+function numberEnv(name: string, fallback: number): number {
+  const value = optionalEnv(name);
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`expected ${name} to be a number, got: ${value}`);
+  }
+  return parsed;
+}
+
+function optionalNumberEnv(name: string): number | undefined {
+  const value = optionalEnv(name);
+  return value === undefined ? undefined : numberEnv(name, 0);
+}
+
+function optionalSeedEnv(name: string): number | undefined {
+  const value = optionalNumberEnv(name);
+  if (value !== undefined && !isSeed(value)) {
+    throw new Error(
+      `expected ${name} to be an integer from 0 to ${MAX_SEED}, got: ${value}`,
+    );
+  }
+  return value;
+}
+
+export interface JwtConfig {
+  /** shared secret for HS256 tokens */
+  secret?: string;
+  /** path to a local JWKS file containing RS256 / ES256 public keys */
+  jwksPath?: string;
+  audience?: string;
+  issuer?: string;
+  clockToleranceSec: number;
+}
+
+export interface WsConfig {
+  /** how long before token expiry the client is sent an `auth_expiring` event */
+  tokenExpiryWarningMs: number;
+  /** how long after token expiry the socket is kept open waiting for a refresh */
+  tokenExpiryGraceMs: number;
+  /** how long a dropped socket's session (queue and results) is kept for the client to resume */
+  sessionResumeTtlMs: number;
+}
+
+export interface TranscribeConfig {
+  /** packets transcribed at once across all users */
+  maxConcurrent: number;
+  /** a segment taking longer than this closes the socket with `InternalErrorCode.TimeoutError` */
+  timeoutMs: number;
+  /** per user, packets over the limit are rejected */
+  maxPacketsPerSec: number;
+  /** per user, counted on the audio payload */
+  maxBytesPerSec: number;
+  /** per user, packets waiting to be transcribed */
+  maxQueuedPackets: number;
+  /** queued payloads are written to temp files here once a memory threshold is crossed */
+  spillDir: string;
+  /** per user, queued payload bytes kept in memory before spilling */
+  maxUserMemoryBytes: number;
+  /** across all users, queued payload bytes kept in memory before spilling */
+  maxMemoryBytes: number;
+  /** frames with an RMS amplitude at or below this are silent, on 16-bit PCM */
+  vadSilenceRms: number;
+  /** silence at least this long is a pause packets can be cut at */
+  vadMinSilenceMs: number;
+  /** per user, speech carried into the next packet before it's transcribed anyway */
+  stitchMaxCarryBytes: number;
+  /** carried speech is transcribed when no packet follows within this */
+  stitchFlushMs: number;
+}
+
+export interface TranscriptionEngineConfig {
+  /** used unless the client picks another one with `?engine=` */
+  default: TranscriptionEngineName;
+  /** JSON array of transcripts replayed by the `fixture` engine */
+  fixturePath?: string;
+  /** shell command the `subprocess` engine pipes audio to */
+  subprocessCommand?: string;
+  /** makes the mock transcripts reproducible unless the client sends its own `?seed=` */
+  seed?: number;
+}
+
+export type UsageStoreConfig =
+  | { type: 'memory' }
+  | {
+      type: 'file';
+      /** append-only JSON lines log, can be shared by multiple instances */
+      filePath: string;
+    };
+
+export interface Config {
+  jwt: JwtConfig;
+  ws: WsConfig;
+  transcribe: TranscribeConfig;
+  engine: TranscriptionEngineConfig;
+  usageStore: UsageStoreConfig;
+}
+
+function jwtConfigFromEnv(): JwtConfig {
+  return {
+    secret: optionalEnv('JWT_SECRET'),
+    jwksPath: optionalEnv('JWT_JWKS_PATH'),
+    audience: optionalEnv('JWT_AUDIENCE'),
+    issuer: optionalEnv('JWT_ISSUER'),
+    clockToleranceSec: numberEnv('JWT_CLOCK_TOLERANCE_SEC', 0),
+  };
+}
+
+function wsConfigFromEnv(): WsConfig {
+  return {
+    tokenExpiryWarningMs: numberEnv('WS_TOKEN_EXPIRY_WARNING_MS', 60_000),
+    tokenExpiryGraceMs: numberEnv('WS_TOKEN_EXPIRY_GRACE_MS', 5_000),
+    sessionResumeTtlMs: numberEnv('WS_SESSION_RESUME_TTL_MS', 30_000),
+  };
+}
+
+function transcribeConfigFromEnv(): TranscribeConfig {
+  return {
+    maxConcurrent: numberEnv('TRANSCRIBE_MAX_CONCURRENT', 5),
+    timeoutMs: numberEnv('TRANSCRIBE_TIMEOUT_MS', 60_000),
+    maxPacketsPerSec: numberEnv('TRANSCRIBE_MAX_PACKETS_PER_SEC', 50),
+    maxBytesPerSec: numberEnv('TRANSCRIBE_MAX_BYTES_PER_SEC', 1024 * 1024),
+    maxQueuedPackets: numberEnv('TRANSCRIBE_MAX_QUEUED_PACKETS', 256),
+    spillDir:
+      optionalEnv('TRANSCRIBE_SPILL_DIR') ??
+      path.join(os.tmpdir(), 'mock-live-transcribe-server'),
+    maxUserMemoryBytes: numberEnv(
+      'TRANSCRIBE_MAX_USER_MEMORY_BYTES',
+      8 * 1024 * 1024,
+    ),
+    maxMemoryBytes: numberEnv('TRANSCRIBE_MAX_MEMORY_BYTES', 64 * 1024 * 1024),
+    vadSilenceRms: numberEnv('TRANSCRIBE_VAD_SILENCE_RMS', 500),
+    vadMinSilenceMs: numberEnv('TRANSCRIBE_VAD_MIN_SILENCE_MS', 100),
+    // 10s of 16kHz 16-bit mono
+    stitchMaxCarryBytes: numberEnv(
+      'TRANSCRIBE_STITCH_MAX_CARRY_BYTES',
+      320_000,
+    ),
+    stitchFlushMs: numberEnv('TRANSCRIBE_STITCH_FLUSH_MS', 500),
+  };
+}
+
+function engineConfigFromEnv(): TranscriptionEngineConfig {
+  const name = optionalEnv('TRANSCRIBE_ENGINE') ?? 'lorem';
+  if (!isTranscriptionEngineName(name)) {
+    throw new Error(
+      `expected TRANSCRIBE_ENGINE to be lorem, fixture or subprocess, got: ${name}`,
+    );
+  }
+  return {
+    default: name,
+    fixturePath: optionalEnv('TRANSCRIBE_FIXTURE_PATH'),
+    subprocessCommand: optionalEnv('TRANSCRIBE_SUBPROCESS_COMMAND'),
+    seed: optionalSeedEnv('TRANSCRIBE_SEED'),
+  };
+}
+
+function usageStoreConfigFromEnv(): UsageStoreConfig {
+  const type = optionalEnv('USAGE_STORE') ?? 'memory';
+  switch (type) {
+    case 'memory':
+      return { type };
+    case 'file':
+      return {
+        type,
+        filePath: optionalEnv('USAGE_STORE_PATH') ?? '.data/usage.jsonl',
+      };
+    default:
+      throw new Error(
+        `expected USAGE_STORE to be memory or file, got: ${type}`,
+      );
+  }
+}
+
+// mutable so demos / tests can tweak settings (similar to resetStorage)
+export const config: Config = {
+  jwt: jwtConfigFromEnv(),
+  ws: wsConfigFromEnv(),
+  transcribe: transcribeConfigFromEnv(),
+  engine: engineConfigFromEnv(),
+  usageStore: usageStoreConfigFromEnv(),
+};
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { PLAN_NAMES, PlanName } from '@server/plans';
+import * as faultService from '@server/services/faultService';
+import {
+  FAULT_ERROR_TYPES,
+  FaultProfile,
+  FaultProfiles,
+} from '@server/services/faultService';
+import * as tokenService from '@server/services/tokenService';
+import { IssuedToken } from '@server/services/tokenService';
+import * as usageService from '@server/services/usageService';
+import { UsageData, UsageSummary } from '@server/services/usageService';
+import * as userService from '@server/services/userService';
+import { User } from '@server/services/userService';
+import { AuthenticatedRouteHandler, ROLES, userId } from '@server/types';
+import { parseOrThrow } from '@server/validation';
+import {
+  ConnectedSocket,
+  closeUserSocket,
+  getConnectedSockets,
+  hasSession,
+  InternalErrorCode,
+} from '@server/ws/wsTranscribe';
+import { NotFoundError } from '@util/error';
+
+export type AdminUser = User & { usage: UsageData; plan: PlanName };
+
+export interface AdminUserResponse {
+  user: AdminUser;
+}
+
+export interface AdminUsersResponse {
+  users: AdminUser[];
+}
+
+export interface AdminIssueTokenResponse {
+  token: string;
+  issued: IssuedToken;
+}
+
+export interface AdminTokensResponse {
+  tokens: IssuedToken[];
+}
+
+export interface AdminRevokeTokenResponse {
+  tokenId: string;
+  issued: IssuedToken | null;
+}
+
+export interface AdminUsageResponse {
+  usage: UsageData;
+}
+
+export type AdminPlanResponse = UsageSummary;
+
+export interface AdminSocketsResponse {
+  sockets: ConnectedSocket[];
+}
+
+export interface AdminFaultsResponse {
+  faults: FaultProfile;
+}
+
+export type AdminFaultProfilesResponse = FaultProfiles;
+
+export interface AdminClearFaultsResponse {
+  cleared: boolean;
+}
+
+const createUserSchema = z.strictObject({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  plan: z.enum(PLAN_NAMES).optional(),
+  remainingMs: z.number().int().nonnegative().optional(),
+});
+
+const issueTokenSchema = z.strictObject({
+  expiresInSec: z.number().int().positive().optional(),
+  roles: z.array(z.enum(ROLES)).optional(),
+});
+
+const setUsageSchema = z.strictObject({
+  remainingMs: z.number().int().nonnegative(),
+});
+
+const setPlanSchema = z.strictObject({
+  plan: z.enum(PLAN_NAMES),
+  remainingMs: z.number().int().nonnegative().optional(),
+});
+
+const topUpUsageSchema = z.strictObject({
+  ms: z.number().int().positive(),
+});
+
+const rateSchema = z.number().min(0).max(1);
+
+// omitted fields are off
+const faultProfileSchema = z.strictObject({
+  errorRate: rateSchema.optional(),
+  errorType: z.enum(FAULT_ERROR_TYPES).optional(),
+  extraLatencyMs: z.number().int().nonnegative().optional(),
+  jitterMs: z.number().int().nonnegative().optional(),
+  timeoutRate: rateSchema.optional(),
+  dropRate: rateSchema.optional(),
+  reorderRate: rateSchema.optional(),
+});
+
+async function toAdminUser(user: User): Promise<AdminUser> {
+  const { usage, plan } = await usageService.getUsageSummary(user.id);
+  return { ...user, usage, plan };
+}
+
+function getUserFromParams(params: Record<string, string>): User {
+  return userService.getUserOrThrow(userId(params.userId ?? ''));
+}
+
+function getSessionIdFromParams(params: Record<string, string>): string {
+  const sessionId = params.sessionId ?? '';
+  if (!hasSession(sessionId)) {
+    throw new NotFoundError(`Session not found: ${sessionId}`);
+  }
+  return sessionId;
+}
+
+export const listUsers: AuthenticatedRouteHandler = async (_req, res) => {
+  const users = await Promise.all(userService.listUsers().map(toAdminUser));
+  res.json({ users } satisfies AdminUsersResponse);
+};
+
+export const createUser: AuthenticatedRouteHandler = async (req, res) => {
+  const request = parseOrThrow(createUserSchema, req.body);
+  const user = await userService.createUser(request);
+  res.status(201).json({
+    user: await toAdminUser(user),
+  } satisfies AdminUserResponse);
+};
+
+export const getUser: AuthenticatedRouteHandler = async (req, res) => {
+  const user = getUserFromParams(req.params);
+  res.json({ user: await toAdminUser(user) } satisfies AdminUserResponse);
+};
+
+export const issueToken: AuthenticatedRouteHandler = (req, res) => {
+  const user = getUserFromParams(req.params);
+  const request = parseOrThrow(issueTokenSchema, req.body ?? {});
+  const { token, issued } = tokenService.issueUserToken(user.id, request);
+  res.status(201).json({ token, issued } satisfies AdminIssueTokenResponse);
+};
+
+export const listTokens: AuthenticatedRouteHandler = (req, res) => {
+  const user = getUserFromParams(req.params);
+  res.json({
+    tokens: tokenService.listTokens(user.id),
+  } satisfies AdminTokensResponse);
+};
+
+export const revokeAllTokens: AuthenticatedRouteHandler = (req, res) => {
+  const user = getUserFromParams(req.params);
+  const tokens = tokenService.revokeAllTokens(user.id);
+  closeUserSocket(user.id, {
+    error: 'Token revoked',
+    code: InternalErrorCode.Unauthorized,
+  });
+  res.json({ tokens } satisfies AdminTokensResponse);
+};
+
+export const revokeToken: AuthenticatedRouteHandler = (req, res) => {
+  const tokenId = req.params.tokenId ?? '';
+  const issued = tokenService.revokeToken(tokenId);
+  for (const socket of getConnectedSockets()) {
+    if (socket.tokenId === tokenId) {
+      closeUserSocket(
+        socket.userId,
+        { error: 'Token revoked', code: InternalErrorCode.Unauthorized },
+        tokenId,
+      );
+    }
+  }
+  res.json({ tokenId, issued } satisfies AdminRevokeTokenResponse);
+};
+
+export const setUsage: AuthenticatedRouteHandler = async (req, res) => {
+  const user = getUserFromParams(req.params);
+  const { remainingMs } = parseOrThrow(setUsageSchema, req.body);
+  res.json({
+    usage: await usageService.setRemainingUsage(user.id, remainingMs),
+  } satisfies AdminUsageResponse);
+};
+
+export const setPlan: AuthenticatedRouteHandler = async (req, res) => {
+  const user = getUserFromParams(req.params);
+  const { plan, remainingMs } = parseOrThrow(setPlanSchema, req.body);
+  res.json(
+    (await usageService.setPlan(
+      user.id,
+      plan,
+      remainingMs,
+    )) satisfies AdminPlanResponse,
+  );
+};
+
+export const topUpUsage: AuthenticatedRouteHandler = async (req, res) => {
+  const user = getUserFromParams(req.params);
+  const { ms } = parseOrThrow(topUpUsageSchema, req.body);
+  res.json({
+    usage: await usageService.topUpUsage(user.id, ms),
+  } satisfies AdminUsageResponse);
+};
+
+export const resetTotalUsed: AuthenticatedRouteHandler = async (req, res) => {
+  const user = getUserFromParams(req.params);
+  res.json({
+    usage: await usageService.resetTotalUsed(user.id),
+  } satisfies AdminUsageResponse);
+};
+
+export const listSockets: AuthenticatedRouteHandler = (_req, res) => {
+  res.json({ sockets: getConnectedSockets() } satisfies AdminSocketsResponse);
+};
+
+export const listFaults: AuthenticatedRouteHandler = (_req, res) => {
+  res.json(faultService.listFaults() satisfies AdminFaultProfilesResponse);
+};
+
+export const setUserFaults: AuthenticatedRouteHandler = (req, res) => {
+  const user = getUserFromParams(req.params);
+  const faults = parseOrThrow(faultProfileSchema, req.body);
+  res.json({
+    faults: faultService.setUserFaults(user.id, faults),
+  } satisfies AdminFaultsResponse);
+};
+
+export const clearUserFaults: AuthenticatedRouteHandler = (req, res) => {
+  const user = getUserFromParams(req.params);
+  res.json({
+    cleared: faultService.clearUserFaults(user.id),
+  } satisfies AdminClearFaultsResponse);
+};
+
+export const setSessionFaults: AuthenticatedRouteHandler = (req, res) => {
+  const sessionId = getSessionIdFromParams(req.params);
+  const faults = parseOrThrow(faultProfileSchema, req.body);
+  res.json({
+    faults: faultService.setSessionFaults(sessionId, faults),
+  } satisfies AdminFaultsResponse);
+};
+
+export const clearSessionFaults: AuthenticatedRouteHandler = (req, res) => {
+  // cleared along with the session, so no need for it to still exist
+  res.json({
+    cleared: faultService.clearSessionFaults(req.params.sessionId ?? ''),
+  } satisfies AdminClearFaultsResponse);
+};
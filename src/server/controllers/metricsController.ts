@@ -0,0 +1,7 @@
+import { RequestHandler } from 'express';
+import * as metricsService from '@server/services/metricsService';
+import { METRICS_CONTENT_TYPE } from '@util/metrics';
+
+export const getMetrics: RequestHandler = (_req, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(metricsService.render());
+};
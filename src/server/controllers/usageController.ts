@@ -1,14 +1,45 @@
+import { z } from 'zod';
 import * as usageService from '@server/services/usageService';
-import { UsageData } from '@server/services/usageService';
+import {
+  MAX_LEDGER_PAGE_SIZE,
+  UsageLedgerEntry,
+  UsageSummary,
+} from '@server/services/usageService';
 import { AuthenticatedRouteHandler } from '@server/types';
+import { parseOrThrow } from '@server/validation';
 
-export interface UsageResponse {
-  usage: UsageData;
+export type UsageResponse = UsageSummary;
+
+export interface UsageHistoryResponse {
+  entries: UsageLedgerEntry[];
+  nextCursor: string | null;
 }
 
+const usageHistoryQuerySchema = z.strictObject({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(MAX_LEDGER_PAGE_SIZE)
+    .optional(),
+  cursor: z.string().min(1).optional(),
+});
+
 export const getUsage: AuthenticatedRouteHandler = async (req, res) => {
-  const usage = await usageService.getUsage(req.user.id);
-  res.json({
-    usage,
+  res.json(
+    (await usageService.getUsageSummary(req.user.id)) satisfies UsageResponse,
+  );
+};
+
+export const getUsageHistory: AuthenticatedRouteHandler = async (req, res) => {
+  const query = parseOrThrow(usageHistoryQuerySchema, req.query);
+  const page = await usageService.getUsageHistory(req.user.id, {
+    from: query.from?.getTime(),
+    to: query.to?.getTime(),
+    limit: query.limit,
+    cursor: query.cursor,
   });
+  res.json(page satisfies UsageHistoryResponse);
 };
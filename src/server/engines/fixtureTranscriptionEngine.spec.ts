@@ -0,0 +1,93 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { FixtureTranscriptionEngine } from '@server/engines/fixtureTranscriptionEngine';
+import {
+  BYTES_PER_WORD,
+  MS_PER_WORD,
+} from '@server/engines/transcriptionEngine';
+import { DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+
+describe('FixtureTranscriptionEngine', () => {
+  let dir: string;
+
+  async function writeFixtures(fixtures: unknown): Promise<string> {
+    const filePath = path.join(dir, 'fixtures.json');
+    await fs.writeFile(filePath, JSON.stringify(fixtures));
+    return filePath;
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixture-engine-'));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay transcripts in order and start over', async () => {
+    const engine = new FixtureTranscriptionEngine(
+      await writeFixtures([
+        'hello world',
+        { transcript: 'second', confidence: 0.5 },
+      ]),
+    );
+    const transcribe = (startMs: number) =>
+      engine.transcribe({
+        audioPacket: Buffer.alloc(16),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs,
+      });
+    await expect(transcribe(0)).resolves.toEqual({
+      transcript: 'hello world',
+      words: [
+        { word: 'hello', startMs: 0, endMs: 0, confidence: 1 },
+        // 16 bytes is 0.5ms of audio
+        { word: 'world', startMs: 0, endMs: 1, confidence: 1 },
+      ],
+      confidence: 1,
+      usageUsedMs: 250,
+    });
+    await expect(transcribe(MS_PER_WORD)).resolves.toEqual(
+      expect.objectContaining({
+        transcript: 'second',
+        words: [{ word: 'second', startMs: 250, endMs: 251, confidence: 0.5 }],
+        confidence: 0.5,
+      }),
+    );
+    await expect(transcribe(0)).resolves.toEqual(
+      expect.objectContaining({ transcript: 'hello world' }),
+    );
+  });
+  it('should spread words over the packet', async () => {
+    const engine = new FixtureTranscriptionEngine(
+      await writeFixtures(['one two']),
+    );
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(BYTES_PER_WORD * 2),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs: 0,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        words: [
+          expect.objectContaining({ startMs: 0, endMs: 250 }),
+          expect.objectContaining({ startMs: 250, endMs: 500 }),
+        ],
+      }),
+    );
+  });
+  it('should reject invalid fixture files', async () => {
+    const engine = new FixtureTranscriptionEngine(
+      await writeFixtures({ transcripts: [] }),
+    );
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(16),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs: 0,
+      }),
+    ).rejects.toThrow();
+  });
+});
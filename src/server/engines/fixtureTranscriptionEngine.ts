@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises';
+import { z } from 'zod';
+import {
+  averageConfidence,
+  EngineTranscribeRequest,
+  estimateUsageMs,
+  joinWords,
+  requestEndMs,
+  PER_WORD_COST_MODEL,
+  simulateProcessing,
+  spreadWords,
+  TranscribeResult,
+  TranscriptionEngine,
+  TranscriptionEngineCapabilities,
+} from '@server/engines/transcriptionEngine';
+
+const fixtureFileSchema = z.array(
+  z.union([
+    z.string(),
+    z.strictObject({
+      transcript: z.string(),
+      confidence: z.number().min(0).max(1).optional(),
+    }),
+  ]),
+);
+
+type Fixture = { transcript: string; confidence?: number };
+
+/**
+ * Replays scripted transcripts from a JSON file, one per segment in order, starting over once exhausted.
+ *
+ * The file is an array of transcripts, either strings or `{"transcript": "...", "confidence": 0.9}`.
+ */
+export class FixtureTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'fixture';
+  readonly capabilities: TranscriptionEngineCapabilities = {
+    partials: true,
+    wordTimestamps: false,
+    deterministic: true,
+  };
+  readonly costModel = PER_WORD_COST_MODEL;
+  private fixtures: Promise<Fixture[]> | null = null;
+  private next = 0;
+
+  constructor(private readonly filePath: string) {}
+
+  async transcribe(
+    request: EngineTranscribeRequest,
+  ): Promise<TranscribeResult> {
+    const { startMs, abortSignal, onPartial } = request;
+    const endMs = requestEndMs(request);
+    const fixtures = await this.load();
+    if (fixtures.length === 0) {
+      throw new Error(`no transcripts in fixture file: ${this.filePath}`);
+    }
+    const fixture = fixtures[this.next % fixtures.length];
+    this.next++;
+    const words = spreadWords(
+      fixture.transcript.split(/\s+/).filter((word) => word.length > 0),
+      startMs,
+      endMs,
+      () => fixture.confidence ?? 1,
+    );
+    const processTimeMs = estimateUsageMs(this.costModel, endMs - startMs);
+    await simulateProcessing(words, processTimeMs, abortSignal, onPartial);
+    return {
+      transcript: joinWords(words),
+      words,
+      confidence: averageConfidence(words),
+      usageUsedMs: processTimeMs,
+    };
+  }
+
+  private load(): Promise<Fixture[]> {
+    if (!this.fixtures) {
+      this.fixtures = fs
+        .readFile(this.filePath, 'utf8')
+        .then((contents) =>
+          fixtureFileSchema
+            .parse(JSON.parse(contents))
+            .map((fixture) =>
+              typeof fixture === 'string' ? { transcript: fixture } : fixture,
+            ),
+        );
+    }
+    return this.fixtures;
+  }
+}
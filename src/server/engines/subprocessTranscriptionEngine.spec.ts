@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  parseCommandOutput,
+  SubprocessTranscriptionEngine,
+} from '@server/engines/subprocessTranscriptionEngine';
+import { DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+import { AbortedError, InvalidData } from '@util/error';
+
+describe('SubprocessTranscriptionEngine', () => {
+  it('should use the command output as the transcript', async () => {
+    const engine = new SubprocessTranscriptionEngine(
+      'cat > /dev/null; echo hello world',
+    );
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(16),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs: 0,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        transcript: 'hello world',
+        words: [
+          expect.objectContaining({ word: 'hello' }),
+          expect.objectContaining({ word: 'world' }),
+        ],
+        usageUsedMs: expect.any(Number),
+      }),
+    );
+  });
+  it('should pipe the audio to the command', async () => {
+    const engine = new SubprocessTranscriptionEngine('wc -c');
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(42),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs: 0,
+      }),
+    ).resolves.toEqual(expect.objectContaining({ transcript: '42' }));
+  });
+  it('should reject when the command fails', async () => {
+    const engine = new SubprocessTranscriptionEngine('echo broken >&2; exit 3');
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(16),
+        format: DEFAULT_AUDIO_FORMAT,
+        startMs: 0,
+      }),
+    ).rejects.toThrow('transcription command exited with 3: broken');
+  });
+  it('should reject other audio formats', async () => {
+    const engine = new SubprocessTranscriptionEngine('wc -c');
+    await expect(
+      engine.transcribe({
+        audioPacket: Buffer.alloc(16),
+        format: { ...DEFAULT_AUDIO_FORMAT, sampleRateHz: 48_000 },
+        startMs: 0,
+      }),
+    ).rejects.toBeInstanceOf(InvalidData);
+  });
+  it('should stop the command on abort', async () => {
+    const engine = new SubprocessTranscriptionEngine('sleep 10');
+    const abortController = new AbortController();
+    const transcribing = engine.transcribe({
+      audioPacket: Buffer.alloc(16),
+      format: DEFAULT_AUDIO_FORMAT,
+      startMs: 0,
+      abortSignal: abortController.signal,
+    });
+    abortController.abort();
+    await expect(transcribing).rejects.toBeInstanceOf(AbortedError);
+  });
+  it('should strip segment timestamps', () => {
+    expect(
+      parseCommandOutput(
+        '[00:00:00.000 --> 00:00:01.000]  hello\n[00:00:01.000 --> 00:00:02.000]  world\n',
+      ),
+    ).toEqual(['hello', 'world']);
+  });
+});
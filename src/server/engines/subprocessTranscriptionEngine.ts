@@ -0,0 +1,133 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import {
+  averageConfidence,
+  EngineTranscribeRequest,
+  joinWords,
+  requestEndMs,
+  spreadWords,
+  TranscribeResult,
+  TranscriptionEngine,
+  TranscriptionEngineCapabilities,
+  TranscriptionCostModel,
+} from '@server/engines/transcriptionEngine';
+import { onAbort } from '@util/abort';
+import { DEFAULT_AUDIO_FORMAT, isDefaultAudioFormat } from '@util/audioFormat';
+import { AbortedError, InvalidData } from '@util/error';
+
+// e.g. `[00:00:00.000 --> 00:00:02.000]` printed by whisper.cpp before each segment
+const SEGMENT_TIMESTAMP_REGEX = /^\s*\[[^\]]*-->[^\]]*\]/gm;
+
+/**
+ * Words of the command output, ignoring segment timestamps.
+ */
+export function parseCommandOutput(output: string): string[] {
+  return output
+    .replace(SEGMENT_TIMESTAMP_REGEX, '')
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+}
+
+function runCommand(
+  command: string,
+  input: Buffer,
+  abortSignal?: AbortSignal,
+): Promise<string> {
+  if (abortSignal?.aborted) {
+    return Promise.reject(new AbortedError('already aborted'));
+  }
+  return new Promise((resolve, reject) => {
+    // own process group so an abort also stops whatever the shell started
+    const child = spawn(command, {
+      shell: true,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    const cleanupAbort = abortSignal
+      ? onAbort(abortSignal, () => {
+          if (child.pid !== undefined) {
+            try {
+              process.kill(-child.pid, 'SIGKILL');
+            } catch (_err) {
+              // already exited
+            }
+          }
+        })
+      : undefined;
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    // commands that don't read their input close stdin early, the exit code tells if that was a problem
+    child.stdin.on('error', () => {});
+    child.once('error', (err) => {
+      cleanupAbort?.();
+      reject(err);
+    });
+    child.once('close', (code) => {
+      cleanupAbort?.();
+      if (abortSignal?.aborted) {
+        reject(new AbortedError('aborted'));
+        return;
+      }
+      if (code !== 0) {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(
+          new Error(
+            `transcription command exited with ${code}${message ? `: ${message}` : ''}`,
+          ),
+        );
+        return;
+      }
+      resolve(Buffer.concat(stdout).toString('utf8'));
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Pipes each packet's audio (16kHz 16-bit mono PCM, other formats are rejected) to a shell command, e.g. a whisper.cpp binary,
+ * and uses whatever it prints as the transcript.
+ */
+export class SubprocessTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'subprocess';
+  readonly capabilities: TranscriptionEngineCapabilities = {
+    partials: false,
+    wordTimestamps: false,
+    deterministic: false,
+  };
+  // reserves the duration of the audio, i.e. assumes the command runs in real time
+  readonly costModel: TranscriptionCostModel = {
+    type: 'processing_time',
+    estimatedMsPerAudioMs: 1,
+  };
+
+  constructor(private readonly command: string) {}
+
+  async transcribe(
+    request: EngineTranscribeRequest,
+  ): Promise<TranscribeResult> {
+    const { audioPacket, format, startMs, abortSignal } = request;
+    if (!isDefaultAudioFormat(format)) {
+      throw new InvalidData(
+        `subprocess engine only takes ${DEFAULT_AUDIO_FORMAT.encoding} ${DEFAULT_AUDIO_FORMAT.sampleRateHz}Hz mono audio`,
+      );
+    }
+    const startedAt = Date.now();
+    const output = await runCommand(this.command, audioPacket, abortSignal);
+    const usageUsedMs = Date.now() - startedAt;
+    const words = spreadWords(
+      parseCommandOutput(output),
+      startMs,
+      requestEndMs(request),
+      // the output has no confidence to go by
+      () => 1,
+    );
+    return {
+      transcript: joinWords(words),
+      words,
+      confidence: averageConfidence(words),
+      usageUsedMs,
+    };
+  }
+}
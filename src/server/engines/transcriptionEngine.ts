@@ -0,0 +1,248 @@
+import { LoremIpsum } from 'lorem-ipsum';
+import { rejectOnAbort } from '@util/abort';
+import {
+  audioBytes,
+  AudioFormat,
+  audioDurationMs,
+  DEFAULT_AUDIO_FORMAT,
+} from '@util/audioFormat';
+import { delay } from '@util/delay';
+import { createSeededRandom, getRandomArbitrary, Random } from '@util/random';
+import { TranscriptionEngineName } from '@util/protocol';
+
+// a word every 250ms of audio is probably an ok average for speech
+export const MS_PER_WORD = 250;
+/** bytes of a word in the default format (PCM 16kHz/16bit mono) */
+export const BYTES_PER_WORD = audioBytes(DEFAULT_AUDIO_FORMAT, MS_PER_WORD);
+
+// shared with the client SDK
+export {
+  isTranscriptionEngineName,
+  TRANSCRIPTION_ENGINE_NAMES,
+} from '@util/protocol';
+export type { TranscriptionEngineName } from '@util/protocol';
+
+export interface TranscribeWord {
+  word: string;
+  /** ms from the start of the session's audio */
+  startMs: number;
+  endMs: number;
+  confidence: number;
+}
+
+export interface TranscribeResult {
+  transcript: string;
+  words: TranscribeWord[];
+  usageUsedMs: number;
+  /** average of the word confidences */
+  confidence: number;
+}
+
+/**
+ * Called with the transcript so far while the audio is still being processed.
+ */
+export type PartialTranscriptHandler = (transcript: string) => void;
+
+export interface EngineTranscribeRequest {
+  audioPacket: Buffer;
+  /** of the audio in `audioPacket`, without any header */
+  format: AudioFormat;
+  /** where the packet starts in the session's audio */
+  startMs: number;
+  abortSignal?: AbortSignal;
+  onPartial?: PartialTranscriptHandler;
+}
+
+export interface TranscriptionEngineCapabilities {
+  /** calls `onPartial` while processing */
+  partials: boolean;
+  /** word times come from the engine, otherwise they're spread evenly over the packet */
+  wordTimestamps: boolean;
+  /** the same audio in the same order always gives the same transcript */
+  deterministic: boolean;
+}
+
+/**
+ * How `usageUsedMs` is charged, from the duration of the audio whatever its format:
+ * - `per_word` `msPerWord` for every `audioMsPerWord` of audio, started words count in full
+ * - `processing_time` wall clock time of the engine, `estimatedMsPerAudioMs` is reserved up front
+ */
+export type TranscriptionCostModel =
+  | { type: 'per_word'; audioMsPerWord: number; msPerWord: number }
+  | { type: 'processing_time'; estimatedMsPerAudioMs: number };
+
+export const PER_WORD_COST_MODEL: TranscriptionCostModel = {
+  type: 'per_word',
+  audioMsPerWord: MS_PER_WORD,
+  msPerWord: MS_PER_WORD,
+};
+
+/**
+ * Usage reserved before transcribing `durationMs` of audio.
+ */
+export function estimateUsageMs(
+  costModel: TranscriptionCostModel,
+  durationMs: number,
+): number {
+  switch (costModel.type) {
+    case 'per_word':
+      return (
+        Math.ceil(durationMs / costModel.audioMsPerWord) * costModel.msPerWord
+      );
+    case 'processing_time':
+      return Math.ceil(durationMs * costModel.estimatedMsPerAudioMs);
+  }
+}
+
+export interface TranscriptionEngine {
+  readonly name: TranscriptionEngineName;
+  readonly capabilities: TranscriptionEngineCapabilities;
+  readonly costModel: TranscriptionCostModel;
+  transcribe(request: EngineTranscribeRequest): Promise<TranscribeResult>;
+}
+
+/**
+ * Where the packet ends in the session's audio.
+ */
+export function requestEndMs({
+  audioPacket,
+  format,
+  startMs,
+}: EngineTranscribeRequest): number {
+  return startMs + audioDurationMs(format, audioPacket.length);
+}
+
+export function joinWords(words: TranscribeWord[]): string {
+  return words.map(({ word }) => word).join(' ');
+}
+
+export function averageConfidence(words: TranscribeWord[]): number {
+  if (words.length === 0) {
+    return 0;
+  }
+  return (
+    words.reduce((sum, { confidence }) => sum + confidence, 0) / words.length
+  );
+}
+
+/**
+ * Gives each word an equal share of the audio between `startMs` and `endMs`.
+ */
+export function spreadWords(
+  texts: string[],
+  startMs: number,
+  endMs: number,
+  confidence: () => number,
+): TranscribeWord[] {
+  const wordMs = (endMs - startMs) / Math.max(texts.length, 1);
+  return texts.map((word, ix) => ({
+    word,
+    startMs: Math.round(startMs + ix * wordMs),
+    endMs: Math.round(startMs + (ix + 1) * wordMs),
+    confidence: confidence(),
+  }));
+}
+
+async function simulateDelay(ms: number, abortSignal?: AbortSignal) {
+  const transcribeProcess = delay(ms);
+  if (abortSignal) {
+    if (abortSignal.aborted) {
+      throw new Error('Aborted');
+    }
+    const rejectOnAbortObj = rejectOnAbort(abortSignal);
+    await Promise.race([transcribeProcess, rejectOnAbortObj.promise]).finally(
+      () => {
+        rejectOnAbortObj.cancel();
+      },
+    );
+  } else {
+    await transcribeProcess;
+  }
+}
+
+/**
+ * Waits out a fake processing time, growing the partial transcript by a word at even steps.
+ * The last word is left for the final result.
+ */
+export async function simulateProcessing(
+  words: TranscribeWord[],
+  processTimeMs: number,
+  abortSignal?: AbortSignal,
+  onPartial?: PartialTranscriptHandler,
+): Promise<void> {
+  let elapsedMs = 0;
+  if (onPartial) {
+    const stepMs = Math.floor(processTimeMs / Math.max(words.length, 1));
+    for (let count = 1; count < words.length; count++) {
+      await simulateDelay(stepMs, abortSignal);
+      elapsedMs += stepMs;
+      onPartial(joinWords(words.slice(0, count)));
+    }
+  }
+  await simulateDelay(processTimeMs - elapsedMs, abortSignal);
+}
+
+/**
+ * Random lorem ipsum, a word for every `MS_PER_WORD` of audio.
+ * With a seed the words and confidences repeat for the same packets sent in the same order.
+ */
+export class LoremTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'lorem';
+  readonly capabilities: TranscriptionEngineCapabilities;
+  readonly costModel = PER_WORD_COST_MODEL;
+  private readonly random: Random;
+  private readonly lorem: LoremIpsum;
+
+  constructor(seed?: number) {
+    this.random = seed === undefined ? Math.random : createSeededRandom(seed);
+    this.capabilities = {
+      partials: true,
+      wordTimestamps: true,
+      deterministic: seed !== undefined,
+    };
+    this.lorem = new LoremIpsum({
+      sentencesPerParagraph: {
+        max: 8,
+        min: 4,
+      },
+      wordsPerSentence: {
+        max: 16,
+        min: 4,
+      },
+      random: this.random,
+    });
+  }
+
+  async transcribe(
+    request: EngineTranscribeRequest,
+  ): Promise<TranscribeResult> {
+    const { startMs, abortSignal, onPartial } = request;
+    const endMs = requestEndMs(request);
+    const processTimeMs = estimateUsageMs(this.costModel, endMs - startMs);
+    const words = this.generateWords(startMs, endMs);
+    await simulateProcessing(words, processTimeMs, abortSignal, onPartial);
+    return {
+      transcript: joinWords(words),
+      words,
+      confidence: averageConfidence(words),
+      usageUsedMs: processTimeMs,
+    };
+  }
+
+  private generateWords(startMs: number, endMs: number): TranscribeWord[] {
+    const wordCount = Math.max(Math.ceil((endMs - startMs) / MS_PER_WORD), 1);
+    return this.lorem
+      .generateWords(wordCount)
+      .split(' ')
+      .map((word, ix) => {
+        const wordStartMs = startMs + ix * MS_PER_WORD;
+        return {
+          word,
+          startMs: Math.round(wordStartMs),
+          // the last word only lasts until the end of the packet
+          endMs: Math.round(Math.min(wordStartMs + MS_PER_WORD, endMs)),
+          confidence: getRandomArbitrary(0.5, 1.0, this.random),
+        };
+      });
+  }
+}
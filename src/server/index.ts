@@ -1,15 +1,23 @@
 import express from 'express';
 import http, { Server as HttpServer } from 'http';
 import { WebSocketServer } from 'ws';
+import { assertAuthConfigured } from '@server/auth';
 import { defaultErrorHandler } from '@server/defaultErrorHandler';
 import { router } from '@server/routes';
+import * as metricsRoutes from '@server/routes/metricsRoutes';
 import { setupWebSocket } from '@server/ws/wsTranscribe';
+import { seedStorage } from '@server/services/usageService';
+import { seedUsers } from '@server/services/userService';
 
 export async function createServer(port: number): Promise<{
   httpServer: HttpServer;
   wss: WebSocketServer;
   shutdown: () => Promise<void[]>;
 }> {
+  assertAuthConfigured();
+  seedUsers();
+  await seedStorage();
+
   const app = express();
   const httpServer = http.createServer((req, res) => {
     // apparently @typescript-eslint/no-floating-promises thinks app is a promise...
@@ -28,6 +36,8 @@ export async function createServer(port: number): Promise<{
     });
   }
 
+  // unauthenticated like most scrape targets, keep it off public networks
+  app.use('/metrics', metricsRoutes.router);
   app.use('/api', router);
   app.use(defaultErrorHandler);
 
@@ -0,0 +1,29 @@
+import { Response } from 'express';
+import { config, DEV_JWT_SECRET } from '@server/config';
+import { Middleware, Role } from '@server/types';
+
+function forbidden(res: Response, error = 'Forbidden'): void {
+  res.status(403).json({ error });
+}
+
+// expects authMiddleware to have run first
+export function requireRole(role: Role): Middleware {
+  return (req, res, next) => {
+    if (!req.user?.roles.includes(role)) {
+      return forbidden(res);
+    }
+    next();
+  };
+}
+
+const requireAdmin = requireRole('admin');
+
+// anyone can sign an admin token with the public dev secret
+export const adminMiddleware: Middleware = (req, res, next) => {
+  if (config.jwt.secret === DEV_JWT_SECRET) {
+    return forbidden(res, 'Admin API is disabled with the dev JWT secret');
+  }
+  requireAdmin(req, res, next);
+};
+
+export default adminMiddleware;
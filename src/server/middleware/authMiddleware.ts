@@ -1,21 +1,22 @@
 import { Response } from 'express';
-import { getTokenFromAuthorization, getUserIdFromToken } from '@server/auth';
+import { authenticateAuthorization } from '@server/auth';
 import { Middleware } from '@server/types';
+import { UnauthorizedError } from '@util/error';
 
-function unauthorized(res: Response): void {
-  res.status(401).json({ error: 'Unauthorized' });
+function unauthorized(res: Response, message = 'Unauthorized'): void {
+  res.status(401).json({ error: message });
 }
 
 export const authMiddleware: Middleware = (req, res, next) => {
-  const token = getTokenFromAuthorization(req.headers.authorization);
-  if (!token) {
-    return unauthorized(res);
+  try {
+    const user = authenticateAuthorization(req.headers.authorization);
+    req.user = { id: user.id, roles: user.roles };
+  } catch (err) {
+    if (err instanceof UnauthorizedError) {
+      return unauthorized(res, err.message);
+    }
+    return next(err);
   }
-  const userId = getUserIdFromToken(token);
-  if (!userId) {
-    return unauthorized(res);
-  }
-  req.user = { id: userId };
   next();
 };
 
@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  countElapsedWindows,
+  getPlanWindow,
+  PLANS,
+  refillRemainingMs,
+} from '@server/plans';
+
+const DAY_MS = 24 * 60 * 60_000;
+
+describe('plans', () => {
+  it('should align daily windows to UTC days', () => {
+    const now = Date.UTC(2024, 1, 29, 13, 30);
+    expect(getPlanWindow('daily', 0, now)).toEqual({
+      start: Date.UTC(2024, 1, 29),
+      end: Date.UTC(2024, 2, 1),
+    });
+  });
+  it('should align monthly windows to UTC months', () => {
+    expect(getPlanWindow('monthly', 0, Date.UTC(2024, 11, 31, 23))).toEqual({
+      start: Date.UTC(2024, 11, 1),
+      end: Date.UTC(2025, 0, 1),
+    });
+  });
+  it('should anchor rolling windows to plan assignment', () => {
+    const anchor = Date.UTC(2024, 0, 10, 12);
+    expect(getPlanWindow('rolling30', anchor, anchor + 45 * DAY_MS)).toEqual({
+      start: anchor + 30 * DAY_MS,
+      end: anchor + 60 * DAY_MS,
+    });
+  });
+  it('should count elapsed windows', () => {
+    const start = Date.UTC(2024, 0, 1);
+    expect(countElapsedWindows('daily', 0, start, start + DAY_MS - 1)).toBe(0);
+    expect(countElapsedWindows('daily', 0, start, start + 3 * DAY_MS)).toBe(3);
+    expect(
+      countElapsedWindows('monthly', 0, start, Date.UTC(2024, 3, 15)),
+    ).toBe(3);
+  });
+  it('should refill with and without rollover', () => {
+    expect(refillRemainingMs(PLANS.free, 200, 2)).toBe(PLANS.free.allowanceMs);
+    expect(refillRemainingMs(PLANS.pro, 200, 1)).toBe(
+      200 + PLANS.pro.allowanceMs,
+    );
+  });
+  it('should cap rollover at one window allowance', () => {
+    const { allowanceMs } = PLANS.pro;
+    expect(refillRemainingMs(PLANS.pro, allowanceMs + 200, 1)).toBe(
+      2 * allowanceMs,
+    );
+    expect(refillRemainingMs(PLANS.pro, 200, 3)).toBe(2 * allowanceMs);
+  });
+});
@@ -0,0 +1,126 @@
+import { PlanName } from '@util/protocol';
+
+// shared with the client SDK
+export { isPlanName, PLAN_NAMES } from '@util/protocol';
+export type { PlanName } from '@util/protocol';
+
+/**
+ * - `daily` / `monthly` reset at the start of the UTC day / month
+ * - `rolling30` resets every 30 days counted from when the plan was assigned
+ */
+export type PlanWindow = 'daily' | 'monthly' | 'rolling30';
+
+export interface Plan {
+  name: PlanName;
+  /** remainingMs is refilled to this at the start of every window */
+  allowanceMs: number;
+  window: PlanWindow;
+  /** when true unused usage, up to one window's allowance, is carried over into the next window instead of being dropped */
+  rollover: boolean;
+  /** share of transcription capacity relative to other plans when the server is busy */
+  priorityWeight: number;
+}
+
+export const PLANS: Readonly<Record<PlanName, Plan>> = {
+  // kept small so the e2e tests can exhaust it quickly
+  free: {
+    name: 'free',
+    allowanceMs: 1000,
+    window: 'daily',
+    rollover: false,
+    priorityWeight: 1,
+  },
+  pro: {
+    name: 'pro',
+    allowanceMs: 10 * 60 * 60_000,
+    window: 'monthly',
+    rollover: true,
+    priorityWeight: 4,
+  },
+  // effectively unlimited while still going through the same accounting
+  unlimited: {
+    name: 'unlimited',
+    allowanceMs: Number.MAX_SAFE_INTEGER,
+    window: 'daily',
+    rollover: false,
+    priorityWeight: 4,
+  },
+};
+
+export const DEFAULT_PLAN: PlanName = 'free';
+
+const DAY_MS = 24 * 60 * 60_000;
+const ROLLING_30_MS = 30 * DAY_MS;
+
+export interface PlanWindowRange {
+  /** ms since epoch, inclusive */
+  start: number;
+  /** ms since epoch, exclusive */
+  end: number;
+}
+
+/**
+ * @param anchor ms since epoch the plan was assigned, only used by `rolling30`
+ */
+export function getPlanWindow(
+  window: PlanWindow,
+  anchor: number,
+  now: number,
+): PlanWindowRange {
+  switch (window) {
+    case 'daily': {
+      const start = Math.floor(now / DAY_MS) * DAY_MS;
+      return { start, end: start + DAY_MS };
+    }
+    case 'monthly': {
+      const date = new Date(now);
+      return {
+        start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+        end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+      };
+    }
+    case 'rolling30': {
+      const start =
+        anchor + Math.floor((now - anchor) / ROLLING_30_MS) * ROLLING_30_MS;
+      return { start, end: start + ROLLING_30_MS };
+    }
+  }
+}
+
+/**
+ * Number of window boundaries crossed going from the window starting at `windowStart` to `now`.
+ */
+export function countElapsedWindows(
+  window: PlanWindow,
+  anchor: number,
+  windowStart: number,
+  now: number,
+): number {
+  let count = 0;
+  let range = getPlanWindow(window, anchor, windowStart);
+  while (range.end <= now) {
+    count++;
+    range = getPlanWindow(window, anchor, range.end);
+  }
+  return count;
+}
+
+/**
+ * remainingMs at the start of a new window, rollover carries at most one window's allowance
+ * so an idle account doesn't bank months of usage.
+ */
+export function refillRemainingMs(
+  plan: Plan,
+  remainingMs: number,
+  elapsedWindows: number,
+): number {
+  if (!plan.rollover) {
+    return plan.allowanceMs;
+  }
+  // a window skipped entirely left its whole allowance unused
+  const unusedMs = elapsedWindows > 1 ? plan.allowanceMs : remainingMs;
+  return Math.min(
+    plan.allowanceMs + Math.min(unusedMs, plan.allowanceMs),
+    Number.MAX_SAFE_INTEGER,
+  );
+}
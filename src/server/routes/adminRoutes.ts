@@ -0,0 +1,43 @@
+import * as express from 'express';
+import * as adminController from '../controllers/adminController';
+import { withAuth } from '../types';
+
+export const router: express.Router = express.Router();
+
+router.use(express.json());
+
+router.get('/users', withAuth(adminController.listUsers));
+router.post('/users', withAuth(adminController.createUser));
+router.get('/users/:userId', withAuth(adminController.getUser));
+router.get('/users/:userId/tokens', withAuth(adminController.listTokens));
+router.post('/users/:userId/tokens', withAuth(adminController.issueToken));
+router.delete(
+  '/users/:userId/tokens',
+  withAuth(adminController.revokeAllTokens),
+);
+router.delete('/tokens/:tokenId', withAuth(adminController.revokeToken));
+router.put('/users/:userId/usage', withAuth(adminController.setUsage));
+router.put('/users/:userId/plan', withAuth(adminController.setPlan));
+router.post(
+  '/users/:userId/usage/top-up',
+  withAuth(adminController.topUpUsage),
+);
+router.post(
+  '/users/:userId/usage/reset-total',
+  withAuth(adminController.resetTotalUsed),
+);
+router.get('/sockets', withAuth(adminController.listSockets));
+router.get('/faults', withAuth(adminController.listFaults));
+router.put('/users/:userId/faults', withAuth(adminController.setUserFaults));
+router.delete(
+  '/users/:userId/faults',
+  withAuth(adminController.clearUserFaults),
+);
+router.put(
+  '/sessions/:sessionId/faults',
+  withAuth(adminController.setSessionFaults),
+);
+router.delete(
+  '/sessions/:sessionId/faults',
+  withAuth(adminController.clearSessionFaults),
+);
@@ -1,7 +1,10 @@
 import * as express from 'express';
+import adminMiddleware from '@server/middleware/adminMiddleware';
 import authMiddleware from '@server/middleware/authMiddleware';
+import * as adminRoutes from '@server/routes/adminRoutes';
 import * as usageRoutes from '@server/routes/usageRoutes';
 
 export const router: express.Router = express.Router();
 
 router.use(authMiddleware, usageRoutes.router);
+router.use('/admin', adminMiddleware, adminRoutes.router);
@@ -0,0 +1,6 @@
+import * as express from 'express';
+import * as metricsController from '../controllers/metricsController';
+
+export const router: express.Router = express.Router();
+
+router.get('/', metricsController.getMetrics);
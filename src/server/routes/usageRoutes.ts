@@ -5,3 +5,4 @@ import { withAuth } from '../types';
 export const router: express.Router = express.Router();
 
 router.get('/usage', withAuth(usageController.getUsage));
+router.get('/usage/history', withAuth(usageController.getUsageHistory));
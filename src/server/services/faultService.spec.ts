@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  getFaults,
+  NO_FAULTS,
+  resetFaults,
+  roll,
+  setSessionFaults,
+  setUserFaults,
+  withFaults,
+} from '@server/services/faultService';
+import { userId } from '@server/types';
+import { AbortedError, InvalidData } from '@util/error';
+
+const USER_ID = userId('1');
+
+describe('faultService', () => {
+  afterEach(() => {
+    resetFaults();
+  });
+  it('should roll against the rate', () => {
+    expect(roll(0, () => 0)).toBe(false);
+    expect(roll(0.5, () => 0.49)).toBe(true);
+    expect(roll(0.5, () => 0.5)).toBe(false);
+    expect(roll(1, () => 0.99)).toBe(true);
+  });
+  it('should prefer session faults over user faults', () => {
+    expect(getFaults(USER_ID, 'session')).toBe(NO_FAULTS);
+    setUserFaults(USER_ID, { dropRate: 1 });
+    expect(getFaults(USER_ID, 'session')).toEqual({
+      ...NO_FAULTS,
+      dropRate: 1,
+    });
+    setSessionFaults('session', { reorderRate: 1 });
+    expect(getFaults(USER_ID, 'session')).toEqual({
+      ...NO_FAULTS,
+      reorderRate: 1,
+    });
+    expect(getFaults(USER_ID, 'other')).toEqual({
+      ...NO_FAULTS,
+      dropRate: 1,
+    });
+  });
+  it('should pass through without faults', async () => {
+    await expect(
+      withFaults(
+        NO_FAULTS,
+        new AbortController().signal,
+        () => Promise.resolve('ok'),
+        Math.random,
+      ),
+    ).resolves.toBe('ok');
+  });
+  it('should throw the injected error', async () => {
+    await expect(
+      withFaults(
+        { ...NO_FAULTS, errorRate: 1, errorType: 'invalid_data' },
+        new AbortController().signal,
+        () => Promise.resolve('ok'),
+        Math.random,
+      ),
+    ).rejects.toBeInstanceOf(InvalidData);
+  });
+  it('should hang until aborted', async () => {
+    const abortController = new AbortController();
+    const result = withFaults(
+      { ...NO_FAULTS, timeoutRate: 1 },
+      abortController.signal,
+      () => Promise.resolve('ok'),
+      Math.random,
+    );
+    abortController.abort();
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+  });
+  it('should add latency and jitter', async () => {
+    const start = Date.now();
+    await withFaults(
+      { ...NO_FAULTS, extraLatencyMs: 20, jitterMs: 40 },
+      new AbortController().signal,
+      () => Promise.resolve('ok'),
+      () => 0.5,
+    );
+    expect(Date.now() - start).toBeGreaterThanOrEqual(39);
+  });
+});
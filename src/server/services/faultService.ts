@@ -0,0 +1,166 @@
+import { UserId } from '@server/types';
+import { onAbort } from '@util/abort';
+import { delay } from '@util/delay';
+import {
+  AbortedError,
+  ConnectionClosedUnexpectedlyError,
+  ExceededAllocatedUsageError,
+  InvalidData,
+} from '@util/error';
+import { getRandomArbitrary, Random } from '@util/random';
+
+/**
+ * What an injected error looks like to `handleTranscribeError`, one per branch.
+ */
+export const FAULT_ERROR_TYPES = [
+  'engine',
+  'invalid_data',
+  'exceeded_usage',
+  'aborted',
+  'connection_closed',
+  'unknown',
+] as const;
+
+export type FaultErrorType = (typeof FAULT_ERROR_TYPES)[number];
+
+/**
+ * Rates are probabilities from 0 to 1, rolled for every transcribed segment.
+ */
+export interface FaultProfile {
+  /** the transcription throws an error of `errorType` */
+  errorRate: number;
+  errorType: FaultErrorType;
+  /** added before every transcription */
+  extraLatencyMs: number;
+  /** up to this much more latency, picked at random */
+  jitterMs: number;
+  /** the transcription hangs until `TRANSCRIBE_TIMEOUT_MS` trips */
+  timeoutRate: number;
+  /** the result is charged for but never sent */
+  dropRate: number;
+  /** the result is held back and sent after the next one */
+  reorderRate: number;
+}
+
+export const NO_FAULTS: FaultProfile = {
+  errorRate: 0,
+  errorType: 'engine',
+  extraLatencyMs: 0,
+  jitterMs: 0,
+  timeoutRate: 0,
+  dropRate: 0,
+  reorderRate: 0,
+};
+
+export interface FaultProfiles {
+  users: Record<string, FaultProfile>;
+  sessions: Record<string, FaultProfile>;
+}
+
+const USER_ID_FAULT_MAP: Map<UserId, FaultProfile> = new Map();
+const SESSION_ID_FAULT_MAP: Map<string, FaultProfile> = new Map();
+
+export function setUserFaults(
+  userId: UserId,
+  faults: Partial<FaultProfile>,
+): FaultProfile {
+  const profile = { ...NO_FAULTS, ...faults };
+  USER_ID_FAULT_MAP.set(userId, profile);
+  return profile;
+}
+
+export function clearUserFaults(userId: UserId): boolean {
+  return USER_ID_FAULT_MAP.delete(userId);
+}
+
+export function setSessionFaults(
+  sessionId: string,
+  faults: Partial<FaultProfile>,
+): FaultProfile {
+  const profile = { ...NO_FAULTS, ...faults };
+  SESSION_ID_FAULT_MAP.set(sessionId, profile);
+  return profile;
+}
+
+export function clearSessionFaults(sessionId: string): boolean {
+  return SESSION_ID_FAULT_MAP.delete(sessionId);
+}
+
+export function listFaults(): FaultProfiles {
+  return {
+    users: Object.fromEntries(USER_ID_FAULT_MAP),
+    sessions: Object.fromEntries(SESSION_ID_FAULT_MAP),
+  };
+}
+
+export function resetFaults(): void {
+  USER_ID_FAULT_MAP.clear();
+  SESSION_ID_FAULT_MAP.clear();
+}
+
+/**
+ * A session's profile replaces its user's, read for every segment so changes apply mid session.
+ */
+export function getFaults(userId: UserId, sessionId: string): FaultProfile {
+  return (
+    SESSION_ID_FAULT_MAP.get(sessionId) ??
+    USER_ID_FAULT_MAP.get(userId) ??
+    NO_FAULTS
+  );
+}
+
+/**
+ * @param random the session's, seeded along with its engine
+ */
+export function roll(rate: number, random: Random): boolean {
+  return rate > 0 && random() < rate;
+}
+
+function createFaultError(type: FaultErrorType): unknown {
+  switch (type) {
+    case 'engine':
+      return new Error('injected engine error');
+    case 'invalid_data':
+      return new InvalidData('injected invalid data');
+    case 'exceeded_usage':
+      return new ExceededAllocatedUsageError('injected exceeded usage');
+    case 'aborted':
+      return new AbortedError('injected abort');
+    case 'connection_closed':
+      return new ConnectionClosedUnexpectedlyError(
+        'injected connection closed',
+      );
+    case 'unknown':
+      return 'injected unknown error';
+  }
+}
+
+/**
+ * Applies the profile's latency, errors and timeouts around a transcription.
+ */
+export async function withFaults<T>(
+  faults: FaultProfile,
+  abortSignal: AbortSignal,
+  fn: () => Promise<T>,
+  random: Random,
+): Promise<T> {
+  const latencyMs =
+    faults.extraLatencyMs +
+    (faults.jitterMs > 0 ? getRandomArbitrary(0, faults.jitterMs, random) : 0);
+  if (latencyMs > 0) {
+    await delay(latencyMs);
+    if (abortSignal.aborted) {
+      throw new AbortedError('aborted');
+    }
+  }
+  if (roll(faults.timeoutRate, random)) {
+    await new Promise((resolve) => onAbort(abortSignal, resolve));
+    // lets the caller's timeout() settle first so it reports its TimeoutError
+    await delay(0);
+    throw new AbortedError('aborted');
+  }
+  if (roll(faults.errorRate, random)) {
+    throw createFaultError(faults.errorType);
+  }
+  return fn();
+}
@@ -0,0 +1,71 @@
+import { InternalErrorCode, WsCloseCode } from '@util/protocol';
+import { Counter, Histogram, MetricsRegistry } from '@util/metrics';
+
+/**
+ * Served on `/metrics`, gauges of state kept elsewhere (sockets, queues) are registered next to it.
+ */
+export const registry = new MetricsRegistry();
+
+const packetsAccepted = registry.register(
+  new Counter(
+    'transcribe_packets_accepted_total',
+    'Audio packets queued for transcription',
+  ),
+);
+
+const bytesAccepted = registry.register(
+  new Counter(
+    'transcribe_bytes_accepted_total',
+    'Bytes of audio packets queued for transcription, ids included',
+  ),
+);
+
+const billedMs = registry.register(
+  new Counter(
+    'transcribe_billed_ms_total',
+    'Audio ms charged to users for transcribed segments',
+  ),
+);
+
+const socketCloses = registry.register(
+  new Counter(
+    'transcribe_socket_closes_total',
+    'Sockets closed by the server, by close code and InternalErrorCode',
+    ['close_code', 'internal_code'],
+  ),
+);
+
+const transcribeDuration = registry.register(
+  new Histogram(
+    'transcribe_duration_seconds',
+    'Wall-clock processing time of a segment, from leaving the queue to its result, not the duration of its audio',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  ),
+);
+
+export function recordPacket(bytes: number): void {
+  packetsAccepted.inc();
+  bytesAccepted.inc(bytes);
+}
+
+export function recordBilled(ms: number): void {
+  billedMs.inc(ms);
+}
+
+export function recordSocketClose(
+  closeCode: WsCloseCode,
+  internalCode: InternalErrorCode,
+): void {
+  socketCloses.inc(1, {
+    close_code: String(closeCode),
+    internal_code: InternalErrorCode[internalCode],
+  });
+}
+
+export function recordTranscribeDuration(ms: number): void {
+  transcribeDuration.observe(ms / 1000);
+}
+
+export function render(): string {
+  return registry.render();
+}
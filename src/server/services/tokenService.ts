@@ -0,0 +1,77 @@
+import { randomUUID } from 'node:crypto';
+import {
+  issueToken,
+  revokeTokenId,
+  revokeTokensIssuedBefore,
+} from '@server/auth';
+import { Role, UserId } from '@server/types';
+
+export type IssuedToken = {
+  tokenId: string;
+  userId: UserId;
+  roles: Role[];
+  issuedAt: number;
+  expiresAt: number | null;
+  revoked: boolean;
+};
+
+export interface IssueUserTokenRequest {
+  expiresInSec?: number;
+  roles?: Role[];
+}
+
+// metadata only, the tokens themselves are never stored
+const ISSUED_TOKENS: Map<string, IssuedToken> = new Map();
+
+export function issueUserToken(
+  userId: UserId,
+  request: IssueUserTokenRequest = {},
+): { token: string; issued: IssuedToken } {
+  const tokenId = randomUUID();
+  const roles = request.roles ?? [];
+  const issuedAt = Date.now();
+  const token = issueToken(userId, {
+    expiresInSec: request.expiresInSec,
+    claims: { jti: tokenId, roles },
+  });
+  const issued: IssuedToken = {
+    tokenId,
+    userId,
+    roles,
+    issuedAt,
+    expiresAt:
+      request.expiresInSec !== undefined
+        ? (Math.floor(issuedAt / 1000) + request.expiresInSec) * 1000
+        : null,
+    revoked: false,
+  };
+  ISSUED_TOKENS.set(tokenId, issued);
+  return { token, issued };
+}
+
+export function listTokens(userId: UserId): IssuedToken[] {
+  return [...ISSUED_TOKENS.values()].filter(
+    (issued) => issued.userId === userId,
+  );
+}
+
+/**
+ * Also accepts ids of tokens that weren't issued by this server (e.g. signed by an external issuer).
+ */
+export function revokeToken(tokenId: string): IssuedToken | null {
+  const issued = ISSUED_TOKENS.get(tokenId) ?? null;
+  revokeTokenId(tokenId, issued?.expiresAt ?? null);
+  if (issued) {
+    issued.revoked = true;
+  }
+  return issued;
+}
+
+export function revokeAllTokens(userId: UserId): IssuedToken[] {
+  revokeTokensIssuedBefore(userId);
+  const revoked = listTokens(userId).filter((issued) => !issued.revoked);
+  for (const issued of revoked) {
+    revokeToken(issued.tokenId);
+  }
+  return revoked;
+}
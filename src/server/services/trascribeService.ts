@@ -1,105 +1,170 @@
-import { LoremIpsum } from 'lorem-ipsum';
-import { rejectOnAbort } from '@util/abort';
-import { delay } from '@util/delay';
-import { ExceededAllocatedUsageError } from '@util/error';
-import { getRandomArbitrary } from '@util/random';
+import * as console from 'node:console';
+import { config, TranscriptionEngineConfig } from '@server/config';
+import { FixtureTranscriptionEngine } from '@server/engines/fixtureTranscriptionEngine';
+import { SubprocessTranscriptionEngine } from '@server/engines/subprocessTranscriptionEngine';
+import {
+  estimateUsageMs as estimateEngineUsageMs,
+  LoremTranscriptionEngine,
+  PartialTranscriptHandler,
+  PER_WORD_COST_MODEL,
+  TranscribeResult,
+  TranscriptionCostModel,
+  TranscriptionEngine,
+  TranscriptionEngineCapabilities,
+  TranscriptionEngineName,
+} from '@server/engines/transcriptionEngine';
 import { UserId } from '@server/types';
 import * as usageService from '@server/services/usageService';
+import {
+  AudioFormat,
+  audioDurationMs,
+  DEFAULT_AUDIO_FORMAT,
+} from '@util/audioFormat';
+import { InvalidData } from '@util/error';
 
-export const BYTES_PER_WORD = 16_000; // 16k bytes per word is probably an ok average with PCM 16kz/16bit
-export const MS_PER_WORD = 250;
-
-const lorem = new LoremIpsum({
-  sentencesPerParagraph: {
-    max: 8,
-    min: 4,
-  },
-  wordsPerSentence: {
-    max: 16,
-    min: 4,
-  },
-});
-
-function fakeSpeechWordCount(audioPacket: Buffer): number {
-  // fake processing time by saying it will take 50ms per word
-  return Math.ceil(audioPacket.length / BYTES_PER_WORD);
-}
-
-function fakeProcessTime(wordCount: number): number {
-  // fake processing time by saying it will take 250ms per word
-  return Math.ceil(wordCount * MS_PER_WORD);
-}
-
-function fakeTranscriptText(audioPacket: Buffer): string {
-  const estimatedWordCount = fakeSpeechWordCount(audioPacket);
-  return lorem.generateWords(estimatedWordCount);
-}
-
-async function fakeTranscribe(
-  audioPacket: Buffer,
-  abortSignal?: AbortSignal,
-): Promise<TranscribeResult> {
-  const fakeProcessTimeMs = fakeProcessTime(fakeSpeechWordCount(audioPacket));
-  const transcribeProcess = delay(fakeProcessTimeMs);
-  if (abortSignal) {
-    if (abortSignal.aborted) {
-      throw new Error('Aborted');
-    }
-    const rejectOnAbortObj = rejectOnAbort(abortSignal);
-    await Promise.race([transcribeProcess, rejectOnAbortObj.promise]).finally(
-      () => {
-        rejectOnAbortObj.cancel();
-      },
-    );
-  } else {
-    await transcribeProcess;
-  }
-  const transcript = fakeTranscriptText(audioPacket);
-  return {
-    transcript,
-    confidence: getRandomArbitrary(0.5, 1.0),
-    usageUsedMs: fakeProcessTimeMs,
-  };
-}
+export {
+  BYTES_PER_WORD,
+  MS_PER_WORD,
+} from '@server/engines/transcriptionEngine';
+export type {
+  PartialTranscriptHandler,
+  TranscribeResult,
+  TranscribeWord,
+  TranscriptionEngine,
+  TranscriptionEngineName,
+} from '@server/engines/transcriptionEngine';
 
 export interface TranscribeForUserRequest {
   userId: UserId;
   audioPacket: Buffer;
+  /** defaults to the engine configured for the server */
+  engine?: TranscriptionEngine;
+  /** defaults to PCM 16kHz/16bit mono */
+  format?: AudioFormat;
+  /** where the packet starts in the session's audio, word times are relative to the session start */
+  byteOffset?: number;
   abortSignal?: AbortSignal;
+  onPartial?: PartialTranscriptHandler;
+  // recorded in the usage ledger
+  packetId?: number;
+  sessionId?: string;
 }
 
 export interface TranscribeRequest {
   audioPacket: Buffer;
+  engine?: TranscriptionEngine;
+  format?: AudioFormat;
+  byteOffset?: number;
   usageRemainingMs: number;
   abortSignal?: AbortSignal;
-}
-
-export interface TranscribeResult {
-  transcript: string;
-  usageUsedMs: number;
-  confidence: number;
+  onPartial?: PartialTranscriptHandler;
 }
 
 export type TranscribeResponse = TranscribeResult & {
   usageRemainingMs: number;
 };
 
-export function estimateUsageMs(audioPacket: Buffer): number {
-  return fakeProcessTime(fakeSpeechWordCount(audioPacket));
+/**
+ * What an engine can do and how it charges, advertised to clients.
+ */
+export interface TranscriptionEngineInfo {
+  name: TranscriptionEngineName;
+  capabilities: TranscriptionEngineCapabilities;
+  costModel: TranscriptionCostModel;
+}
+
+/**
+ * @param seed makes engines that generate transcripts reproducible
+ * @throws InvalidData when the engine isn't configured for this server
+ */
+export function createTranscriptionEngine(
+  name: TranscriptionEngineName,
+  seed: number | undefined = config.engine.seed,
+  engineConfig: TranscriptionEngineConfig = config.engine,
+): TranscriptionEngine {
+  switch (name) {
+    case 'lorem':
+      return new LoremTranscriptionEngine(seed);
+    case 'fixture':
+      if (!engineConfig.fixturePath) {
+        throw new InvalidData('fixture engine is not configured');
+      }
+      return new FixtureTranscriptionEngine(engineConfig.fixturePath);
+    case 'subprocess':
+      if (!engineConfig.subprocessCommand) {
+        throw new InvalidData('subprocess engine is not configured');
+      }
+      return new SubprocessTranscriptionEngine(engineConfig.subprocessCommand);
+  }
+}
+
+let transcriptionEngine: TranscriptionEngine | null = null;
+
+export function getTranscriptionEngine(): TranscriptionEngine {
+  if (!transcriptionEngine) {
+    transcriptionEngine = createTranscriptionEngine(config.engine.default);
+  }
+  return transcriptionEngine;
+}
+
+export function describeEngine(
+  engine: TranscriptionEngine,
+): TranscriptionEngineInfo {
+  return {
+    name: engine.name,
+    capabilities: engine.capabilities,
+    costModel: engine.costModel,
+  };
+}
+
+/**
+ * Usage reserved for a packet, from the duration of its audio.
+ */
+export function estimateUsageMs(
+  audioPacket: Buffer,
+  costModel: TranscriptionCostModel = PER_WORD_COST_MODEL,
+  format: AudioFormat = DEFAULT_AUDIO_FORMAT,
+): number {
+  return estimateUsageMsForLength(audioPacket.length, costModel, format);
+}
+
+export function estimateUsageMsForLength(
+  byteLength: number,
+  costModel: TranscriptionCostModel = PER_WORD_COST_MODEL,
+  format: AudioFormat = DEFAULT_AUDIO_FORMAT,
+): number {
+  return estimateEngineUsageMs(costModel, audioDurationMs(format, byteLength));
 }
 
 async function transcribe(
+  engine: TranscriptionEngine,
   audioPacket: Buffer,
+  format: AudioFormat,
+  byteOffset: number,
   abortSignal?: AbortSignal,
+  onPartial?: PartialTranscriptHandler,
 ): Promise<TranscribeResult> {
-  // process audio packet via native module or external service
-  return await fakeTranscribe(audioPacket, abortSignal);
+  return await engine.transcribe({
+    audioPacket,
+    format,
+    startMs: audioDurationMs(format, byteOffset),
+    abortSignal,
+    // engines without partials never call it
+    onPartial: engine.capabilities.partials ? onPartial : undefined,
+  });
 }
 
 export async function handleTranscribeRequest(
   request: Readonly<TranscribeRequest>,
 ): Promise<TranscribeResponse> {
-  const result = await transcribe(request.audioPacket, request.abortSignal);
+  const result = await transcribe(
+    request.engine ?? getTranscriptionEngine(),
+    request.audioPacket,
+    request.format ?? DEFAULT_AUDIO_FORMAT,
+    request.byteOffset ?? 0,
+    request.abortSignal,
+    request.onPartial,
+  );
   return {
     ...result,
     usageRemainingMs: request.usageRemainingMs - result.usageUsedMs,
@@ -109,21 +174,36 @@ export async function handleTranscribeRequest(
 export async function transcribeForUser(
   request: TranscribeForUserRequest,
 ): Promise<TranscribeResponse> {
-  const usageForUsage = await usageService.getUsage(request.userId);
-  const remainingMs = usageForUsage.remainingMs;
-  if (remainingMs <= 0) {
-    throw new ExceededAllocatedUsageError('No usage remaining');
-  }
-  if (remainingMs < estimateUsageMs(request.audioPacket)) {
-    throw new ExceededAllocatedUsageError(
-      'Not enough usage remaining to process request',
+  const engine = request.engine ?? getTranscriptionEngine();
+  const format = request.format ?? DEFAULT_AUDIO_FORMAT;
+  const reservation = await usageService.reserveUsage(
+    request.userId,
+    estimateUsageMs(request.audioPacket, engine.costModel, format),
+    { packetId: request.packetId, sessionId: request.sessionId },
+  );
+  let transcribeResult: TranscribeResult;
+  try {
+    transcribeResult = await transcribe(
+      engine,
+      request.audioPacket,
+      format,
+      request.byteOffset ?? 0,
+      request.abortSignal,
+      request.onPartial,
     );
+  } catch (err) {
+    // aborted (server closing / socket closed), timed out or engine error - nothing to charge for
+    await usageService.releaseUsage(reservation).catch((releaseErr) => {
+      console.error('failed to release usage reservation: ', releaseErr);
+    });
+    throw err;
   }
-  const transcribeResult = await handleTranscribeRequest({
-    usageRemainingMs: remainingMs,
-    audioPacket: request.audioPacket,
-    abortSignal: request.abortSignal,
-  });
-  await usageService.updateUsage(request.userId, transcribeResult.usageUsedMs);
-  return transcribeResult;
+  const usage = await usageService.commitUsage(
+    reservation,
+    transcribeResult.usageUsedMs,
+  );
+  return {
+    ...transcribeResult,
+    usageRemainingMs: usage.remainingMs,
+  };
 }
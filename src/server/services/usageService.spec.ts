@@ -0,0 +1,196 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { PLANS } from '@server/plans';
+import {
+  commitUsage,
+  getUsage,
+  getUsageHistory,
+  getUsageSummary,
+  releaseUsage,
+  reserveUsage,
+  resetStorage,
+  setPlan,
+  setUsageStore,
+  topUpUsage,
+  updateUsage,
+} from '@server/services/usageService';
+import { MemoryUsageStore } from '@server/stores/usageStore';
+import { userId } from '@server/types';
+import { InvalidCursorError } from '@util/error';
+
+const USER_ID = userId('1');
+
+describe('usageService', () => {
+  beforeEach(async () => {
+    setUsageStore(new MemoryUsageStore());
+    await resetStorage(1000);
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  it('should debit usage', async () => {
+    await expect(updateUsage(USER_ID, 250)).resolves.toEqual({
+      remainingMs: 750,
+      totalUsedMs: 250,
+    });
+    await expect(updateUsage(USER_ID, 1000)).rejects.toThrow(
+      'Not enough usage remaining',
+    );
+    await expect(getUsage(USER_ID)).resolves.toEqual({
+      remainingMs: 750,
+      totalUsedMs: 250,
+    });
+  });
+  it('should not allow concurrent reservations to overspend', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, () => reserveUsage(USER_ID, 250)),
+    );
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(4);
+    await expect(reserveUsage(USER_ID, 1)).rejects.toThrow(
+      'No usage remaining',
+    );
+  });
+  it('should commit actual usage and free the rest', async () => {
+    const reservation = await reserveUsage(USER_ID, 1000);
+    await expect(reserveUsage(USER_ID, 250)).rejects.toThrow(
+      'No usage remaining',
+    );
+    await expect(commitUsage(reservation, 250)).resolves.toEqual({
+      remainingMs: 750,
+      totalUsedMs: 250,
+    });
+    await expect(reserveUsage(USER_ID, 750)).resolves.toEqual(
+      expect.objectContaining({ ms: 750 }),
+    );
+  });
+  it('should charge no more than the remaining usage', async () => {
+    const reservation = await reserveUsage(USER_ID, 500);
+    await expect(commitUsage(reservation, 1500)).resolves.toEqual({
+      remainingMs: 0,
+      totalUsedMs: 1000,
+    });
+  });
+  it('should release without charging', async () => {
+    const reservation = await reserveUsage(USER_ID, 500);
+    await expect(releaseUsage(reservation)).resolves.toEqual({
+      remainingMs: 1000,
+      totalUsedMs: 0,
+    });
+    await expect(reserveUsage(USER_ID, 1000)).resolves.toEqual(
+      expect.objectContaining({ ms: 1000 }),
+    );
+  });
+  it('should not commit the same reservation twice', async () => {
+    const reservation = await reserveUsage(USER_ID, 250);
+    await commitUsage(reservation, 250);
+    await expect(commitUsage(reservation, 250)).rejects.toThrow(
+      'unknown usage reservation',
+    );
+    await expect(getUsage(USER_ID)).resolves.toEqual({
+      remainingMs: 750,
+      totalUsedMs: 250,
+    });
+  });
+  it('should record ledger entries', async () => {
+    const reservation = await reserveUsage(USER_ID, 500, {
+      packetId: 7,
+      sessionId: 'session',
+    });
+    await commitUsage(reservation, 250);
+    await topUpUsage(USER_ID, 100);
+    await updateUsage(USER_ID, 50);
+    await expect(getUsageHistory(USER_ID)).resolves.toEqual({
+      entries: [
+        expect.objectContaining({
+          type: 'debit',
+          amountMs: 50,
+          balanceMs: 800,
+          reason: 'debit',
+          packetId: null,
+        }),
+        expect.objectContaining({
+          type: 'credit',
+          amountMs: 100,
+          balanceMs: 850,
+          reason: 'top_up',
+        }),
+        expect.objectContaining({
+          type: 'debit',
+          amountMs: 250,
+          balanceMs: 750,
+          reason: 'transcribe',
+          packetId: 7,
+          sessionId: 'session',
+        }),
+      ],
+      nextCursor: null,
+    });
+  });
+  it('should paginate ledger entries', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await topUpUsage(USER_ID, i);
+    }
+    const first = await getUsageHistory(USER_ID, { limit: 2 });
+    expect(first.entries.map((entry) => entry.amountMs)).toEqual([5, 4]);
+    const second = await getUsageHistory(USER_ID, {
+      limit: 2,
+      cursor: first.nextCursor ?? undefined,
+    });
+    expect(second.entries.map((entry) => entry.amountMs)).toEqual([3, 2]);
+    const third = await getUsageHistory(USER_ID, {
+      limit: 2,
+      cursor: second.nextCursor ?? undefined,
+    });
+    expect(third).toEqual({
+      entries: [expect.objectContaining({ amountMs: 1 })],
+      nextCursor: null,
+    });
+    await expect(
+      getUsageHistory(USER_ID, { from: Date.now() + 1000 }),
+    ).resolves.toEqual({ entries: [], nextCursor: null });
+    await expect(
+      getUsageHistory(USER_ID, { cursor: 'unknown' }),
+    ).rejects.toThrow(InvalidCursorError);
+  });
+  it('should refill when the window rolls over', async () => {
+    const now = Date.now();
+    await updateUsage(USER_ID, 900);
+    jest.spyOn(Date, 'now').mockReturnValue(now + 24 * 60 * 60_000);
+    await expect(getUsageSummary(USER_ID)).resolves.toEqual(
+      expect.objectContaining({
+        usage: { remainingMs: PLANS.free.allowanceMs, totalUsedMs: 900 },
+        plan: 'free',
+      }),
+    );
+    const { entries } = await getUsageHistory(USER_ID);
+    expect(entries[0]).toEqual(
+      expect.objectContaining({
+        type: 'credit',
+        amountMs: PLANS.free.allowanceMs - 100,
+        reason: 'reset',
+      }),
+    );
+  });
+  it('should roll over unused usage', async () => {
+    const now = Date.UTC(2024, 0, 15);
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await setPlan(USER_ID, 'pro', 500);
+    await updateUsage(USER_ID, 100);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 1, 3));
+    await expect(getUsageSummary(USER_ID)).resolves.toEqual({
+      usage: { remainingMs: 400 + PLANS.pro.allowanceMs, totalUsedMs: 100 },
+      plan: 'pro',
+      window: {
+        start: Date.UTC(2024, 1, 1),
+        end: Date.UTC(2024, 2, 1),
+        resetsInMs: Date.UTC(2024, 2, 1) - Date.UTC(2024, 1, 3),
+      },
+    });
+  });
+});
@@ -1,52 +1,478 @@
-import { delay } from '@util/delay';
+import { randomUUID } from 'node:crypto';
+import { config, UsageStoreConfig } from '@server/config';
+import {
+  countElapsedWindows,
+  DEFAULT_PLAN,
+  getPlanWindow,
+  PlanName,
+  PLANS,
+  refillRemainingMs,
+} from '@server/plans';
+import { FileUsageStore } from '@server/stores/fileUsageStore';
+import {
+  MemoryUsageStore,
+  UsageData,
+  NewUsageLedgerEntry,
+  UsageLedgerPage,
+  UsageLedgerQuery,
+  UsageLedgerReason,
+  UsageRecord,
+  UsageStore,
+} from '@server/stores/usageStore';
 import { userId, UserId } from '@server/types';
+import { ExceededAllocatedUsageError } from '@util/error';
 
-export type UsageData = {
-  remainingMs: number;
-  totalUsedMs: number;
-};
+export type {
+  UsageData,
+  UsageLedgerEntry,
+  UsageLedgerPage,
+} from '@server/stores/usageStore';
 
-function createUsage(remaining: number): UsageData {
+export function createUsage(remaining: number): UsageData {
   return {
     remainingMs: remaining,
     totalUsedMs: 0,
   };
 }
 
-export const STARTING_USAGE_LIMIT_MS = 1000;
+export const STARTING_USAGE_LIMIT_MS = PLANS[DEFAULT_PLAN].allowanceMs;
 
-export const MEMORY_STORAGE: Map<UserId, UsageData> = new Map(
-  Object.entries({
-    [userId('1')]: createUsage(STARTING_USAGE_LIMIT_MS),
-    [userId('2')]: createUsage(STARTING_USAGE_LIMIT_MS),
-  } satisfies Record<UserId, UsageData>) as [UserId, UsageData][],
-);
+// longer than the transcribe timeout so live reservations never expire
+export const RESERVATION_TTL_MS = 5 * 60_000;
 
-export function resetStorage(maxUsage = STARTING_USAGE_LIMIT_MS): void {
-  MEMORY_STORAGE.set(userId('1'), createUsage(maxUsage));
-  MEMORY_STORAGE.set(userId('2'), createUsage(maxUsage));
+export const DEFAULT_LEDGER_PAGE_SIZE = 50;
+export const MAX_LEDGER_PAGE_SIZE = 500;
+
+export interface UsageContext {
+  packetId?: number | null;
+  sessionId?: string | null;
+}
+
+export interface UsageReservation extends UsageContext {
+  id: string;
+  userId: UserId;
+  ms: number;
+}
+
+export interface UsageWindow {
+  /** ms since epoch */
+  start: number;
+  /** ms since epoch, remainingMs is refilled once this passes */
+  end: number;
+  resetsInMs: number;
+}
+
+export interface UsageSummary {
+  usage: UsageData;
+  plan: PlanName;
+  window: UsageWindow;
+}
+
+export const DEFAULT_USER_IDS = [userId('1'), userId('2')];
+
+export function createUsageStore(storeConfig: UsageStoreConfig): UsageStore {
+  switch (storeConfig.type) {
+    case 'memory':
+      return new MemoryUsageStore(50);
+    case 'file':
+      return new FileUsageStore(storeConfig.filePath);
+  }
+}
+
+let usageStore: UsageStore | null = null;
+
+export function getUsageStore(): UsageStore {
+  if (!usageStore) {
+    usageStore = createUsageStore(config.usageStore);
+  }
+  return usageStore;
+}
+
+export function setUsageStore(store: UsageStore): void {
+  usageStore = store;
+}
+
+export function createPlanUsage(
+  planName: PlanName,
+  now: number,
+  remainingMs = PLANS[planName].allowanceMs,
+): UsageRecord {
+  return {
+    ...createUsage(remainingMs),
+    plan: planName,
+    planAssignedAt: now,
+    windowStart: getPlanWindow(PLANS[planName].window, now, now).start,
+  };
 }
 
-resetStorage();
+export async function resetStorage(
+  maxUsage = STARTING_USAGE_LIMIT_MS,
+): Promise<void> {
+  const store = getUsageStore();
+  for (const id of DEFAULT_USER_IDS) {
+    await store.set(id, createPlanUsage(DEFAULT_PLAN, Date.now(), maxUsage));
+  }
+}
+
+/**
+ * Creates the default users if they don't exist yet, persisted usage is left untouched.
+ */
+export async function seedStorage(
+  maxUsage = STARTING_USAGE_LIMIT_MS,
+): Promise<void> {
+  for (const id of DEFAULT_USER_IDS) {
+    await updateRecord(
+      id,
+      (usage, now) => usage ?? createPlanUsage(DEFAULT_PLAN, now, maxUsage),
+      'allowance',
+    );
+  }
+}
+
+/**
+ * Refills remainingMs if the plan window has rolled over since the last update.
+ * Records written before plans existed are moved onto the default plan without a refill.
+ */
+function withCurrentWindow(record: UsageRecord, now: number): UsageRecord {
+  const plan = PLANS[record.plan ?? DEFAULT_PLAN];
+  const anchor = record.planAssignedAt ?? now;
+  const { start } = getPlanWindow(plan.window, anchor, now);
+  if (record.windowStart === undefined) {
+    return {
+      ...record,
+      plan: plan.name,
+      planAssignedAt: anchor,
+      windowStart: start,
+    };
+  }
+  if (start <= record.windowStart) {
+    return record;
+  }
+  const elapsedWindows = countElapsedWindows(
+    plan.window,
+    anchor,
+    record.windowStart,
+    now,
+  );
+  return {
+    ...record,
+    remainingMs: refillRemainingMs(plan, record.remainingMs, elapsedWindows),
+    windowStart: start,
+  };
+}
+
+function balanceChange(
+  fromMs: number,
+  toMs: number,
+  reason: UsageLedgerReason,
+  context: UsageContext,
+): NewUsageLedgerEntry[] {
+  const deltaMs = toMs - fromMs;
+  if (deltaMs === 0) {
+    return [];
+  }
+  return [
+    {
+      type: deltaMs > 0 ? 'credit' : 'debit',
+      amountMs: Math.abs(deltaMs),
+      balanceMs: toMs,
+      reason,
+      packetId: context.packetId ?? null,
+      sessionId: context.sessionId ?? null,
+    },
+  ];
+}
+
+/**
+ * Applies any pending window refill before `updater` and records both in the ledger,
+ * `updater` receives null when the user has no usage yet.
+ */
+async function updateRecord(
+  userId: UserId,
+  updater: (usage: UsageRecord | null, now: number) => UsageRecord,
+  reason: UsageLedgerReason,
+  context: UsageContext = {},
+): Promise<UsageRecord> {
+  let refilled: UsageRecord | null = null;
+  return getUsageStore().update(
+    userId,
+    (current) => {
+      const now = Date.now();
+      refilled = current && withCurrentWindow(current, now);
+      return updater(refilled, now);
+    },
+    (previous, next) => {
+      const refilledMs = refilled?.remainingMs ?? 0;
+      return [
+        ...balanceChange(previous?.remainingMs ?? 0, refilledMs, 'reset', {}),
+        ...balanceChange(refilledMs, next.remainingMs, reason, context),
+      ];
+    },
+  );
+}
+
+function toUsageData(record: UsageRecord | null): UsageData {
+  const usage = record ?? createUsage(0);
+  return {
+    remainingMs: usage.remainingMs,
+    totalUsedMs: usage.totalUsedMs,
+  };
+}
 
-function _getUsage(userId: UserId): UsageData {
-  return MEMORY_STORAGE.get(userId) ?? createUsage(0);
+function withoutExpiredReservations(
+  record: UsageRecord,
+  now: number,
+): UsageRecord {
+  const reservations = Object.fromEntries(
+    Object.entries(record.reservations ?? {}).filter(
+      ([, entry]) => entry.expiresAt > now,
+    ),
+  );
+  return { ...record, reservations };
+}
+
+function reservedMs(record: UsageRecord): number {
+  return Object.values(record.reservations ?? {}).reduce(
+    (total, entry) => total + entry.ms,
+    0,
+  );
+}
+
+function orEmptyUsage(usage: UsageRecord | null, now: number): UsageRecord {
+  return usage ?? createPlanUsage(DEFAULT_PLAN, now, 0);
+}
+
+/**
+ * Reads the user's usage, persisting a window refill first if one is due.
+ */
+async function getCurrentRecord(userId: UserId): Promise<UsageRecord | null> {
+  const record = await getUsageStore().get(userId);
+  if (!record || withCurrentWindow(record, Date.now()) === record) {
+    return record;
+  }
+  return updateRecord(
+    userId,
+    (usage, now) => orEmptyUsage(usage, now),
+    'reset',
+  );
 }
 
 export async function getUsage(userId: UserId): Promise<UsageData> {
-  await delay(50);
-  return _getUsage(userId);
+  return toUsageData(await getCurrentRecord(userId));
+}
+
+export async function getUsageSummary(userId: UserId): Promise<UsageSummary> {
+  const record = await getCurrentRecord(userId);
+  const now = Date.now();
+  const planName = record?.plan ?? DEFAULT_PLAN;
+  const { start, end } = getPlanWindow(
+    PLANS[planName].window,
+    record?.planAssignedAt ?? now,
+    now,
+  );
+  return {
+    usage: toUsageData(record),
+    plan: planName,
+    window: { start, end, resetsInMs: end - now },
+  };
 }
 
+/**
+ * Atomically debits `usedMs` from the user's remaining usage.
+ *
+ * @throws {ExceededAllocatedUsageError} if the remaining usage doesn't cover `usedMs`,
+ *                                       in which case nothing is debited
+ */
 export async function updateUsage(
   userId: UserId,
   usedMs: number,
-): Promise<void> {
-  await delay(50);
-  const usage = _getUsage(userId);
-  MEMORY_STORAGE.set(userId, {
-    ...usage,
-    totalUsedMs: usage.totalUsedMs + usedMs,
-    remainingMs: Math.max(usage.remainingMs - usedMs, 0),
+): Promise<UsageData> {
+  const record = await updateRecord(
+    userId,
+    (current, now) => {
+      const usage = orEmptyUsage(current, now);
+      if (usage.remainingMs - reservedMs(usage) < usedMs) {
+        throw new ExceededAllocatedUsageError(
+          'Not enough usage remaining to process request',
+        );
+      }
+      return {
+        ...usage,
+        totalUsedMs: usage.totalUsedMs + usedMs,
+        remainingMs: usage.remainingMs - usedMs,
+      };
+    },
+    'debit',
+  );
+  return toUsageData(record);
+}
+
+/**
+ * Sets the remaining usage (e.g. a new allowance), in-flight reservations are kept.
+ * The plan's allowance still replaces it once the current window rolls over.
+ */
+export async function setRemainingUsage(
+  userId: UserId,
+  remainingMs: number,
+): Promise<UsageData> {
+  const record = await updateRecord(
+    userId,
+    (current, now) => ({ ...orEmptyUsage(current, now), remainingMs }),
+    'allowance',
+  );
+  return toUsageData(record);
+}
+
+/**
+ * Moves the user onto `planName` starting a new window from now, in-flight reservations are kept.
+ */
+export async function setPlan(
+  userId: UserId,
+  planName: PlanName,
+  remainingMs = PLANS[planName].allowanceMs,
+): Promise<UsageSummary> {
+  await updateRecord(
+    userId,
+    (current, now) => ({
+      ...orEmptyUsage(current, now),
+      ...createPlanUsage(planName, now, remainingMs),
+      totalUsedMs: current?.totalUsedMs ?? 0,
+    }),
+    'allowance',
+  );
+  return getUsageSummary(userId);
+}
+
+export async function topUpUsage(
+  userId: UserId,
+  ms: number,
+): Promise<UsageData> {
+  const record = await updateRecord(
+    userId,
+    (current, now) => {
+      const usage = orEmptyUsage(current, now);
+      return { ...usage, remainingMs: usage.remainingMs + ms };
+    },
+    'top_up',
+  );
+  return toUsageData(record);
+}
+
+export async function resetTotalUsed(userId: UserId): Promise<UsageData> {
+  const record = await updateRecord(
+    userId,
+    (current, now) => ({ ...orEmptyUsage(current, now), totalUsedMs: 0 }),
+    'reset',
+  );
+  return toUsageData(record);
+}
+
+/**
+ * Holds `ms` of the user's remaining usage so concurrent requests can't commit the same balance twice.
+ * Must be followed by {@link commitUsage} or {@link releaseUsage}.
+ *
+ * @throws {ExceededAllocatedUsageError} if the unreserved remaining usage doesn't cover `ms`
+ */
+export async function reserveUsage(
+  userId: UserId,
+  ms: number,
+  context: UsageContext = {},
+): Promise<UsageReservation> {
+  const reservation: UsageReservation = {
+    id: randomUUID(),
+    userId,
+    ms,
+    ...context,
+  };
+  await updateRecord(
+    userId,
+    (current, now) => {
+      const usage = withoutExpiredReservations(orEmptyUsage(current, now), now);
+      const availableMs = usage.remainingMs - reservedMs(usage);
+      if (availableMs <= 0) {
+        throw new ExceededAllocatedUsageError('No usage remaining');
+      }
+      if (availableMs < ms) {
+        throw new ExceededAllocatedUsageError(
+          'Not enough usage remaining to process request',
+        );
+      }
+      return {
+        ...usage,
+        reservations: {
+          ...usage.reservations,
+          [reservation.id]: { ms, expiresAt: now + RESERVATION_TTL_MS },
+        },
+      };
+    },
+    'transcribe',
+    reservation,
+  );
+  return reservation;
+}
+
+function withoutReservation(
+  record: UsageRecord | null,
+  reservation: UsageReservation,
+  now: number,
+): UsageRecord {
+  const usage = withoutExpiredReservations(orEmptyUsage(record, now), now);
+  if (!usage.reservations?.[reservation.id]) {
+    throw new Error(`unknown usage reservation: ${reservation.id}`);
+  }
+  const { [reservation.id]: _removed, ...reservations } = usage.reservations;
+  return { ...usage, reservations };
+}
+
+/**
+ * Charges the actual `usedMs` and frees the rest of the reservation.
+ * Never charges more than the remaining usage, so the total used matches the ledger.
+ */
+export async function commitUsage(
+  reservation: UsageReservation,
+  usedMs: number,
+): Promise<UsageData> {
+  const record = await updateRecord(
+    reservation.userId,
+    (current, now) => {
+      const usage = withoutReservation(current, reservation, now);
+      const chargedMs = Math.min(usedMs, usage.remainingMs);
+      return {
+        ...usage,
+        totalUsedMs: usage.totalUsedMs + chargedMs,
+        remainingMs: usage.remainingMs - chargedMs,
+      };
+    },
+    'transcribe',
+    reservation,
+  );
+  return toUsageData(record);
+}
+
+/**
+ * Frees the whole reservation without charging anything.
+ */
+export async function releaseUsage(
+  reservation: UsageReservation,
+): Promise<UsageData> {
+  const record = await updateRecord(
+    reservation.userId,
+    (current, now) => withoutReservation(current, reservation, now),
+    'transcribe',
+    reservation,
+  );
+  return toUsageData(record);
+}
+
+export async function getUsageHistory(
+  userId: UserId,
+  query: Partial<UsageLedgerQuery> = {},
+): Promise<UsageLedgerPage> {
+  return getUsageStore().listLedgerEntries(userId, {
+    ...query,
+    limit: Math.min(
+      query.limit ?? DEFAULT_LEDGER_PAGE_SIZE,
+      MAX_LEDGER_PAGE_SIZE,
+    ),
   });
 }
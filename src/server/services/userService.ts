@@ -0,0 +1,66 @@
+import { randomUUID } from 'node:crypto';
+import { DEFAULT_PLAN, PlanName } from '@server/plans';
+import * as usageService from '@server/services/usageService';
+import { DEFAULT_USER_IDS } from '@server/services/usageService';
+import { UserId, userId } from '@server/types';
+import { ConflictError, NotFoundError } from '@util/error';
+
+export type User = {
+  id: UserId;
+  name: string | null;
+  createdAt: number;
+};
+
+export interface CreateUserRequest {
+  id?: string;
+  name?: string;
+  plan?: PlanName;
+  /** defaults to the plan's allowance */
+  remainingMs?: number;
+}
+
+// in memory by design like issued tokens, only usage goes to the `UsageStore`, users created through the admin api are lost on restart
+export const USERS: Map<UserId, User> = new Map();
+
+function createUserRecord(id: UserId, name: string | null = null): User {
+  return {
+    id,
+    name,
+    createdAt: Date.now(),
+  };
+}
+
+export function seedUsers(): void {
+  for (const id of DEFAULT_USER_IDS) {
+    if (!USERS.has(id)) {
+      USERS.set(id, createUserRecord(id));
+    }
+  }
+}
+
+export function listUsers(): User[] {
+  return [...USERS.values()];
+}
+
+export function getUserOrThrow(id: UserId): User {
+  const user = USERS.get(id);
+  if (!user) {
+    throw new NotFoundError(`User not found: ${id}`);
+  }
+  return user;
+}
+
+export async function createUser(request: CreateUserRequest): Promise<User> {
+  const id = userId(request.id ?? randomUUID());
+  if (USERS.has(id)) {
+    throw new ConflictError(`User already exists: ${id}`);
+  }
+  const user = createUserRecord(id, request.name);
+  USERS.set(id, user);
+  await usageService.setPlan(
+    id,
+    request.plan ?? DEFAULT_PLAN,
+    request.remainingMs,
+  );
+  return user;
+}
@@ -0,0 +1,135 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { FileUsageStore } from '@server/stores/fileUsageStore';
+import { userId } from '@server/types';
+
+const USER_ID = userId('1');
+
+describe('FileUsageStore', () => {
+  let dir: string;
+  let filePath: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-store-'));
+    filePath = path.join(dir, 'nested', 'usage.jsonl');
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  it('should return null for unknown users', async () => {
+    const store = new FileUsageStore(filePath);
+    await expect(store.get(USER_ID)).resolves.toBeNull();
+  });
+  it('should persist across instances', async () => {
+    await new FileUsageStore(filePath).set(USER_ID, {
+      remainingMs: 100,
+      totalUsedMs: 0,
+    });
+    await expect(new FileUsageStore(filePath).get(USER_ID)).resolves.toEqual({
+      remainingMs: 100,
+      totalUsedMs: 0,
+    });
+  });
+  it('should see updates from other instances', async () => {
+    const storeA = new FileUsageStore(filePath);
+    const storeB = new FileUsageStore(filePath);
+    await storeA.set(USER_ID, { remainingMs: 100, totalUsedMs: 0 });
+    await expect(storeB.get(USER_ID)).resolves.toEqual({
+      remainingMs: 100,
+      totalUsedMs: 0,
+    });
+    await storeB.set(USER_ID, { remainingMs: 50, totalUsedMs: 50 });
+    await expect(storeA.get(USER_ID)).resolves.toEqual({
+      remainingMs: 50,
+      totalUsedMs: 50,
+    });
+  });
+  it('should only apply complete lines appended since the last read', async () => {
+    const store = new FileUsageStore(filePath);
+    await store.set(USER_ID, { remainingMs: 100, totalUsedMs: 0 });
+    const line = `${JSON.stringify({
+      userId: USER_ID,
+      usage: { remainingMs: 40, totalUsedMs: 60 },
+      at: Date.now(),
+    })}\n`;
+    await fs.appendFile(filePath, line.slice(0, 10));
+    await expect(store.get(USER_ID)).resolves.toEqual({
+      remainingMs: 100,
+      totalUsedMs: 0,
+    });
+    await fs.appendFile(filePath, line.slice(10));
+    await expect(store.get(USER_ID)).resolves.toEqual({
+      remainingMs: 40,
+      totalUsedMs: 60,
+    });
+  });
+  it('should replay from the start when the file is truncated', async () => {
+    const store = new FileUsageStore(filePath);
+    await store.set(USER_ID, { remainingMs: 100, totalUsedMs: 0 });
+    await store.set(USER_ID, { remainingMs: 50, totalUsedMs: 50 });
+    const [first] = (await fs.readFile(filePath, 'utf8')).split('\n');
+    await fs.writeFile(filePath, `${first}\n`);
+    await expect(store.get(USER_ID)).resolves.toEqual({
+      remainingMs: 100,
+      totalUsedMs: 0,
+    });
+  });
+  it('should apply concurrent updates atomically', async () => {
+    const storeA = new FileUsageStore(filePath);
+    const storeB = new FileUsageStore(filePath);
+    await storeA.set(USER_ID, { remainingMs: 10, totalUsedMs: 0 });
+    const debit = (store: FileUsageStore) =>
+      store.update(USER_ID, (current) => {
+        if (!current || current.remainingMs < 1) {
+          throw new Error('overspent');
+        }
+        return {
+          remainingMs: current.remainingMs - 1,
+          totalUsedMs: current.totalUsedMs + 1,
+        };
+      });
+    const results = await Promise.allSettled(
+      Array.from({ length: 15 }, (_, ix) => debit(ix % 2 ? storeA : storeB)),
+    );
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(10);
+    await expect(storeA.get(USER_ID)).resolves.toEqual({
+      remainingMs: 0,
+      totalUsedMs: 10,
+    });
+  });
+  it('should not write when updater throws', async () => {
+    const store = new FileUsageStore(filePath);
+    await store.set(USER_ID, { remainingMs: 10, totalUsedMs: 0 });
+    await expect(
+      store.update(USER_ID, () => {
+        throw new Error('nope');
+      }),
+    ).rejects.toThrow('nope');
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+  });
+  it('should persist ledger entries with the usage', async () => {
+    await new FileUsageStore(filePath).update(
+      USER_ID,
+      () => ({ remainingMs: 100, totalUsedMs: 0 }),
+      () => [{ type: 'credit', amountMs: 100, reason: 'allowance' }],
+    );
+    await expect(
+      new FileUsageStore(filePath).listLedgerEntries(USER_ID, { limit: 10 }),
+    ).resolves.toEqual({
+      entries: [
+        expect.objectContaining({
+          userId: USER_ID,
+          type: 'credit',
+          amountMs: 100,
+          balanceMs: 100,
+          reason: 'allowance',
+          packetId: null,
+          sessionId: null,
+        }),
+      ],
+      nextCursor: null,
+    });
+  });
+});
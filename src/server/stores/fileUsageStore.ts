@@ -0,0 +1,225 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { delay } from '@util/delay';
+import { Mutex } from '@util/lock';
+import { UserId } from '@server/types';
+import {
+  createLedgerEntries,
+  queryLedger,
+  UsageLedgerDescriber,
+  UsageLedgerEntry,
+  UsageLedgerPage,
+  UsageLedgerQuery,
+  UsageRecord,
+  UsageStore,
+  UsageUpdater,
+} from '@server/stores/usageStore';
+
+type UsageLogRecord = {
+  userId: UserId;
+  usage: UsageRecord;
+  at: number;
+  // written on the same line as the usage so both are persisted atomically
+  ledger?: UsageLedgerEntry[];
+};
+
+export interface FileUsageStoreOptions {
+  /** how long to wait for another process to release the lock file */
+  lockTimeoutMs?: number;
+  /** lock files older than this are assumed to be left over from a crashed process */
+  staleLockMs?: number;
+}
+
+// not using instanceof Error since node errors can come from a different realm (e.g. under jest)
+function isErrnoException(err: unknown): err is NodeJS.ErrnoException {
+  return typeof err === 'object' && err !== null && 'code' in err;
+}
+
+/**
+ * Append-only JSON lines log, the latest record for a user wins.
+ *
+ * Every operation replays records appended since the last read while holding a lock file,
+ * so multiple instances pointed at the same file see each other's updates.
+ */
+export class FileUsageStore implements UsageStore {
+  private readonly cache = new Map<UserId, UsageRecord>();
+  private readonly ledger = new Map<UserId, UsageLedgerEntry[]>();
+  private readonly mutex = new Mutex();
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+  private offset = 0;
+
+  constructor(
+    private readonly filePath: string,
+    opt: FileUsageStoreOptions = {},
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.lockTimeoutMs = opt.lockTimeoutMs ?? 5_000;
+    this.staleLockMs = opt.staleLockMs ?? 30_000;
+  }
+
+  async get(userId: UserId): Promise<UsageRecord | null> {
+    return this.mutex.runExclusive(async () => {
+      await this.catchUp();
+      return this.cache.get(userId) ?? null;
+    });
+  }
+
+  async set(userId: UserId, usage: UsageRecord): Promise<void> {
+    await this.update(userId, () => usage);
+  }
+
+  async update(
+    userId: UserId,
+    updater: UsageUpdater,
+    describe?: UsageLedgerDescriber,
+  ): Promise<UsageRecord> {
+    return this.mutex.runExclusive(() =>
+      this.withFileLock(async () => {
+        await this.catchUp();
+        const previous = this.cache.get(userId) ?? null;
+        const usage = updater(previous);
+        const entries = createLedgerEntries(userId, previous, usage, describe);
+        await this.append({
+          userId,
+          usage,
+          at: Date.now(),
+          ...(entries.length > 0 && { ledger: entries }),
+        });
+        return usage;
+      }),
+    );
+  }
+
+  async listLedgerEntries(
+    userId: UserId,
+    query: UsageLedgerQuery,
+  ): Promise<UsageLedgerPage> {
+    return this.mutex.runExclusive(async () => {
+      await this.catchUp();
+      return queryLedger(this.ledger.get(userId) ?? [], query);
+    });
+  }
+
+  /**
+   * Applies the complete lines appended since the last read, only reading those bytes.
+   */
+  private async catchUp(): Promise<void> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.filePath, 'r');
+    } catch (err) {
+      if (isErrnoException(err) && err.code === 'ENOENT') {
+        this.reset();
+        return;
+      }
+      throw err;
+    }
+    let appended: Buffer;
+    try {
+      const { size } = await handle.stat();
+      if (size < this.offset) {
+        // file was truncated or replaced, replay from the start
+        this.reset();
+      }
+      appended = Buffer.alloc(size - this.offset);
+      let read = 0;
+      while (read < appended.length) {
+        const { bytesRead } = await handle.read(
+          appended,
+          read,
+          appended.length - read,
+          this.offset + read,
+        );
+        if (bytesRead === 0) {
+          break;
+        }
+        read += bytesRead;
+      }
+      appended = appended.subarray(0, read);
+    } finally {
+      await handle.close();
+    }
+    // only consume complete lines, the last one may still be getting written
+    const end = appended.lastIndexOf('\n') + 1;
+    if (end === 0) {
+      return;
+    }
+    const lines = appended.subarray(0, end).toString('utf8');
+    for (const line of lines.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      this.apply(JSON.parse(line) as UsageLogRecord);
+    }
+    this.offset += end;
+  }
+
+  private reset(): void {
+    this.cache.clear();
+    this.ledger.clear();
+    this.offset = 0;
+  }
+
+  private async append(record: UsageLogRecord): Promise<void> {
+    const line = Buffer.from(`${JSON.stringify(record)}\n`);
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, line);
+    this.offset += line.length;
+    this.apply(record);
+  }
+
+  private apply(record: UsageLogRecord): void {
+    this.cache.set(record.userId, record.usage);
+    if (record.ledger) {
+      this.ledger.set(record.userId, [
+        ...(this.ledger.get(record.userId) ?? []),
+        ...record.ledger,
+      ]);
+    }
+  }
+
+  private async withFileLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquireFileLock();
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async acquireFileLock(): Promise<void> {
+    await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+    const startedAt = Date.now();
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.close();
+        return;
+      } catch (err) {
+        if (!isErrnoException(err) || err.code !== 'EEXIST') {
+          throw err;
+        }
+      }
+      await this.removeStaleLock();
+      if (Date.now() - startedAt > this.lockTimeoutMs) {
+        throw new Error(`timed out waiting for lock: ${this.lockPath}`);
+      }
+      await delay(10);
+    }
+  }
+
+  private async removeStaleLock(): Promise<void> {
+    try {
+      const stat = await fs.stat(this.lockPath);
+      if (Date.now() - stat.mtimeMs > this.staleLockMs) {
+        await fs.rm(this.lockPath, { force: true });
+      }
+    } catch (err) {
+      if (!isErrnoException(err) || err.code !== 'ENOENT') {
+        throw err;
+      }
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from 'node:crypto';
+import { PlanName } from '@server/plans';
+import { UserId } from '@server/types';
+import { InvalidCursorError } from '@util/error';
+
+export type UsageData = {
+  remainingMs: number;
+  totalUsedMs: number;
+};
+
+export type UsageReservationEntry = {
+  ms: number;
+  /** ms since epoch, reservations left behind by a crashed process stop counting after this */
+  expiresAt: number;
+};
+
+export type UsageRecord = UsageData & {
+  /** usage held for in-flight work keyed by reservation id */
+  reservations?: Record<string, UsageReservationEntry>;
+  plan?: PlanName;
+  /** ms since epoch, anchors `rolling30` windows */
+  planAssignedAt?: number;
+  /** ms since epoch, start of the window remainingMs was last refilled for */
+  windowStart?: number;
+};
+
+export type UsageUpdater = (current: UsageRecord | null) => UsageRecord;
+
+export type UsageLedgerReason =
+  | 'transcribe'
+  | 'debit'
+  | 'top_up'
+  | 'allowance'
+  | 'reset';
+
+export type UsageLedgerEntry = {
+  id: string;
+  userId: UserId;
+  /** ms since epoch */
+  at: number;
+  type: 'debit' | 'credit';
+  /** always positive, see `type` for the direction */
+  amountMs: number;
+  /** remainingMs after the entry was applied */
+  balanceMs: number;
+  packetId: number | null;
+  sessionId: string | null;
+  reason: UsageLedgerReason;
+};
+
+export type NewUsageLedgerEntry = Pick<
+  UsageLedgerEntry,
+  'type' | 'amountMs' | 'reason'
+> &
+  Partial<Pick<UsageLedgerEntry, 'balanceMs' | 'packetId' | 'sessionId'>>;
+
+/**
+ * Describes the changes made by an update, `balanceMs` defaults to the remainingMs of `next`.
+ */
+export type UsageLedgerDescriber = (
+  previous: UsageRecord | null,
+  next: UsageRecord,
+) => NewUsageLedgerEntry[];
+
+export interface UsageLedgerQuery {
+  /** inclusive, ms since epoch */
+  from?: number;
+  /** exclusive, ms since epoch */
+  to?: number;
+  limit: number;
+  /** id of the last entry of the previous page */
+  cursor?: string;
+}
+
+export interface UsageLedgerPage {
+  /** newest first */
+  entries: UsageLedgerEntry[];
+  nextCursor: string | null;
+}
+
+export function createLedgerEntries(
+  userId: UserId,
+  previous: UsageRecord | null,
+  next: UsageRecord,
+  describe?: UsageLedgerDescriber,
+): UsageLedgerEntry[] {
+  const at = Date.now();
+  return (describe?.(previous, next) ?? []).map((entry) => ({
+    id: randomUUID(),
+    userId,
+    at,
+    balanceMs: next.remainingMs,
+    packetId: null,
+    sessionId: null,
+    ...entry,
+  }));
+}
+
+/**
+ * @param entries oldest first
+ * @throws InvalidCursorError when the cursor isn't an entry in the queried range
+ */
+export function queryLedger(
+  entries: readonly UsageLedgerEntry[],
+  query: UsageLedgerQuery,
+): UsageLedgerPage {
+  const matching = entries
+    .filter(
+      (entry) =>
+        (query.from === undefined || entry.at >= query.from) &&
+        (query.to === undefined || entry.at < query.to),
+    )
+    .reverse();
+  let start = 0;
+  if (query.cursor !== undefined) {
+    const index = matching.findIndex((entry) => entry.id === query.cursor);
+    if (index === -1) {
+      // paging on from the first page would repeat it
+      throw new InvalidCursorError();
+    }
+    start = index + 1;
+  }
+  const page = matching.slice(start, start + query.limit);
+  const hasMore = start + query.limit < matching.length;
+  return {
+    entries: page,
+    nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null,
+  };
+}
+
+export interface UsageStore {
+  get(userId: UserId): Promise<UsageRecord | null>;
+  set(userId: UserId, usage: UsageRecord): Promise<void>;
+  /**
+   * Atomically reads the current usage, applies `updater` and persists the result
+   * together with the ledger entries returned by `describe`.
+   * If `updater` throws nothing is written and the error is propagated.
+   */
+  update(
+    userId: UserId,
+    updater: UsageUpdater,
+    describe?: UsageLedgerDescriber,
+  ): Promise<UsageRecord>;
+  listLedgerEntries(
+    userId: UserId,
+    query: UsageLedgerQuery,
+  ): Promise<UsageLedgerPage>;
+}
+
+export class MemoryUsageStore implements UsageStore {
+  private readonly storage = new Map<UserId, UsageRecord>();
+  private readonly ledger = new Map<UserId, UsageLedgerEntry[]>();
+
+  // latency simulates a round trip to an external store
+  constructor(private readonly latencyMs = 0) {}
+
+  // unlike `delay` this keeps the process alive, as a request to a real store would, e.g. while seeding at startup
+  private roundTrip(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+  }
+
+  async get(userId: UserId): Promise<UsageRecord | null> {
+    await this.roundTrip();
+    return this.storage.get(userId) ?? null;
+  }
+
+  async set(userId: UserId, usage: UsageRecord): Promise<void> {
+    await this.roundTrip();
+    this.storage.set(userId, usage);
+  }
+
+  async update(
+    userId: UserId,
+    updater: UsageUpdater,
+    describe?: UsageLedgerDescriber,
+  ): Promise<UsageRecord> {
+    await this.roundTrip();
+    // read-modify-write happens synchronously so it can't interleave with other updates
+    const previous = this.storage.get(userId) ?? null;
+    const usage = updater(previous);
+    const entries = createLedgerEntries(userId, previous, usage, describe);
+    this.storage.set(userId, usage);
+    if (entries.length > 0) {
+      this.ledger.set(userId, [...(this.ledger.get(userId) ?? []), ...entries]);
+    }
+    return usage;
+  }
+
+  async listLedgerEntries(
+    userId: UserId,
+    query: UsageLedgerQuery,
+  ): Promise<UsageLedgerPage> {
+    await this.roundTrip();
+    return queryLedger(this.ledger.get(userId) ?? [], query);
+  }
+}
@@ -8,12 +8,25 @@ export function userId(id: string): UserId {
   return id as UserId;
 }
 
+export const ROLES = ['admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(role: unknown): role is Role {
+  return ROLES.includes(role as Role);
+}
+
+export interface RequestUser {
+  id: UserId;
+  roles: Role[];
+}
+
 export interface UnAuthenticatedRequest extends Request {
-  user?: { id: UserId };
+  user?: RequestUser;
 }
 
 export interface AuthenticatedRequest extends Request {
-  user: { id: UserId };
+  user: RequestUser;
 }
 
 export type Middleware = (
@@ -26,7 +39,7 @@ export type AuthenticatedRouteHandler = (
   req: AuthenticatedRequest,
   res: Response,
   next?: NextFunction,
-) => Promise<void>;
+) => void | Promise<void>;
 
 export function isAuthenticatedRequest(
   req: Request,
@@ -39,6 +52,7 @@ export function withAuth(handler: AuthenticatedRouteHandler): RequestHandler {
     if (!isAuthenticatedRequest(req)) {
       throw new UnauthorizedError();
     }
-    return handler(req, res, next).catch(next);
+    // a sync handler throws to express like the check above, an async one rejects
+    return Promise.resolve(handler(req, res, next)).catch(next);
   };
 }
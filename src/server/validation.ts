@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { BadRequestError } from '@util/error';
+
+export function parseOrThrow<T>(schema: z.ZodType<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new BadRequestError(z.prettifyError(result.error));
+  }
+  return result.data;
+}
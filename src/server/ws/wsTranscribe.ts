@@ -1,5 +1,6 @@
 import { IncomingMessage, Server } from 'http';
 import * as console from 'node:console';
+import { randomUUID } from 'node:crypto';
 import { RawData, WebSocket, WebSocketServer } from 'ws';
 import * as usageService from '@server/services/usageService';
 import {
@@ -7,110 +8,658 @@ import {
   ConnectionClosedUnexpectedlyError,
   ExceededAllocatedUsageError,
   InvalidData,
+  RateLimitExceededError,
   TimeoutError,
+  UnauthorizedError,
 } from '@util/error';
 import { timeout } from '@util/timeout';
-import { getTokenFromAuthorization, getUserIdFromToken } from '@server/auth';
+import {
+  AuthenticatedUser,
+  authenticateAuthorization,
+  authenticateToken,
+} from '@server/auth';
+import { config } from '@server/config';
+import { DEFAULT_PLAN, PlanName, PLANS } from '@server/plans';
+import * as faultService from '@server/services/faultService';
+import * as metricsService from '@server/services/metricsService';
+import { FaultProfile } from '@server/services/faultService';
 import * as transcribeService from '@server/services/trascribeService';
+import { TranscriptionEngine } from '@server/services/trascribeService';
+import { isTranscriptionEngineName } from '@server/engines/transcriptionEngine';
 import { UserId } from '@server/types';
 import { Queue } from '@util/queue';
 import { SoftLock } from '@util/lock';
 import { onAbort, rejectOnAbort } from '@util/abort';
 import { delay } from '@util/delay';
-import { getIdFromBuffer } from '@util/buffer';
-
-export enum WsCloseCode {
-  Normal = 1000,
-  GoingAway = 1001,
-  ProtocolError = 1002,
-  UnsupportedData = 1003,
-  NoStatusReceived = 1005,
-  AbnormalClosure = 1006,
-  InvalidData = 1007,
-  PolicyViolation = 1008,
-  MessageTooLarge = 1009,
-  UnexpectedError = 1011,
-  ServiceRestart = 1012,
-  ServiceUnavailable = 1013,
-  // not exactly part of the rfc - https://www.iana.org/assignments/websocket/websocket.xhtml
-  Timeout = 3008,
-}
-
-export enum InternalErrorCode {
-  ExceededAllocatedUsageError = 0,
-  TimeoutError = 1,
-  AbortedError = 2,
-  ConnectionReplacedError = 3,
-  Unauthorized = 4,
-  ShuttingDown = 5,
-  NotReady = 6,
-  InvalidData = 7,
-  ServerError = 99,
-}
+import {
+  bufferFromRawData,
+  bufferTextOrThrow,
+  getIdFromBuffer,
+} from '@util/buffer';
+import { TokenBucket } from '@util/rateLimit';
+import { DeficitRoundRobin } from '@util/scheduler';
+import { Gauge } from '@util/metrics';
+import {
+  AudioFormat,
+  AudioPacketDecoder,
+  DEFAULT_AUDIO_FORMAT,
+  DeclaredAudioFormat,
+  isAudioEncoding,
+  isContainerEncoding,
+  validateFormat,
+} from '@util/audioFormat';
+import { createAudioDecoder } from '@util/audioDecoder';
+import { AudioConverter } from '@util/audioConverter';
+import { AudioSegmenter } from '@util/segmenter';
+import { SpillDirectory } from '@util/spill';
+import { DEFAULT_VAD_OPTIONS } from '@util/vad';
+import { createSeededRandom, isSeed, Random } from '@util/random';
+import {
+  AuthControlMessage,
+  CloseReasonObj,
+  ControlMessage,
+  formatCloseReason,
+  getProtocol,
+  InternalErrorCode,
+  PacketRejectedEvent,
+  parseControlMessage,
+  PartialTranscriptEvent,
+  PROTOCOL_V2,
+  ReadyEvent,
+  selectProtocol,
+  ServerMessage,
+  TranscribeResultMessage,
+  WsCloseCode,
+} from '@util/protocol';
+
+export { InternalErrorCode, WsCloseCode } from '@util/protocol';
+export { bufferFromRawData } from '@util/buffer';
+export type {
+  AuthControlMessage,
+  CloseReasonObj,
+  ControlMessage,
+  PacketRejectedEvent,
+  PartialTranscriptEvent,
+  ReadyEvent,
+  TranscribeResultMessage,
+} from '@util/protocol';
 
 type AuthenticatedWebSocket = WebSocket &
   typeof WebSocket & {
-    user?: { id: UserId } | null;
+    user?: AuthenticatedUser | null;
+    sessionId?: string;
+    // opted into partial transcript events with `?interimResults=true`
+    interimResults?: boolean;
     ready?: boolean;
+    // set when the server closes the socket, its session can't be resumed
+    endsSession?: boolean;
+    authExpiryTimers?: NodeJS.Timeout[];
   };
 
-function authenticateClient(req: IncomingMessage): { id: UserId } | null {
-  const token = getTokenFromAuthorization(req.headers.authorization);
-  if (!token) {
-    return null;
+// setTimeout fires immediately for anything larger than a signed 32-bit int
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+function authenticateClient(req: IncomingMessage): AuthenticatedUser {
+  return authenticateAuthorization(req.headers.authorization);
+}
+
+// queued payload bytes held in memory across all users
+let queuedMemoryBytes = 0;
+
+export function getQueuedMemoryBytes(): number {
+  return queuedMemoryBytes;
+}
+
+/**
+ * Tracks the queued payload bytes a user holds in memory and where their payloads spill to.
+ */
+class QueueMemory {
+  private bytes = 0;
+  private closed = false;
+  readonly spill = new SpillDirectory(
+    config.transcribe.spillDir,
+    'transcribe-spill-',
+  );
+
+  shouldSpill(byteLength: number): boolean {
+    return (
+      this.bytes + byteLength > config.transcribe.maxUserMemoryBytes ||
+      queuedMemoryBytes + byteLength > config.transcribe.maxMemoryBytes
+    );
   }
-  const userId = getUserIdFromToken(token);
-  if (!userId) {
-    return null;
+
+  add(byteLength: number): void {
+    if (this.closed) {
+      return;
+    }
+    this.bytes += byteLength;
+    queuedMemoryBytes += byteLength;
   }
-  return { id: userId };
-}
 
-export function bufferFromRawData(rawData: RawData): Buffer {
-  if (Buffer.isBuffer(rawData)) {
-    return rawData;
-  } else if (rawData instanceof ArrayBuffer) {
-    return Buffer.from(rawData);
-  } else if (Array.isArray(rawData)) {
-    return Buffer.concat(rawData);
-  } else {
-    throw new Error('Unknown binary data type');
+  release(byteLength: number): void {
+    if (this.closed) {
+      return;
+    }
+    this.bytes -= byteLength;
+    queuedMemoryBytes -= byteLength;
+  }
+
+  /**
+   * Releases everything still held and deletes any spilled files.
+   */
+  async close(): Promise<void> {
+    if (!this.closed) {
+      queuedMemoryBytes -= this.bytes;
+      this.bytes = 0;
+      this.closed = true;
+    }
+    await this.spill.remove();
   }
 }
 
 class QueueEntry {
   private readonly _id: number;
-  private readonly _data: Buffer<ArrayBufferLike>;
-  constructor(buffer: Buffer) {
-    const { id, data } = getIdFromBuffer(buffer);
+  private readonly _byteLength: number;
+  private _data: Buffer<ArrayBufferLike> | null;
+  private memory: QueueMemory | null = null;
+  // resolves to the spilled file, or null if the payload stayed in memory
+  private spilled: Promise<string | null> = Promise.resolve(null);
+  readonly queuedAt = Date.now();
+  private constructor(
+    id: number,
+    data: Buffer,
+    // transcribes the speech carried over from earlier packets instead of a payload
+    readonly isFlush = false,
+  ) {
     this._id = id;
     this._data = data;
-    if (this._data.length === 0) {
+    this._byteLength = data.length;
+  }
+  /**
+   * @throws InvalidData when the packet is empty or doesn't match the session's audio format
+   */
+  static fromBuffer(buffer: Buffer, audio: AudioPacketDecoder): QueueEntry {
+    if (buffer.length < 4) {
       throw new InvalidData('invalid message');
     }
+    const { id, data } = getIdFromBuffer(buffer);
+    if (data.length === 0) {
+      throw new InvalidData('invalid message');
+    }
+    const audioData = audio.accept(data);
+    // a compressed packet can end mid frame, the frame's audio comes with a later packet
+    if (audioData.length === 0 && !audio.compressed) {
+      throw new InvalidData('invalid message');
+    }
+    return new QueueEntry(id, audioData);
+  }
+  /**
+   * @param id last packet with carried speech
+   */
+  static flush(id: number): QueueEntry {
+    return new QueueEntry(id, Buffer.alloc(0), true);
   }
   get id() {
     return this._id;
   }
-  get data() {
-    return this._data;
+  get byteLength() {
+    return this._byteLength;
+  }
+  /**
+   * Keeps the payload in memory, or writes it to a temp file when over a memory threshold.
+   */
+  store(memory: QueueMemory): void {
+    this.memory = memory;
+    const spill = memory.shouldSpill(this._byteLength);
+    memory.add(this._byteLength);
+    if (!spill || !this._data) {
+      return;
+    }
+    // the payload stays in memory until written so a failed write doesn't lose it
+    this.spilled = memory.spill.write(this._data).then(
+      (filePath) => {
+        this._data = null;
+        memory.release(this._byteLength);
+        return filePath;
+      },
+      (err) => {
+        console.error('failed to spill queued packet: ', err);
+        return null;
+      },
+    );
+  }
+  async readData(): Promise<Buffer> {
+    const filePath = await this.spilled;
+    if (filePath !== null && this.memory) {
+      return this.memory.spill.take(filePath);
+    }
+    if (!this._data) {
+      throw new Error('queue entry already read');
+    }
+    const data = this._data;
+    this._data = null;
+    this.memory?.release(this._byteLength);
+    return data;
   }
 }
 
+/**
+ * Outlives its socket for `sessionResumeTtlMs` so a reconnecting client can pick up its queue and results.
+ */
+type TranscribeSession = {
+  id: string;
+  userId: UserId;
+  // read when a socket becomes ready, used to weight scheduling
+  plan: PlanName;
+  // picked when the session starts, kept on resume
+  engine: TranscriptionEngine;
+  seed: number | null;
+  // rolls the injected faults, seeded like the engine so a seeded session fails the same way every run
+  faultRandom: Random;
+  // checks or decodes packets as they arrive, knows the format once a container header is read
+  audio: AudioPacketDecoder;
+  // aborts in-flight work once the session ends
+  abortController: AbortController;
+  // finished while no socket was attached, in packet id order
+  pendingResults: TranscribeResultMessage[];
+  // stopped processing while no socket was attached, delivered on resume
+  pendingError?: unknown;
+  expiryTimer: NodeJS.Timeout | null;
+  // turns packets into PCM 16kHz mono for the segmenter and engines
+  // created with the first packet, once the format is known
+  converter: AudioConverter | null;
+  // joins packets at pauses, speech after the last pause waits for the next packet
+  segmenter: AudioSegmenter;
+  stitchFlushTimer: NodeJS.Timeout | null;
+  nextSegmentId: number;
+  // held back by an injected reorder fault, sent after the next result
+  heldResult: TranscribeResultMessage | null;
+  // audio handed to the transcriber so far, word times are counted from the start of it
+  transcribedBytes: number;
+};
+
 const USER_ID_SOCKET_MAP: Map<UserId, AuthenticatedWebSocket> = new Map();
 const USER_ID_QUEUE_MAP: Map<UserId, SoftLock<Queue<QueueEntry>>> = new Map();
+const USER_ID_QUEUE_MEMORY_MAP: Map<UserId, QueueMemory> = new Map();
+const USER_ID_SESSION_MAP: Map<UserId, TranscribeSession> = new Map();
+const USER_ID_RATE_LIMIT_MAP: Map<
+  UserId,
+  { packets: TokenBucket; bytes: TokenBucket }
+> = new Map();
+
+// quantum credited to each user per round, in estimated processing ms
+const SCHEDULER_QUANTUM_MS = 1000;
+
+const SCHEDULER = new DeficitRoundRobin<UserId>(SCHEDULER_QUANTUM_MS, {
+  isReady: (userId) => {
+    const lock = USER_ID_QUEUE_MAP.get(userId);
+    const session = USER_ID_SESSION_MAP.get(userId);
+    // one packet in flight per user so results are sent in order
+    return (
+      !!lock &&
+      !lock.isLocked &&
+      !lock.inner.isEmpty() &&
+      !!session &&
+      session.pendingError === undefined
+    );
+  },
+  hasWork: (userId) =>
+    !(USER_ID_QUEUE_MAP.get(userId)?.inner.isEmpty() ?? true),
+  costOf: (userId) => {
+    const next = USER_ID_QUEUE_MAP.get(userId)?.inner.peek();
+    return next
+      ? transcribeService.estimateUsageMsForLength(
+          next.byteLength,
+          USER_ID_SESSION_MAP.get(userId)?.engine.costModel,
+          USER_ID_SESSION_MAP.get(userId)?.audio.format ?? undefined,
+        )
+      : 0;
+  },
+  weightOf: (userId) =>
+    PLANS[USER_ID_SESSION_MAP.get(userId)?.plan ?? DEFAULT_PLAN].priorityWeight,
+});
+
+// exact number of packets being transcribed across all users
+const IN_FLIGHT: Set<Promise<void>> = new Set();
+
+export function getInFlightCount(): number {
+  return IN_FLIGHT.size;
+}
+
+metricsService.registry.register(
+  new Gauge(
+    'transcribe_connected_sockets',
+    'Open transcribe sockets, one per user',
+    () => USER_ID_SOCKET_MAP.size,
+  ),
+);
+metricsService.registry.register(
+  new Gauge(
+    'transcribe_queued_packets',
+    "Packets waiting in each user's queue",
+    () =>
+      [...USER_ID_QUEUE_MAP.entries()].map(([userId, lock]) => ({
+        labels: { user_id: userId },
+        value: lock.inner.size(),
+      })),
+  ),
+);
+metricsService.registry.register(
+  new Gauge(
+    'transcribe_in_flight',
+    'Packets being transcribed across all users, at most TRANSCRIBE_MAX_CONCURRENT',
+    getInFlightCount,
+  ),
+);
 
 function getOrInitQueue(userId: UserId): Queue<QueueEntry> {
   if (!USER_ID_QUEUE_MAP.has(userId)) {
     USER_ID_QUEUE_MAP.set(userId, new SoftLock(new Queue()));
+    USER_ID_QUEUE_MEMORY_MAP.set(userId, new QueueMemory());
+    SCHEDULER.add(userId);
   }
   return USER_ID_QUEUE_MAP.get(userId)!.inner;
 }
 
+function getQueueMemoryOrThrow(userId: UserId): QueueMemory {
+  const memory = USER_ID_QUEUE_MEMORY_MAP.get(userId);
+  if (!memory) {
+    throw new Error('expected queue memory for user');
+  }
+  return memory;
+}
+
+/**
+ * Drops the user's queue, resolves once its spilled files are deleted.
+ */
+async function deleteQueue(userId: UserId): Promise<void> {
+  const memory = USER_ID_QUEUE_MEMORY_MAP.get(userId);
+  USER_ID_QUEUE_MAP.delete(userId);
+  USER_ID_QUEUE_MEMORY_MAP.delete(userId);
+  SCHEDULER.delete(userId);
+  await memory?.close().catch((err) => {
+    console.error('failed to delete spilled packets: ', err);
+  });
+}
+
+function getSessionOrThrow(userId: UserId): TranscribeSession {
+  const session = USER_ID_SESSION_MAP.get(userId);
+  if (!session) {
+    throw new Error('expected session for user');
+  }
+  return session;
+}
+
+/**
+ * Resumes the user's session if `resumeSessionId` matches it, otherwise ends it and starts a new one.
+ */
+function startOrResumeSession(
+  userId: UserId,
+  resumeSessionId: string | null,
+  engine: TranscriptionEngine,
+  seed: number | null,
+  format: DeclaredAudioFormat,
+): { session: TranscribeSession; resumed: boolean } {
+  const existing = USER_ID_SESSION_MAP.get(userId);
+  if (existing && resumeSessionId !== null && existing.id === resumeSessionId) {
+    if (existing.expiryTimer) {
+      clearTimeout(existing.expiryTimer);
+      existing.expiryTimer = null;
+    }
+    return { session: existing, resumed: true };
+  }
+  void endSession(userId);
+  const session: TranscribeSession = {
+    id: randomUUID(),
+    userId,
+    plan: DEFAULT_PLAN,
+    engine,
+    seed,
+    faultRandom: seed === null ? Math.random : createSeededRandom(seed),
+    audio: createAudioDecoder(format),
+    abortController: new AbortController(),
+    pendingResults: [],
+    expiryTimer: null,
+    converter: null,
+    segmenter: new AudioSegmenter({
+      vad: {
+        ...DEFAULT_VAD_OPTIONS,
+        sampleRateHz: DEFAULT_AUDIO_FORMAT.sampleRateHz,
+        silenceRms: config.transcribe.vadSilenceRms,
+        minSilenceMs: config.transcribe.vadMinSilenceMs,
+      },
+      maxCarryBytes: config.transcribe.stitchMaxCarryBytes,
+    }),
+    stitchFlushTimer: null,
+    nextSegmentId: 1,
+    heldResult: null,
+    transcribedBytes: 0,
+  };
+  USER_ID_SESSION_MAP.set(userId, session);
+  return { session, resumed: false };
+}
+
+function getFormatOrThrow(session: TranscribeSession): AudioFormat {
+  const format = session.audio.format;
+  if (!format) {
+    throw new Error('expected audio format for session');
+  }
+  return format;
+}
+
+function getOrInitConverter(session: TranscribeSession): AudioConverter {
+  if (!session.converter) {
+    session.converter = new AudioConverter(getFormatOrThrow(session));
+  }
+  return session.converter;
+}
+
+/**
+ * Keeps processing the session's queue without a socket until it's resumed or `sessionResumeTtlMs` passes.
+ */
+function detachSession(userId: UserId): void {
+  const session = USER_ID_SESSION_MAP.get(userId);
+  if (!session) {
+    return;
+  }
+  session.expiryTimer = setTimeout(() => {
+    void endSession(userId);
+  }, config.ws.sessionResumeTtlMs).unref();
+}
+
+/**
+ * Aborts in-flight work and drops the queue and any undelivered results.
+ */
+async function endSession(userId: UserId): Promise<void> {
+  const session = USER_ID_SESSION_MAP.get(userId);
+  if (!session) {
+    return;
+  }
+  USER_ID_SESSION_MAP.delete(userId);
+  if (session.expiryTimer) {
+    clearTimeout(session.expiryTimer);
+  }
+  if (session.stitchFlushTimer) {
+    clearTimeout(session.stitchFlushTimer);
+  }
+  session.abortController.abort();
+  session.audio.close();
+  faultService.clearSessionFaults(session.id);
+  await deleteQueue(userId);
+}
+
+export function hasSession(sessionId: string): boolean {
+  return [...USER_ID_SESSION_MAP.values()].some(
+    (session) => session.id === sessionId,
+  );
+}
+
+function isSessionAttached(
+  clientSocket: AuthenticatedWebSocket | undefined,
+): clientSocket is AuthenticatedWebSocket {
+  return !!clientSocket && isOpen(clientSocket) && isReady(clientSocket);
+}
+
+function getConnectionOptions(req: IncomingMessage): {
+  resumeSessionId: string | null;
+  interimResults: boolean;
+  engineName: string | null;
+  seed: string | null;
+  encoding: string | null;
+  sampleRate: string | null;
+  channels: string | null;
+} {
+  const searchParams = new URL(req.url ?? '/', 'http://localhost').searchParams;
+  return {
+    resumeSessionId: searchParams.get('sessionId'),
+    interimResults: searchParams.get('interimResults') === 'true',
+    engineName: searchParams.get('engine'),
+    seed: searchParams.get('seed'),
+    encoding: searchParams.get('encoding'),
+    sampleRate: searchParams.get('sampleRate'),
+    channels: searchParams.get('channels'),
+  };
+}
+
+function parseSeed(seed: string | null): number | null {
+  if (seed === null) {
+    return config.engine.seed ?? null;
+  }
+  const parsed = Number(seed);
+  // the seed is mulberry32's state, anything else would be truncated
+  if (!isSeed(parsed)) {
+    throw new InvalidData(`invalid seed: ${seed}`);
+  }
+  return parsed;
+}
+
+function parseIntegerParam(
+  name: string,
+  value: string | null,
+  fallback: number,
+): number {
+  if (value === null) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new InvalidData(`invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Unset parameters default to PCM 16kHz/16bit mono, a wav stream's header has the rest.
+ */
+function parseAudioFormat({
+  encoding,
+  sampleRate,
+  channels,
+}: {
+  encoding: string | null;
+  sampleRate: string | null;
+  channels: string | null;
+}): DeclaredAudioFormat {
+  if (encoding !== null && !isAudioEncoding(encoding)) {
+    throw new InvalidData(`unknown encoding: ${encoding}`);
+  }
+  if (isContainerEncoding(encoding)) {
+    if (sampleRate !== null || channels !== null) {
+      throw new InvalidData(
+        `sampleRate and channels are read from the ${encoding} header`,
+      );
+    }
+    return { encoding };
+  }
+  const format: AudioFormat = {
+    encoding: encoding ?? DEFAULT_AUDIO_FORMAT.encoding,
+    sampleRateHz: parseIntegerParam(
+      'sampleRate',
+      sampleRate,
+      DEFAULT_AUDIO_FORMAT.sampleRateHz,
+    ),
+    channels: parseIntegerParam(
+      'channels',
+      channels,
+      DEFAULT_AUDIO_FORMAT.channels,
+    ),
+  };
+  validateFormat(format);
+  return format;
+}
+
+/**
+ * Every session gets its own engine so stateful ones (e.g. `fixture`) replay from the start.
+ */
+function createSessionEngine(
+  engineName: string | null,
+  seed: number | null,
+): TranscriptionEngine {
+  if (engineName !== null && !isTranscriptionEngineName(engineName)) {
+    throw new InvalidData(`unknown engine: ${engineName}`);
+  }
+  return transcribeService.createTranscriptionEngine(
+    engineName ?? config.engine.default,
+    seed ?? undefined,
+  );
+}
+
+function getOrInitRateLimit(userId: UserId) {
+  let rateLimit = USER_ID_RATE_LIMIT_MAP.get(userId);
+  if (!rateLimit) {
+    rateLimit = {
+      packets: new TokenBucket(config.transcribe.maxPacketsPerSec),
+      bytes: new TokenBucket(config.transcribe.maxBytesPerSec),
+    };
+    USER_ID_RATE_LIMIT_MAP.set(userId, rateLimit);
+  }
+  return rateLimit;
+}
+
+/**
+ * @throws {RateLimitExceededError} without counting the packet against any limit
+ */
+function enforcePacketLimits(
+  userId: UserId,
+  queue: Queue<QueueEntry>,
+  byteLength: number,
+): void {
+  const { maxQueuedPackets, maxPacketsPerSec, maxBytesPerSec } =
+    config.transcribe;
+  if (queue.size() >= maxQueuedPackets) {
+    throw new RateLimitExceededError(
+      'Too many queued packets',
+      'queued_packets',
+      maxQueuedPackets,
+    );
+  }
+  const rateLimit = getOrInitRateLimit(userId);
+  const now = Date.now();
+  if (rateLimit.packets.available(now) < 1) {
+    throw new RateLimitExceededError(
+      'Too many packets per second',
+      'packets_per_sec',
+      maxPacketsPerSec,
+    );
+  }
+  if (!rateLimit.bytes.tryTake(byteLength, now)) {
+    throw new RateLimitExceededError(
+      'Too many bytes per second',
+      'bytes_per_sec',
+      maxBytesPerSec,
+    );
+  }
+  rateLimit.packets.tryTake(1, now);
+}
+
 function registerSocketForUserId(clientSocket: AuthenticatedWebSocket) {
   const userId = getUserIdFromSocketOrThrow(clientSocket);
   const existingSocket = USER_ID_SOCKET_MAP.get(userId);
   if (existingSocket) {
+    metricsService.recordSocketClose(
+      WsCloseCode.PolicyViolation,
+      InternalErrorCode.ConnectionReplacedError,
+    );
     existingSocket.close(
       WsCloseCode.PolicyViolation,
       JSON.stringify({
@@ -122,17 +671,74 @@ function registerSocketForUserId(clientSocket: AuthenticatedWebSocket) {
   USER_ID_SOCKET_MAP.set(userId, clientSocket);
 }
 
-export type CloseReasonObj = { error: unknown; code: InternalErrorCode };
+export type ConnectedSocket = {
+  userId: UserId;
+  sessionId: string | null;
+  tokenId: string | null;
+  tokenExpiresAt: number | null;
+  ready: boolean;
+  queuedPackets: number;
+};
+
+export function getConnectedSockets(): ConnectedSocket[] {
+  return [...USER_ID_SOCKET_MAP.entries()].map(([userId, clientSocket]) => ({
+    userId,
+    sessionId: clientSocket.sessionId ?? null,
+    tokenId: clientSocket.user?.tokenId ?? null,
+    tokenExpiresAt: clientSocket.user?.expiresAt ?? null,
+    ready: isReady(clientSocket),
+    queuedPackets: USER_ID_QUEUE_MAP.get(userId)?.inner.size() ?? 0,
+  }));
+}
+
+/**
+ * Closes the user's socket, if `tokenId` is given only when the socket authenticated with that token.
+ * @returns true if a socket was closed
+ */
+export function closeUserSocket(
+  userId: UserId,
+  data: CloseReasonObj,
+  tokenId?: string,
+): boolean {
+  const clientSocket = USER_ID_SOCKET_MAP.get(userId);
+  if (
+    !clientSocket ||
+    !isOpen(clientSocket) ||
+    (tokenId !== undefined && clientSocket.user?.tokenId !== tokenId)
+  ) {
+    return false;
+  }
+  closeWithError(clientSocket, WsCloseCode.PolicyViolation, data);
+  return true;
+}
 
 function closeWithError(
-  clientSocket: WebSocket,
+  clientSocket: AuthenticatedWebSocket,
   closeCode: WsCloseCode,
   data: CloseReasonObj,
 ) {
-  clientSocket.close(closeCode, JSON.stringify(data));
+  clientSocket.endsSession = true;
+  metricsService.recordSocketClose(closeCode, data.code);
+  if (
+    getProtocol(clientSocket.protocol) === PROTOCOL_V2 &&
+    isOpen(clientSocket)
+  ) {
+    // frames are sent in order so this arrives before the close
+    sendData(clientSocket, {
+      event: 'error',
+      error: String(data.error),
+      code: data.code,
+    }).catch((err) => {
+      console.error('error sending error: ', err);
+    });
+  }
+  clientSocket.close(closeCode, formatCloseReason(data));
 }
 
-function handleTranscribeError(err: unknown, clientSocket: WebSocket) {
+function handleTranscribeError(
+  err: unknown,
+  clientSocket: AuthenticatedWebSocket,
+) {
   if (err instanceof AbortedError) {
     console.error('AbortedError', err);
     closeWithError(clientSocket, WsCloseCode.GoingAway, {
@@ -174,13 +780,17 @@ function handleTranscribeError(err: unknown, clientSocket: WebSocket) {
 
 function sendData(
   clientSocket: AuthenticatedWebSocket,
-  data: unknown,
+  data: ServerMessage,
 ): Promise<void> {
   if (clientSocket.readyState !== WebSocket.OPEN) {
     throw new Error('Socket not open');
   }
+  const message =
+    data.event === 'final' && getProtocol(clientSocket.protocol) !== PROTOCOL_V2
+      ? withoutQueuedMs(data)
+      : data;
   return new Promise<void>((resolve, reject) => {
-    clientSocket.send(JSON.stringify(data), (err) => {
+    clientSocket.send(JSON.stringify(message), (err) => {
       if (err) {
         console.error('sendData err: ', err);
         return reject(err);
@@ -190,6 +800,14 @@ function sendData(
   });
 }
 
+// v1 results keep their original shape
+function withoutQueuedMs({
+  queuedMs: _queuedMs,
+  ...message
+}: TranscribeResultMessage): TranscribeResultMessage {
+  return message;
+}
+
 function isOpen(socket: WebSocket): boolean {
   return socket.readyState === WebSocket.OPEN;
 }
@@ -208,37 +826,207 @@ function getUserIdFromSocketOrThrow(
   throw new Error('expected socket with user');
 }
 
-async function validateUsageRemaining(clientSocket: AuthenticatedWebSocket) {
+async function validateUsageRemaining(
+  clientSocket: AuthenticatedWebSocket,
+  resumed: boolean,
+) {
   const userId = getUserIdFromSocketOrThrow(clientSocket);
-  const usageData = await usageService.getUsage(userId).catch((err) => {
-    console.error('error when checking usage: ', err);
-    throw err;
-  });
-  if (usageData.remainingMs <= 0) {
+  const summary = await usageService.getUsageSummary(userId);
+  if (!isOpen(clientSocket)) {
+    // gone while checking, its session may have ended too
+    return;
+  }
+  const session = getSessionOrThrow(userId);
+  session.plan = summary.plan;
+  // one packet in flight per user so these finished in order
+  const pendingResults = session.pendingResults;
+  const pendingError = session.pendingError;
+  session.pendingResults = [];
+  session.pendingError = undefined;
+  const exceeded = summary.usage.remainingMs <= 0;
+  if (exceeded && pendingResults.length === 0 && pendingError === undefined) {
     return closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
       error: 'Exceeded allocated usage',
       code: InternalErrorCode.ExceededAllocatedUsageError,
     });
   }
   clientSocket.ready = true;
+  // sent synchronously so newer results can't overtake the pending ones
+  const sends = [
+    sendData(clientSocket, {
+      event: 'ready',
+      sessionId: session.id,
+      resumed,
+      engine: transcribeService.describeEngine(session.engine),
+      seed: session.seed,
+      format: session.audio.declared,
+      ...(getProtocol(clientSocket.protocol) === PROTOCOL_V2
+        ? { protocol: PROTOCOL_V2 }
+        : {}),
+    } satisfies ReadyEvent),
+    ...pendingResults.map((result) => sendData(clientSocket, result)),
+  ];
   try {
-    await sendData(clientSocket, { event: 'ready' });
+    await Promise.all(sends);
   } catch (err) {
     console.error('error sending ready: ', err);
   }
+  if (pendingError !== undefined) {
+    return handleTranscribeError(pendingError, clientSocket);
+  }
+  if (exceeded) {
+    return closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
+      error: 'Exceeded allocated usage',
+      code: InternalErrorCode.ExceededAllocatedUsageError,
+    });
+  }
+}
+
+function clearAuthExpiryTimers(clientSocket: AuthenticatedWebSocket): void {
+  for (const timer of clientSocket.authExpiryTimers ?? []) {
+    clearTimeout(timer);
+  }
+  clientSocket.authExpiryTimers = [];
+}
+
+function setAuthExpiryTimer(
+  clientSocket: AuthenticatedWebSocket,
+  at: number,
+  callback: () => void,
+): void {
+  const delayMs = Math.max(at - Date.now(), 0);
+  const timer =
+    delayMs > MAX_TIMEOUT_MS
+      ? setTimeout(
+          () => setAuthExpiryTimer(clientSocket, at, callback),
+          MAX_TIMEOUT_MS,
+        )
+      : setTimeout(callback, delayMs);
+  clientSocket.authExpiryTimers?.push(timer.unref());
+}
+
+/**
+ * Warns the client `tokenExpiryWarningMs` before its token expires and closes the socket
+ * once `tokenExpiryGraceMs` has passed after expiry, unless the token is refreshed via an auth message.
+ */
+function scheduleAuthExpiry(clientSocket: AuthenticatedWebSocket): void {
+  clearAuthExpiryTimers(clientSocket);
+  const expiresAt = clientSocket.user?.expiresAt;
+  if (!isOpen(clientSocket) || expiresAt === null || expiresAt === undefined) {
+    return;
+  }
+  setAuthExpiryTimer(
+    clientSocket,
+    expiresAt - config.ws.tokenExpiryWarningMs,
+    () => {
+      if (!isOpen(clientSocket)) {
+        return;
+      }
+      sendData(clientSocket, {
+        event: 'auth_expiring',
+        expiresAt,
+        graceMs: config.ws.tokenExpiryGraceMs,
+      }).catch((err) => {
+        console.error('error sending auth_expiring: ', err);
+      });
+    },
+  );
+  setAuthExpiryTimer(
+    clientSocket,
+    expiresAt + config.ws.tokenExpiryGraceMs,
+    () => {
+      closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
+        error: 'Token expired',
+        code: InternalErrorCode.Unauthorized,
+      });
+    },
+  );
+}
+
+async function handleAuthControlMessage(
+  clientSocket: AuthenticatedWebSocket,
+  message: AuthControlMessage,
+): Promise<void> {
+  const userId = getUserIdFromSocketOrThrow(clientSocket);
+  let user: AuthenticatedUser;
+  try {
+    user = authenticateToken(message.token);
+  } catch (err) {
+    if (!(err instanceof UnauthorizedError)) {
+      throw err;
+    }
+    // keep the current credential, it may still be valid
+    return sendData(clientSocket, { event: 'auth_error', error: err.message });
+  }
+  if (user.id !== userId) {
+    return closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
+      error: 'Token subject mismatch',
+      code: InternalErrorCode.Unauthorized,
+    });
+  }
+  clientSocket.user = user;
+  scheduleAuthExpiry(clientSocket);
+  await sendData(clientSocket, { event: 'auth_ok', expiresAt: user.expiresAt });
 }
 
-function clientSocketCloseHandler(this: AuthenticatedWebSocket): void {
+function handleControlMessage(
+  clientSocket: AuthenticatedWebSocket,
+  data: RawData,
+): void {
+  let message: ControlMessage;
+  try {
+    let text: string;
+    try {
+      text = bufferTextOrThrow(bufferFromRawData(data));
+    } catch (_err) {
+      throw new InvalidData('invalid control message');
+    }
+    message = parseControlMessage(text, getProtocol(clientSocket.protocol));
+  } catch (err) {
+    return handleTranscribeError(err, clientSocket);
+  }
+  switch (message.type) {
+    case 'auth':
+      handleAuthControlMessage(clientSocket, message).catch((err) => {
+        if (isOpen(clientSocket)) {
+          handleTranscribeError(err, clientSocket);
+        }
+      });
+      break;
+  }
+}
+
+function clientSocketCloseHandler(
+  this: AuthenticatedWebSocket,
+  code: WsCloseCode,
+): void {
   const userId = getUserIdFromSocketOrThrow(this);
+  clearAuthExpiryTimers(this);
+  if (USER_ID_SOCKET_MAP.get(userId) !== this) {
+    // replaced by a newer socket which now owns the session
+    return;
+  }
   USER_ID_SOCKET_MAP.delete(userId);
-  USER_ID_QUEUE_MAP.delete(userId);
+  USER_ID_RATE_LIMIT_MAP.delete(userId);
+  if (this.endsSession || code === WsCloseCode.Normal) {
+    // closed by the server or deliberately by the client, drop the queued audio
+    void endSession(userId);
+  } else {
+    // dropped, can be resumed
+    detachSession(userId);
+  }
 }
 
 function clientSocketMessageHandler(
   this: AuthenticatedWebSocket,
   data: RawData,
+  isBinary: boolean,
 ): void {
   const userId = getUserIdFromSocketOrThrow(this);
+  // text frames are control messages, binary frames are audio packets
+  if (!isBinary) {
+    return handleControlMessage(this, data);
+  }
   if (!isReady(this)) {
     return closeWithError(this, WsCloseCode.PolicyViolation, {
       error: 'not ready',
@@ -246,8 +1034,45 @@ function clientSocketMessageHandler(
     });
   }
   const buffer = bufferFromRawData(data);
+  if (buffer.length < 4) {
+    return handleTranscribeError(new InvalidData('invalid message'), this);
+  }
+  const { id, data: payload } = getIdFromBuffer(buffer);
+  // the bytes bucket never holds more than a second's worth, retrying can't help
+  if (payload.length > config.transcribe.maxBytesPerSec) {
+    return closeWithError(this, WsCloseCode.MessageTooLarge, {
+      error: 'Packet larger than the bytes per second limit',
+      code: InternalErrorCode.PacketTooLarge,
+    });
+  }
   const queue = getOrInitQueue(userId);
-  const queueEntry = new QueueEntry(buffer);
+  // before decoding, a rejected packet mustn't advance the decoder of a compressed stream
+  try {
+    enforcePacketLimits(userId, queue, payload.length);
+  } catch (err) {
+    if (!(err instanceof RateLimitExceededError)) {
+      throw err;
+    }
+    sendData(this, {
+      event: 'packet_rejected',
+      id,
+      error: err.message,
+      code: InternalErrorCode.RateLimited,
+      limit: err.limit,
+      max: err.max,
+    } satisfies PacketRejectedEvent).catch((sendErr) => {
+      console.error('error sending packet_rejected: ', sendErr);
+    });
+    return;
+  }
+  let queueEntry: QueueEntry;
+  try {
+    queueEntry = QueueEntry.fromBuffer(buffer, getSessionOrThrow(userId).audio);
+  } catch (err) {
+    return handleTranscribeError(err, this);
+  }
+  metricsService.recordPacket(buffer.length);
+  queueEntry.store(getQueueMemoryOrThrow(userId));
   queue.enqueue(queueEntry);
 }
 
@@ -259,23 +1084,58 @@ function handleConnection(
   clientSocket: AuthenticatedWebSocket,
   req: IncomingMessage,
 ): void {
-  clientSocket.user = authenticateClient(req);
-
-  if (!clientSocket.user) {
+  try {
+    clientSocket.user = authenticateClient(req);
+  } catch (err) {
+    if (!(err instanceof UnauthorizedError)) {
+      console.error('error authenticating client: ', err);
+    }
     // Close with policy violation
     return closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
-      error: 'Unauthorized',
+      error: err instanceof UnauthorizedError ? err.message : 'Unauthorized',
       code: InternalErrorCode.Unauthorized,
     });
   }
 
+  const options = getConnectionOptions(req);
+  let engine: TranscriptionEngine;
+  let seed: number | null;
+  let format: DeclaredAudioFormat;
+  try {
+    seed = parseSeed(options.seed);
+    engine = createSessionEngine(options.engineName, seed);
+    format = parseAudioFormat(options);
+  } catch (err) {
+    return handleTranscribeError(err, clientSocket);
+  }
+  const userId = getUserIdFromSocketOrThrow(clientSocket);
   registerSocketForUserId(clientSocket);
+  const { session, resumed } = startOrResumeSession(
+    userId,
+    options.resumeSessionId,
+    engine,
+    seed,
+    format,
+  );
+  clientSocket.sessionId = session.id;
+  clientSocket.interimResults = options.interimResults;
   const closeHandler = clientSocketCloseHandler.bind(clientSocket);
   const messageHandler = clientSocketMessageHandler.bind(clientSocket);
   clientSocket.once('close', closeHandler);
   clientSocket.on('message', messageHandler);
 
-  void validateUsageRemaining(clientSocket);
+  void validateUsageRemaining(clientSocket, resumed)
+    .then(() => scheduleAuthExpiry(clientSocket))
+    .catch((err) => {
+      // e.g. the usage store failed, only this socket is affected
+      console.error('error when checking usage: ', err);
+      if (isOpen(clientSocket)) {
+        closeWithError(clientSocket, WsCloseCode.UnexpectedError, {
+          error: 'Failed to check usage',
+          code: InternalErrorCode.ServerError,
+        });
+      }
+    });
 }
 
 function shutdownFactory(
@@ -290,14 +1150,19 @@ function shutdownFactory(
         return;
       }
       try {
-        closeWithError(client, WsCloseCode.GoingAway, {
-          error: 'server closing',
-          code: InternalErrorCode.ShuttingDown,
-        });
+        closeWithError(
+          client as AuthenticatedWebSocket,
+          WsCloseCode.GoingAway,
+          {
+            error: 'server closing',
+            code: InternalErrorCode.ShuttingDown,
+          },
+        );
       } catch (_err) {
         // socket probably closed from server.close()
       }
     });
+    await Promise.all([...USER_ID_SESSION_MAP.keys()].map(endSession));
     return new Promise<void>((resolve, reject) =>
       wss.close((err) => {
         if (err) {
@@ -310,38 +1175,175 @@ function shutdownFactory(
   };
 }
 
+/**
+ * Partials are only useful live so they're dropped while no socket is attached.
+ */
+function sendPartial(userId: UserId, event: PartialTranscriptEvent): void {
+  const clientSocket = USER_ID_SOCKET_MAP.get(userId);
+  if (!isSessionAttached(clientSocket) || !clientSocket.interimResults) {
+    return;
+  }
+  sendData(clientSocket, event).catch((err) => {
+    console.error('error sending partial: ', err);
+  });
+}
+
+/**
+ * Queues a flush of the carried speech if no packet follows within `stitchFlushMs`,
+ * packets that decoded to no audio are flushed too so each gets a `final`.
+ */
+function scheduleStitchFlush(session: TranscribeSession): void {
+  if (session.stitchFlushTimer) {
+    clearTimeout(session.stitchFlushTimer);
+    session.stitchFlushTimer = null;
+  }
+  if (
+    session.segmenter.lastCarriedPacketId === undefined ||
+    session.abortController.signal.aborted
+  ) {
+    return;
+  }
+  session.stitchFlushTimer = setTimeout(() => {
+    session.stitchFlushTimer = null;
+    const lock = USER_ID_QUEUE_MAP.get(session.userId);
+    const packetId = session.segmenter.lastCarriedPacketId;
+    // anything queued or in flight picks up the carried speech and reschedules once done
+    if (
+      !lock ||
+      lock.isLocked ||
+      !lock.inner.isEmpty() ||
+      packetId === undefined
+    ) {
+      return;
+    }
+    lock.inner.enqueue(QueueEntry.flush(packetId));
+  }, config.transcribe.stitchFlushMs).unref();
+}
+
+/**
+ * Sends a live result, dropping or holding it back when the session's faults say so.
+ */
+async function sendResult(
+  clientSocket: AuthenticatedWebSocket,
+  session: TranscribeSession,
+  message: TranscribeResultMessage,
+  faults: FaultProfile,
+): Promise<void> {
+  if (faultService.roll(faults.dropRate, session.faultRandom)) {
+    return;
+  }
+  if (
+    !session.heldResult &&
+    faultService.roll(faults.reorderRate, session.faultRandom)
+  ) {
+    session.heldResult = message;
+    return;
+  }
+  await sendData(clientSocket, message);
+  const held = session.heldResult;
+  if (held) {
+    session.heldResult = null;
+    await sendData(clientSocket, held);
+  }
+}
+
 async function processTranscribe(
   userId: UserId,
   queueEntry: QueueEntry,
   mainAbortSignal: AbortSignal,
 ) {
-  const clientSocket = USER_ID_SOCKET_MAP.get(userId);
-  if (!clientSocket) {
-    throw new Error('client socket gone');
-  }
+  const session = getSessionOrThrow(userId);
+  const queuedMs = Date.now() - queueEntry.queuedAt;
   const abortController = new AbortController();
-  const cleanup = onAbort(mainAbortSignal, () => {
-    abortController.abort();
-  });
-  const unExpectedCloseHandler = () => abortController.abort();
-  clientSocket.once('close', unExpectedCloseHandler);
+  const cleanups = [mainAbortSignal, session.abortController.signal].map(
+    (signal) =>
+      onAbort(signal, () => {
+        abortController.abort();
+      }),
+  );
   try {
-    const result = await timeout(60_000, (abortSignal) => {
-      return transcribeService.transcribeForUser({
-        audioPacket: queueEntry.data,
-        userId,
-        abortSignal,
+    const data = await queueEntry.readData();
+    // compressed packets that only completed a header have no audio, and maybe no format yet
+    const pcm =
+      data.length > 0 ? getOrInitConverter(session).convert(data) : data;
+    const segment = queueEntry.isFlush
+      ? session.segmenter.flush()
+      : session.segmenter.push(queueEntry.id, pcm);
+    if (!segment) {
+      // all speech, carried into the next packet
+      return;
+    }
+    const segmentId = session.nextSegmentId++;
+    const byteOffset = session.transcribedBytes;
+    session.transcribedBytes += segment.data.length;
+    // read per segment so faults toggled through the admin api apply mid session
+    const faults = faultService.getFaults(userId, session.id);
+    let result: transcribeService.TranscribeResponse;
+    if (segment.data.length === 0) {
+      // packets that never decoded to audio, nothing to transcribe or charge but they still get their final
+      const usage = await usageService.getUsage(userId);
+      result = {
+        transcript: '',
+        words: [],
+        usageUsedMs: 0,
+        confidence: 0,
+        usageRemainingMs: usage.remainingMs,
+      };
+    } else {
+      const transcribeStart = Date.now();
+      result = await timeout(config.transcribe.timeoutMs, (abortSignal) => {
+        const transcribeAbortSignal = AbortSignal.any([
+          abortSignal,
+          abortController.signal,
+        ]);
+        return faultService.withFaults(
+          faults,
+          transcribeAbortSignal,
+          () =>
+            transcribeService.transcribeForUser({
+              audioPacket: segment.data,
+              engine: session.engine,
+              format: DEFAULT_AUDIO_FORMAT,
+              byteOffset,
+              userId,
+              abortSignal: transcribeAbortSignal,
+              onPartial: (transcript) =>
+                sendPartial(userId, {
+                  event: 'partial',
+                  segmentId,
+                  packetIds: segment.packetIds,
+                  transcript,
+                }),
+              packetId: queueEntry.id,
+              sessionId: session.id,
+            }),
+          session.faultRandom,
+        );
       });
-    });
-    if (!isOpen(clientSocket)) {
-      // socket closed while we were processing
-      // TODO: cache result for limited time and propagate during reconnect
-      // noinspection ExceptionCaughtLocallyJS
-      throw new ConnectionClosedUnexpectedlyError(
-        'Socket closed while processing',
-      );
+      metricsService.recordTranscribeDuration(Date.now() - transcribeStart);
+      metricsService.recordBilled(result.usageUsedMs);
     }
-    await sendData(clientSocket, { id: queueEntry.id, ...result });
+    const message: TranscribeResultMessage = {
+      event: 'final',
+      segmentId,
+      id: queueEntry.id,
+      packetIds: segment.packetIds,
+      ...result,
+      queuedMs,
+    };
+    const clientSocket = USER_ID_SOCKET_MAP.get(userId);
+    if (!isSessionAttached(clientSocket)) {
+      if (session.abortController.signal.aborted) {
+        // noinspection ExceptionCaughtLocallyJS
+        throw new ConnectionClosedUnexpectedlyError(
+          'Session ended while processing',
+        );
+      }
+      // socket dropped while we were processing, delivered on resume
+      session.pendingResults.push(message);
+      return;
+    }
+    await sendResult(clientSocket, session, message, faults);
     if (result.usageRemainingMs <= 0) {
       return closeWithError(clientSocket, WsCloseCode.PolicyViolation, {
         error: 'Exceeded allocated usage',
@@ -349,51 +1351,48 @@ async function processTranscribe(
       });
     }
   } catch (err) {
-    if (!isOpen(clientSocket)) {
-      // don't attempt to propagate the error if the client disconnected
+    if (session.abortController.signal.aborted) {
+      // session is gone, nobody to report to
+      return;
+    }
+    const clientSocket = USER_ID_SOCKET_MAP.get(userId);
+    if (!isSessionAttached(clientSocket)) {
+      // stop processing until the client resumes and receives the error
+      session.pendingError = err;
       return;
     }
-    // TODO: refund user if server closing or server error
     handleTranscribeError(err, clientSocket);
   } finally {
-    cleanup?.();
-    clientSocket.off('close', unExpectedCloseHandler);
+    for (const cleanup of cleanups) {
+      cleanup?.();
+    }
+    scheduleStitchFlush(session);
   }
 }
 
-function* processQueue(
+/**
+ * Starts the next packet picked by the scheduler.
+ * @returns undefined when no user has a packet that can be started
+ */
+function startNextTranscribe(
   mainAbortSignal: AbortSignal,
-): Generator<Promise<void>, void, void> {
-  for (const userId of USER_ID_QUEUE_MAP.keys()) {
-    if (mainAbortSignal.aborted) {
-      return;
-    }
-    const clientSocket = USER_ID_SOCKET_MAP.get(userId);
-    if (!clientSocket) {
-      continue;
+): Promise<void> | undefined {
+  while (!mainAbortSignal.aborted) {
+    const userId = SCHEDULER.next();
+    if (userId === undefined) {
+      return undefined;
     }
     const lock = USER_ID_QUEUE_MAP.get(userId);
-    if (!lock) {
+    if (!lock || !USER_ID_SESSION_MAP.has(userId)) {
+      void deleteQueue(userId);
       continue;
     }
-    if (lock.isLocked) {
-      continue;
-    }
-    if (!lock.lock()) {
-      continue;
-    }
-    const queue = lock.inner;
-    if (!isOpen(clientSocket)) {
-      // TODO: allow reconnect to continue queue?
-      USER_ID_QUEUE_MAP.delete(userId);
-      continue;
-    }
-    const nextItem = queue.dequeue();
+    const nextItem = lock.lock() ? lock.inner.dequeue() : undefined;
     if (!nextItem) {
       lock.unlock();
       continue;
     }
-    yield processTranscribe(userId, nextItem, mainAbortSignal)
+    return processTranscribe(userId, nextItem, mainAbortSignal)
       .catch((err) => {
         // TODO: recover by saving result or restoring entry in queue
         console.error(`failed to transcribe`, err);
@@ -402,6 +1401,7 @@ function* processQueue(
         lock.unlock();
       });
   }
+  return undefined;
 }
 
 // TODO: potentially silly, should use a job queue system like RabbitMQ
@@ -409,46 +1409,48 @@ async function queueRunner(
   maxConcurrent: number,
   mainAbortSignal: AbortSignal,
 ) {
-  const set = new Set<Promise<void>>();
   while (true) {
     if (mainAbortSignal.aborted) {
       return;
     }
-    await delay(0);
-    const queue = processQueue(mainAbortSignal);
-    for (const transcribePromise of queue) {
-      set.add(
-        transcribePromise.finally(() => {
-          // remove from set as they finish
-          set.delete(transcribePromise);
-        }),
-      );
-      if (set.size === maxConcurrent) {
-        const rejectOnAbortObj = rejectOnAbort(mainAbortSignal);
-        await Promise.race([
-          rejectOnAbortObj.promise,
-          Promise.any(set),
-        ]).finally(() => {
-          rejectOnAbortObj.cancel();
-        });
-        set.clear();
-      }
+    let transcribePromise: Promise<void> | undefined;
+    while (
+      IN_FLIGHT.size < maxConcurrent &&
+      (transcribePromise = startNextTranscribe(mainAbortSignal))
+    ) {
+      const tracked: Promise<void> = transcribePromise.finally(() => {
+        // remove from set as they finish
+        IN_FLIGHT.delete(tracked);
+      });
+      IN_FLIGHT.add(tracked);
     }
+    if (IN_FLIGHT.size < maxConcurrent) {
+      // poll for new packets
+      await delay(0);
+      continue;
+    }
+    const rejectOnAbortObj = rejectOnAbort(mainAbortSignal);
+    await Promise.race([rejectOnAbortObj.promise, ...IN_FLIGHT]).finally(() => {
+      rejectOnAbortObj.cancel();
+    });
   }
 }
 
 function startQueueRunner(mainAbortSignal: AbortSignal) {
-  void queueRunner(5, mainAbortSignal).catch((err) => {
-    if (err instanceof AbortedError) {
-      return;
-    }
-    console.error('impossible?', err);
-  });
+  void queueRunner(config.transcribe.maxConcurrent, mainAbortSignal).catch(
+    (err) => {
+      if (err instanceof AbortedError) {
+        return;
+      }
+      console.error('impossible?', err);
+    },
+  );
 }
 
 export function setupWebSocket(server: Server) {
   const wss = new WebSocketServer<AuthenticatedWebSocket>({
     server,
+    handleProtocols: selectProtocol,
   });
 
   const abortController = new AbortController();
@@ -0,0 +1,232 @@
+import * as console from 'node:console';
+import { createReadStream } from 'node:fs';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import {
+  TranscribeClient,
+  TranscribeCloseError,
+  TranscribeEvent,
+} from '@client';
+import { AudioPacket, AudioPacketizer } from '@client/audioPacketizer';
+import {
+  isOutputFormat,
+  OUTPUT_FORMATS,
+  TranscriptFormatter,
+} from '@client/transcriptFormatter';
+import {
+  AudioFormat,
+  DEFAULT_AUDIO_FORMAT,
+  isAudioEncoding,
+  isContainerEncoding,
+  validateFormat,
+} from '@util/audioFormat';
+import { isTranscriptionEngineName } from '@util/protocol';
+
+const USAGE = `usage: pnpm transcribe [file, stdin when omitted or -] --token <jwt>
+  [--url http://localhost:3000] [--packet-ms 250] [--pace realtime|fast]
+  [--output ${OUTPUT_FORMATS.join('|')}] [--engine name] [--interim] [--drain-ms 30000]
+  [--encoding pcm_s16le] [--sample-rate 16000] [--channels 1]  (raw audio, wav files use their header)`;
+
+const PACES = ['realtime', 'fast'] as const;
+
+type Pace = (typeof PACES)[number];
+
+function parsePositive(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`invalid --${name}: ${value}\n${USAGE}`);
+  }
+  return number;
+}
+
+function parseOptions() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string', default: 'http://localhost:3000' },
+      token: { type: 'string' },
+      'packet-ms': { type: 'string', default: '250' },
+      pace: { type: 'string', default: 'realtime' },
+      output: { type: 'string', default: 'text' },
+      engine: { type: 'string' },
+      interim: { type: 'boolean', default: false },
+      'drain-ms': { type: 'string', default: '30000' },
+      encoding: { type: 'string', default: DEFAULT_AUDIO_FORMAT.encoding },
+      'sample-rate': {
+        type: 'string',
+        default: String(DEFAULT_AUDIO_FORMAT.sampleRateHz),
+      },
+      channels: {
+        type: 'string',
+        default: String(DEFAULT_AUDIO_FORMAT.channels),
+      },
+    },
+  });
+  const [file = '-'] = positionals;
+  const { token, pace, output, engine, encoding } = values;
+  if (!token) {
+    throw new Error(USAGE);
+  }
+  if (!PACES.includes(pace as Pace)) {
+    throw new Error(`unknown --pace: ${pace}\n${USAGE}`);
+  }
+  if (!isOutputFormat(output)) {
+    throw new Error(`unknown --output: ${output}\n${USAGE}`);
+  }
+  if (engine !== undefined && !isTranscriptionEngineName(engine)) {
+    throw new Error(`unknown --engine: ${engine}`);
+  }
+  if (!isAudioEncoding(encoding) || isContainerEncoding(encoding)) {
+    throw new Error(`unsupported raw --encoding: ${encoding}`);
+  }
+  const rawFormat: AudioFormat = {
+    encoding,
+    sampleRateHz: parsePositive('sample-rate', values['sample-rate']),
+    channels: parsePositive('channels', values.channels),
+  };
+  validateFormat(rawFormat);
+  return {
+    file,
+    url: values.url,
+    token,
+    packetMs: parsePositive('packet-ms', values['packet-ms']),
+    pace: pace as Pace,
+    output,
+    engine,
+    interimResults: values.interim,
+    drainMs: parsePositive('drain-ms', values['drain-ms']),
+    rawFormat,
+  };
+}
+
+/**
+ * Packets the event is the last word on, a partial can cover the last packet before its final arrives.
+ */
+function settledPacketIds(event: TranscribeEvent): number[] {
+  switch (event.event) {
+    case 'final':
+      return event.packetIds;
+    case 'packet_rejected':
+      return [event.id];
+    case 'partial':
+      return [];
+  }
+}
+
+/**
+ * Packets of the input as it's read, the format is known once the first one is out.
+ */
+async function* readPackets(
+  input: AsyncIterable<Buffer>,
+  packetizer: AudioPacketizer,
+): AsyncGenerator<AudioPacket> {
+  for await (const chunk of input) {
+    yield* packetizer.push(chunk);
+  }
+  const last = packetizer.flush();
+  if (last) {
+    yield last;
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseOptions();
+  const input: AsyncIterable<Buffer> =
+    options.file === '-' ? process.stdin : createReadStream(options.file);
+  const packetizer = new AudioPacketizer(options.packetMs, options.rawFormat);
+  const packets = readPackets(input, packetizer);
+  const first = await packets.next();
+  if (first.done || !packetizer.declared) {
+    throw new Error('no audio to send');
+  }
+
+  const client = await TranscribeClient.connect({
+    url: options.url,
+    token: options.token,
+    format: packetizer.declared,
+    engine: options.engine,
+    interimResults: options.interimResults,
+  });
+  const formatter = new TranscriptFormatter(options.output);
+  let exitCode = 0;
+  let sending = true;
+  let covered = 0;
+  const receiving = (async () => {
+    try {
+      for await (const event of client) {
+        const text = formatter.format(event);
+        if (text !== null) {
+          process.stdout.write(text);
+        }
+        if (event.event === 'packet_rejected' && options.output !== 'jsonl') {
+          console.error(`packet ${event.id} rejected: ${event.error}`);
+        }
+        covered = Math.max(covered, ...settledPacketIds(event));
+        if (!sending && covered >= client.lastId) {
+          break;
+        }
+      }
+    } catch (err) {
+      if (!(err instanceof TranscribeCloseError)) {
+        throw err;
+      }
+      console.error(
+        `closed by the server: ${err.message} (close code ${err.code}, internal code ${err.internalCode})`,
+      );
+      exitCode = 1;
+    }
+  })();
+
+  const start = Date.now();
+  let sentMs = 0;
+  try {
+    for (
+      let packet: IteratorResult<AudioPacket> = first;
+      !packet.done;
+      packet = await packets.next()
+    ) {
+      if (options.pace === 'realtime') {
+        // not `delay`, it would let the process exit if the socket closes meanwhile
+        await sleep(Math.max(start + sentMs - Date.now(), 0));
+      }
+      client.send(packet.value.data);
+      sentMs += packet.value.durationMs;
+    }
+  } catch (err) {
+    // the client failed, receiving reports why
+    if (!(err instanceof TranscribeCloseError)) {
+      throw err;
+    }
+  }
+  sending = false;
+  if (covered >= client.lastId) {
+    await client.close();
+  }
+  const drained = await Promise.race([
+    receiving.then(() => true),
+    sleep(options.drainMs, false),
+  ]);
+  if (!drained) {
+    console.error(
+      `no results for packets up to ${client.lastId} within ${options.drainMs}ms`,
+    );
+    exitCode = 1;
+  }
+  await client.close();
+  await receiving;
+
+  const { usage, plan, window } = await client.getUsage();
+  console.error(
+    `remaining usage: ${usage.remainingMs}ms of the ${plan} plan, resets in ${Math.round(window.resetsInMs / 1000)}s`,
+  );
+  return exitCode;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
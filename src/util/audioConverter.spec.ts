@@ -0,0 +1,174 @@
+import { describe, expect, it } from '@jest/globals';
+import { AudioConverter, decodeMulaw } from '@util/audioConverter';
+import {
+  AudioFormat,
+  DEFAULT_AUDIO_FORMAT,
+  SampleEncoding,
+} from '@util/audioFormat';
+
+const AMPLITUDE = 0.5;
+
+function sine(
+  format: AudioFormat,
+  frequencyHz: number,
+  durationMs: number,
+): Buffer {
+  const frames = Math.round((format.sampleRateHz * durationMs) / 1000);
+  const bytesPerSample = format.encoding === 'pcm_f32le' ? 4 : 2;
+  const audio = Buffer.alloc(frames * format.channels * bytesPerSample);
+  for (let frame = 0; frame < frames; frame++) {
+    const value =
+      AMPLITUDE *
+      Math.sin((2 * Math.PI * frequencyHz * frame) / format.sampleRateHz);
+    for (let channel = 0; channel < format.channels; channel++) {
+      const offset = (frame * format.channels + channel) * bytesPerSample;
+      if (format.encoding === 'pcm_f32le') {
+        audio.writeFloatLE(value, offset);
+      } else {
+        audio.writeInt16LE(Math.round(value * 32_767), offset);
+      }
+    }
+  }
+  return audio;
+}
+
+function samples(pcm: Buffer): number[] {
+  const values: number[] = [];
+  for (let offset = 0; offset < pcm.length; offset += 2) {
+    values.push(pcm.readInt16LE(offset) / 32_768);
+  }
+  return values;
+}
+
+function convertInChunks(
+  format: AudioFormat,
+  audio: Buffer,
+  chunkFrames: number,
+): Buffer {
+  const converter = new AudioConverter(format);
+  const chunkBytes =
+    chunkFrames *
+    format.channels *
+    (format.encoding === 'pcm_f32le' ? 4 : format.encoding === 'mulaw' ? 1 : 2);
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+    pieces.push(converter.convert(audio.subarray(offset, offset + chunkBytes)));
+  }
+  return Buffer.concat(pieces);
+}
+
+/** the second half, after the filter has settled */
+function settled(values: number[]): number[] {
+  return values.slice(values.length / 2);
+}
+
+function peak(values: number[]): number {
+  return Math.max(...values.map(Math.abs));
+}
+
+function zeroCrossings(values: number[]): number {
+  let crossings = 0;
+  for (let ix = 1; ix < values.length; ix++) {
+    if ((values[ix - 1] ?? 0) < 0 !== (values[ix] ?? 0) < 0) {
+      crossings++;
+    }
+  }
+  return crossings;
+}
+
+/** largest step between neighbouring samples, a click shows up as a jump */
+function maxStep(values: number[]): number {
+  let step = 0;
+  for (let ix = 1; ix < values.length; ix++) {
+    step = Math.max(step, Math.abs((values[ix] ?? 0) - (values[ix - 1] ?? 0)));
+  }
+  return step;
+}
+
+describe('AudioConverter', () => {
+  it('should pass the default format through', () => {
+    const audio = sine(DEFAULT_AUDIO_FORMAT, 440, 10);
+    expect(new AudioConverter(DEFAULT_AUDIO_FORMAT).convert(audio)).toBe(audio);
+  });
+  it.each([8_000, 44_100, 48_000])(
+    'should resample a sine from %d Hz to 16 kHz',
+    (sampleRateHz) => {
+      const format: AudioFormat = {
+        encoding: 'pcm_s16le',
+        sampleRateHz,
+        channels: 1,
+      };
+      const output = samples(
+        new AudioConverter(format).convert(sine(format, 440, 1000)),
+      );
+      // the last input sample waits for the next packet
+      expect(output.length).toBeGreaterThanOrEqual(15_998);
+      expect(output.length).toBeLessThanOrEqual(16_000);
+      expect(peak(settled(output))).toBeCloseTo(AMPLITUDE, 1);
+      // 440 Hz crosses zero 440 times in half a second
+      expect(
+        Math.abs(zeroCrossings(settled(output)) - 440),
+      ).toBeLessThanOrEqual(2);
+    },
+  );
+  it('should filter frequencies above the output nyquist when downsampling', () => {
+    const format: AudioFormat = {
+      encoding: 'pcm_s16le',
+      sampleRateHz: 48_000,
+      channels: 1,
+    };
+    const output = samples(
+      new AudioConverter(format).convert(sine(format, 12_000, 200)),
+    );
+    expect(peak(settled(output))).toBeLessThan(0.01);
+  });
+  it('should downmix stereo and convert floats to int16', () => {
+    const stereo: AudioFormat = {
+      encoding: 'pcm_f32le',
+      sampleRateHz: 16_000,
+      channels: 2,
+    };
+    const audio = Buffer.alloc(16);
+    [0.5, -0.5, 0.25, 0.75].forEach((value, ix) =>
+      audio.writeFloatLE(value, ix * 4),
+    );
+    // the last frame waits for the next packet
+    expect(samples(new AudioConverter(stereo).convert(audio))).toEqual([0]);
+    const clipped = Buffer.alloc(16);
+    [2, 2, -2, -2].forEach((value, ix) => clipped.writeFloatLE(value, ix * 4));
+    expect(new AudioConverter(stereo).convert(clipped).readInt16LE(0)).toBe(
+      32_767,
+    );
+  });
+  it('should decode mu-law', () => {
+    expect(decodeMulaw(0xff)).toBe(0);
+    expect(decodeMulaw(0x80)).toBe(32_124);
+    expect(decodeMulaw(0x00)).toBe(-32_124);
+    const format: AudioFormat = {
+      encoding: 'mulaw',
+      sampleRateHz: 8_000,
+      channels: 1,
+    };
+    const converter = new AudioConverter(format);
+    expect(samples(converter.convert(Buffer.from([0xff, 0x80, 0x80])))).toEqual(
+      [0, 32_124 / 2 / 32_768, 32_124 / 32_768, 32_124 / 32_768],
+    );
+  });
+  it.each<[SampleEncoding, number, number]>([
+    ['pcm_s16le', 44_100, 1],
+    ['pcm_f32le', 48_000, 2],
+    ['pcm_s16le', 8_000, 2],
+  ])(
+    'should convert %s %d Hz with %d channels the same in any packet size',
+    (encoding, sampleRateHz, channels) => {
+      const format: AudioFormat = { encoding, sampleRateHz, channels };
+      const audio = sine(format, 440, 500);
+      const whole = convertInChunks(format, audio, sampleRateHz);
+      for (const chunkFrames of [1, 37, 441, 1_000]) {
+        expect(convertInChunks(format, audio, chunkFrames)).toEqual(whole);
+      }
+      // a 440 Hz sine at half scale moves at most ~0.09 per 16 kHz sample
+      expect(maxStep(samples(whole))).toBeLessThan(0.1);
+    },
+  );
+});
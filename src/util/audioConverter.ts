@@ -0,0 +1,179 @@
+import {
+  AudioFormat,
+  DEFAULT_AUDIO_FORMAT,
+  frameBytes,
+  isDefaultAudioFormat,
+} from '@util/audioFormat';
+
+const INT16_SCALE = 32_768;
+
+// zero crossings of the low pass filter on each side, at the output rate
+const LOW_PASS_ZERO_CROSSINGS = 8;
+// cutoff as a share of the output's nyquist frequency, leaves room for the filter's transition band
+const LOW_PASS_CUTOFF = 0.9;
+
+const MULAW_TABLE: Int16Array = (() => {
+  const table = new Int16Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    const inverted = ~byte & 0xff;
+    const exponent = (inverted >> 4) & 0x07;
+    const mantissa = inverted & 0x0f;
+    const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+    table[byte] = inverted & 0x80 ? -magnitude : magnitude;
+  }
+  return table;
+})();
+
+export function decodeMulaw(byte: number): number {
+  return MULAW_TABLE[byte & 0xff] ?? 0;
+}
+
+/**
+ * Samples as floats in [-1, 1], averaged over the channels of each frame.
+ */
+function decodeMono(format: AudioFormat, audio: Buffer): Float64Array {
+  const bytesPerFrame = frameBytes(format);
+  const bytesPerSample = bytesPerFrame / format.channels;
+  const frames = Math.floor(audio.length / bytesPerFrame);
+  const mono = new Float64Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      const offset = frame * bytesPerFrame + channel * bytesPerSample;
+      switch (format.encoding) {
+        case 'pcm_s16le':
+          sum += audio.readInt16LE(offset) / INT16_SCALE;
+          break;
+        case 'pcm_f32le':
+          sum += Math.max(-1, Math.min(1, audio.readFloatLE(offset)));
+          break;
+        case 'mulaw':
+          sum += decodeMulaw(audio[offset] ?? 0) / INT16_SCALE;
+          break;
+      }
+    }
+    mono[frame] = sum / format.channels;
+  }
+  return mono;
+}
+
+function encodeInt16(samples: number[]): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, ix) => {
+    const scaled = Math.round(sample * INT16_SCALE);
+    pcm.writeInt16LE(
+      Math.max(-INT16_SCALE, Math.min(INT16_SCALE - 1, scaled)),
+      ix * 2,
+    );
+  });
+  return pcm;
+}
+
+/**
+ * Blackman windowed sinc, normalized to unity gain at DC.
+ * @param cutoff in cycles per input sample
+ */
+function lowPassTaps(cutoff: number, length: number): Float64Array {
+  const taps = new Float64Array(length);
+  const middle = (length - 1) / 2;
+  let sum = 0;
+  for (let ix = 0; ix < length; ix++) {
+    const x = ix - middle;
+    const sinc =
+      x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window =
+      0.42 -
+      0.5 * Math.cos((2 * Math.PI * ix) / (length - 1)) +
+      0.08 * Math.cos((4 * Math.PI * ix) / (length - 1));
+    taps[ix] = sinc * window;
+    sum += taps[ix] ?? 0;
+  }
+  return taps.map((tap) => tap / sum);
+}
+
+/**
+ * Converts a stream of packets to PCM 16-bit mono at `DEFAULT_AUDIO_FORMAT`'s rate, packet by packet.
+ *
+ * Channels are averaged, downsampling low pass filters first, and samples are linearly interpolated at the output rate.
+ * Filter history and the interpolation position carry over between packets so the output has no seams,
+ * the output of a packet can be at most a sample short, that sample comes with the next one.
+ */
+export class AudioConverter {
+  private readonly passThrough: boolean;
+  private readonly taps: Float64Array | null;
+  // last input samples before the current packet, to filter its start with
+  private history: number[];
+  // filtered sample just before the current packet
+  private previous = 0;
+  // counted from the start of the stream so positions don't drift with the packet sizes
+  private inputSamples = 0;
+  private outputSamples = 0;
+
+  constructor(
+    private readonly from: AudioFormat,
+    private readonly toSampleRateHz: number = DEFAULT_AUDIO_FORMAT.sampleRateHz,
+  ) {
+    this.passThrough =
+      isDefaultAudioFormat(from) && toSampleRateHz === from.sampleRateHz;
+    const step = from.sampleRateHz / toSampleRateHz;
+    if (step > 1) {
+      const halfLength = Math.ceil(LOW_PASS_ZERO_CROSSINGS * step);
+      this.taps = lowPassTaps(
+        (0.5 * LOW_PASS_CUTOFF) / step,
+        halfLength * 2 + 1,
+      );
+    } else {
+      this.taps = null;
+    }
+    this.history = new Array<number>(this.taps ? this.taps.length - 1 : 0).fill(
+      0,
+    );
+  }
+
+  convert(audio: Buffer): Buffer {
+    if (this.passThrough) {
+      return audio;
+    }
+    const filtered = this.lowPass(decodeMono(this.from, audio));
+    const output: number[] = [];
+    // interpolating needs the sample after the position, the last one waits for the next packet
+    for (;;) {
+      // in input samples from the start of the packet, -1 is the last sample of the previous one
+      const position =
+        (this.outputSamples * this.from.sampleRateHz) / this.toSampleRateHz -
+        this.inputSamples;
+      const index = Math.floor(position);
+      if (index + 1 >= filtered.length) {
+        break;
+      }
+      const fraction = position - index;
+      const before = index < 0 ? this.previous : (filtered[index] ?? 0);
+      const after = filtered[index + 1] ?? 0;
+      output.push(before + (after - before) * fraction);
+      this.outputSamples++;
+    }
+    if (filtered.length > 0) {
+      this.previous = filtered[filtered.length - 1] ?? 0;
+      this.inputSamples += filtered.length;
+    }
+    return encodeInt16(output);
+  }
+
+  private lowPass(samples: Float64Array): Float64Array {
+    const taps = this.taps;
+    if (!taps) {
+      return samples;
+    }
+    const input = [...this.history, ...samples];
+    const filtered = new Float64Array(samples.length);
+    for (let ix = 0; ix < samples.length; ix++) {
+      let sum = 0;
+      for (let tap = 0; tap < taps.length; tap++) {
+        sum += (taps[tap] ?? 0) * (input[ix + tap] ?? 0);
+      }
+      filtered[ix] = sum;
+    }
+    this.history = input.slice(input.length - (taps.length - 1));
+    return filtered;
+  }
+}
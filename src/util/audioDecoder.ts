@@ -0,0 +1,22 @@
+import {
+  AudioPacketDecoder,
+  AudioPacketValidator,
+  DeclaredAudioFormat,
+} from '@util/audioFormat';
+import { FlacDecoder } from '@util/flac';
+import { OggOpusDecoder } from '@util/opus';
+
+export function createAudioDecoder(
+  declared: DeclaredAudioFormat,
+): AudioPacketDecoder {
+  switch (declared.encoding) {
+    case 'flac':
+      return new FlacDecoder();
+    case 'ogg_opus':
+      return new OggOpusDecoder();
+    case 'wav':
+      return new AudioPacketValidator({ encoding: 'wav' });
+    default:
+      return new AudioPacketValidator(declared);
+  }
+}
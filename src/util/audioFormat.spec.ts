@@ -0,0 +1,104 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  audioBytes,
+  audioDurationMs,
+  AudioFormat,
+  AudioPacketValidator,
+  createWavHeader,
+  DEFAULT_AUDIO_FORMAT,
+  parseWavHeader,
+  validateAudio,
+  validateFormat,
+} from '@util/audioFormat';
+import { InvalidData } from '@util/error';
+
+const F32_STEREO: AudioFormat = {
+  encoding: 'pcm_f32le',
+  sampleRateHz: 48_000,
+  channels: 2,
+};
+
+describe('audioFormat', () => {
+  it('should measure the duration from the format', () => {
+    expect(audioDurationMs(DEFAULT_AUDIO_FORMAT, 32_000)).toBe(1000);
+    expect(audioDurationMs(F32_STEREO, 384_000)).toBe(1000);
+    expect(
+      audioDurationMs(
+        { encoding: 'mulaw', sampleRateHz: 8_000, channels: 1 },
+        2_000,
+      ),
+    ).toBe(250);
+    expect(audioBytes(F32_STEREO, 250)).toBe(96_000);
+  });
+  it('should reject misaligned frames', () => {
+    expect(() => validateAudio(DEFAULT_AUDIO_FORMAT, Buffer.alloc(3))).toThrow(
+      InvalidData,
+    );
+    expect(() => validateAudio(F32_STEREO, Buffer.alloc(12))).toThrow(
+      'misaligned audio: 12 bytes is not a multiple of the 8 byte frames',
+    );
+    expect(() => validateAudio(F32_STEREO, Buffer.alloc(16))).not.toThrow();
+  });
+  it('should reject float samples that are not numbers', () => {
+    const audio = Buffer.alloc(8);
+    audio.writeFloatLE(Number.NaN, 4);
+    expect(() => validateAudio(F32_STEREO, audio)).toThrow(
+      'invalid float sample at byte 4',
+    );
+  });
+  it('should reject sample rates and channel counts out of range', () => {
+    expect(() =>
+      validateFormat({ ...DEFAULT_AUDIO_FORMAT, sampleRateHz: 100 }),
+    ).toThrow('invalid sample rate: 100');
+    expect(() =>
+      validateFormat({ ...DEFAULT_AUDIO_FORMAT, channels: 0 }),
+    ).toThrow('invalid channel count: 0');
+  });
+  it('should read the format from a wav header', () => {
+    const header = createWavHeader(F32_STEREO, 16);
+    expect(parseWavHeader(header)).toEqual({
+      format: F32_STEREO,
+      dataOffset: 44,
+    });
+  });
+  it('should skip unknown wav chunks', () => {
+    const header = createWavHeader(DEFAULT_AUDIO_FORMAT, 0);
+    const list = Buffer.alloc(8 + 3 + 1);
+    list.write('LIST', 0, 'ascii');
+    list.writeUInt32LE(3, 4);
+    const withList = Buffer.concat([
+      header.subarray(0, 36),
+      list,
+      header.subarray(36),
+    ]);
+    expect(parseWavHeader(withList)).toEqual({
+      format: DEFAULT_AUDIO_FORMAT,
+      dataOffset: 56,
+    });
+  });
+  it('should reject invalid wav headers', () => {
+    expect(() => parseWavHeader(Buffer.alloc(44))).toThrow(
+      'missing wav header',
+    );
+    expect(() =>
+      parseWavHeader(createWavHeader(DEFAULT_AUDIO_FORMAT, 0).subarray(0, 40)),
+    ).toThrow('incomplete wav header');
+    const unsupported = createWavHeader(DEFAULT_AUDIO_FORMAT, 0);
+    unsupported.writeUInt16LE(24, 34);
+    expect(() => parseWavHeader(unsupported)).toThrow(
+      'unsupported wav format: tag 1, 24 bits per sample',
+    );
+  });
+  it('should strip the wav header off the first packet', () => {
+    const validator = new AudioPacketValidator({ encoding: 'wav' });
+    expect(validator.format).toBeNull();
+    expect(
+      validator.accept(
+        Buffer.concat([createWavHeader(F32_STEREO, 16), Buffer.alloc(16)]),
+      ),
+    ).toEqual(Buffer.alloc(16));
+    expect(validator.format).toEqual(F32_STEREO);
+    expect(validator.accept(Buffer.alloc(8))).toEqual(Buffer.alloc(8));
+    expect(() => validator.accept(Buffer.alloc(4))).toThrow(InvalidData);
+  });
+});
@@ -0,0 +1,287 @@
+import { InvalidData } from '@util/error';
+
+export const CONTAINER_ENCODINGS = ['wav', 'flac', 'ogg_opus'] as const;
+
+export const AUDIO_ENCODINGS = [
+  'pcm_s16le',
+  'pcm_f32le',
+  'mulaw',
+  ...CONTAINER_ENCODINGS,
+] as const;
+
+export type AudioEncoding = (typeof AUDIO_ENCODINGS)[number];
+
+/** streams that describe their own format in a header */
+export type ContainerEncoding = (typeof CONTAINER_ENCODINGS)[number];
+
+/** how the samples themselves are stored, containers are decoded to one of these */
+export type SampleEncoding = Exclude<AudioEncoding, ContainerEncoding>;
+
+export interface AudioFormat {
+  encoding: SampleEncoding;
+  sampleRateHz: number;
+  /** samples of a frame are interleaved */
+  channels: number;
+}
+
+/**
+ * What a client declared at connect time, sample rate and channels of containers come from their header.
+ */
+export type DeclaredAudioFormat = AudioFormat | { encoding: ContainerEncoding };
+
+export const DEFAULT_AUDIO_FORMAT: Readonly<AudioFormat> = {
+  encoding: 'pcm_s16le',
+  sampleRateHz: 16_000,
+  channels: 1,
+};
+
+export const MIN_SAMPLE_RATE_HZ = 8_000;
+export const MAX_SAMPLE_RATE_HZ = 192_000;
+export const MAX_CHANNELS = 8;
+
+const BYTES_PER_SAMPLE: Record<SampleEncoding, number> = {
+  pcm_s16le: 2,
+  pcm_f32le: 4,
+  mulaw: 1,
+};
+
+export function isAudioEncoding(value: unknown): value is AudioEncoding {
+  return AUDIO_ENCODINGS.includes(value as AudioEncoding);
+}
+
+export function isContainerEncoding(
+  value: unknown,
+): value is ContainerEncoding {
+  return CONTAINER_ENCODINGS.includes(value as ContainerEncoding);
+}
+
+export function isDefaultAudioFormat(format: AudioFormat): boolean {
+  return (
+    format.encoding === DEFAULT_AUDIO_FORMAT.encoding &&
+    format.sampleRateHz === DEFAULT_AUDIO_FORMAT.sampleRateHz &&
+    format.channels === DEFAULT_AUDIO_FORMAT.channels
+  );
+}
+
+export function frameBytes(format: AudioFormat): number {
+  return BYTES_PER_SAMPLE[format.encoding] * format.channels;
+}
+
+export function audioDurationMs(
+  format: AudioFormat,
+  byteLength: number,
+): number {
+  const frames = Math.floor(byteLength / frameBytes(format));
+  // multiplied first so whole ms durations come out exact
+  return (frames * 1000) / format.sampleRateHz;
+}
+
+/**
+ * Bytes of `durationMs` of audio, rounded to whole frames.
+ */
+export function audioBytes(format: AudioFormat, durationMs: number): number {
+  return (
+    Math.round((durationMs * format.sampleRateHz) / 1000) * frameBytes(format)
+  );
+}
+
+/**
+ * @throws InvalidData when the audio isn't whole frames or a float sample isn't a number
+ */
+export function validateAudio(format: AudioFormat, audio: Buffer): void {
+  const bytes = frameBytes(format);
+  if (audio.length % bytes !== 0) {
+    throw new InvalidData(
+      `misaligned audio: ${audio.length} bytes is not a multiple of the ${bytes} byte frames`,
+    );
+  }
+  if (format.encoding === 'pcm_f32le') {
+    for (let offset = 0; offset < audio.length; offset += 4) {
+      if (!Number.isFinite(audio.readFloatLE(offset))) {
+        throw new InvalidData(`invalid float sample at byte ${offset}`);
+      }
+    }
+  }
+}
+
+/**
+ * @throws InvalidData when the sample rate or channel count is out of range
+ */
+export function validateFormat(format: AudioFormat): void {
+  if (
+    !Number.isInteger(format.sampleRateHz) ||
+    format.sampleRateHz < MIN_SAMPLE_RATE_HZ ||
+    format.sampleRateHz > MAX_SAMPLE_RATE_HZ
+  ) {
+    throw new InvalidData(`invalid sample rate: ${format.sampleRateHz}`);
+  }
+  if (
+    !Number.isInteger(format.channels) ||
+    format.channels < 1 ||
+    format.channels > MAX_CHANNELS
+  ) {
+    throw new InvalidData(`invalid channel count: ${format.channels}`);
+  }
+}
+
+const WAV_FORMAT_PCM = 1;
+const WAV_FORMAT_IEEE_FLOAT = 3;
+const WAV_FORMAT_MULAW = 7;
+const WAV_FORMAT_EXTENSIBLE = 0xfffe;
+
+function sampleEncodingFromWav(
+  formatTag: number,
+  bitsPerSample: number,
+): SampleEncoding {
+  if (formatTag === WAV_FORMAT_PCM && bitsPerSample === 16) {
+    return 'pcm_s16le';
+  }
+  if (formatTag === WAV_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    return 'pcm_f32le';
+  }
+  if (formatTag === WAV_FORMAT_MULAW && bitsPerSample === 8) {
+    return 'mulaw';
+  }
+  throw new InvalidData(
+    `unsupported wav format: tag ${formatTag}, ${bitsPerSample} bits per sample`,
+  );
+}
+
+export interface WavHeader {
+  format: AudioFormat;
+  /** where the samples start */
+  dataOffset: number;
+}
+
+/**
+ * Reads the RIFF header up to the start of the `data` chunk, its length is ignored so streamed files work.
+ * @throws InvalidData when the header is invalid, unsupported or not complete
+ */
+export function parseWavHeader(buffer: Buffer): WavHeader {
+  if (
+    buffer.length < 12 ||
+    buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+    buffer.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new InvalidData('missing wav header');
+  }
+  let format: AudioFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (chunkId === 'data') {
+      if (!format) {
+        throw new InvalidData('wav data before fmt chunk');
+      }
+      return { format, dataOffset: body };
+    }
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || body + chunkSize > buffer.length) {
+        break;
+      }
+      let formatTag = buffer.readUInt16LE(body);
+      if (formatTag === WAV_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        // the sub format GUID starts with the actual tag
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        encoding: sampleEncodingFromWav(
+          formatTag,
+          buffer.readUInt16LE(body + 14),
+        ),
+        sampleRateHz: buffer.readUInt32LE(body + 4),
+        channels: buffer.readUInt16LE(body + 2),
+      };
+    }
+    // chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new InvalidData('incomplete wav header');
+}
+
+const WAV_FORMAT_TAGS: Record<SampleEncoding, number> = {
+  pcm_s16le: WAV_FORMAT_PCM,
+  pcm_f32le: WAV_FORMAT_IEEE_FLOAT,
+  mulaw: WAV_FORMAT_MULAW,
+};
+
+/**
+ * 44 byte header for `dataBytes` of audio in `format`.
+ */
+export function createWavHeader(
+  format: AudioFormat,
+  dataBytes: number,
+): Buffer {
+  const header = Buffer.alloc(44);
+  const bytesPerSample = BYTES_PER_SAMPLE[format.encoding];
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(WAV_FORMAT_TAGS[format.encoding], 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRateHz, 24);
+  header.writeUInt32LE(format.sampleRateHz * frameBytes(format), 28);
+  header.writeUInt16LE(frameBytes(format), 32);
+  header.writeUInt16LE(bytesPerSample * 8, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Turns a session's packets into samples, in the order they arrive.
+ */
+export interface AudioPacketDecoder {
+  readonly declared: DeclaredAudioFormat;
+  /** of the decoded audio, null until the stream's header is read */
+  readonly format: AudioFormat | null;
+  /** packets can end mid frame, the decoded audio of a packet can be empty */
+  readonly compressed: boolean;
+  /**
+   * @returns the packet's decoded audio
+   * @throws InvalidData when the packet doesn't match the format or the stream is corrupt
+   */
+  accept(packet: Buffer): Buffer;
+  /** frees what the decoder holds, once the session ends */
+  close(): void;
+}
+
+/**
+ * Checks a session's packets against its declared format, in the order they arrive.
+ * The first packet of a `wav` stream starts with the header, the format is known once it's read.
+ */
+export class AudioPacketValidator implements AudioPacketDecoder {
+  readonly compressed = false;
+  private _format: AudioFormat | null;
+
+  constructor(readonly declared: AudioFormat | { encoding: 'wav' }) {
+    this._format = declared.encoding === 'wav' ? null : declared;
+  }
+
+  /** null until the wav header is read */
+  get format(): AudioFormat | null {
+    return this._format;
+  }
+
+  /**
+   * @returns the packet's audio, without the wav header
+   * @throws InvalidData when the packet doesn't match the format
+   */
+  accept(packet: Buffer): Buffer {
+    let audio = packet;
+    if (!this._format) {
+      const header = parseWavHeader(packet);
+      validateFormat(header.format);
+      this._format = header.format;
+      audio = packet.subarray(header.dataOffset);
+    }
+    validateAudio(this._format, audio);
+    return audio;
+  }
+
+  close(): void {}
+}
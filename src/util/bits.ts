@@ -0,0 +1,118 @@
+import { IncompleteData } from '@util/error';
+
+/**
+ * Reads big endian bit fields, most significant bit first.
+ */
+export class BitReader {
+  private bitPosition = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  /** whole bytes read so far, including a partially read one */
+  get bytePosition(): number {
+    return Math.ceil(this.bitPosition / 8);
+  }
+
+  /**
+   * @param bits up to 32
+   * @throws IncompleteData when the buffer ends first
+   */
+  readBits(bits: number): number {
+    if (this.bitPosition + bits > this.buffer.length * 8) {
+      throw new IncompleteData();
+    }
+    let value = 0;
+    let remaining = bits;
+    while (remaining > 0) {
+      const byte = this.buffer[this.bitPosition >> 3] ?? 0;
+      const offset = this.bitPosition & 7;
+      const take = Math.min(remaining, 8 - offset);
+      const chunk = (byte >> (8 - offset - take)) & ((1 << take) - 1);
+      // multiplied rather than shifted so 32 bit values stay unsigned
+      value = value * (1 << take) + chunk;
+      remaining -= take;
+      this.bitPosition += take;
+    }
+    return value;
+  }
+
+  /** two's complement */
+  readSigned(bits: number): number {
+    const value = this.readBits(bits);
+    return bits > 0 && value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  /** zeros up to the next one bit, which is consumed too */
+  readUnary(): number {
+    let zeros = 0;
+    for (;;) {
+      // whole zero bytes at once, a corrupt stream can hold megabytes of them
+      if (
+        (this.bitPosition & 7) === 0 &&
+        this.buffer[this.bitPosition >> 3] === 0
+      ) {
+        zeros += 8;
+        this.bitPosition += 8;
+      } else if (this.readBits(1) === 0) {
+        zeros++;
+      } else {
+        return zeros;
+      }
+    }
+  }
+
+  alignToByte(): void {
+    this.bitPosition = this.bytePosition * 8;
+  }
+}
+
+/**
+ * Writes big endian bit fields, most significant bit first.
+ */
+export class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private currentBits = 0;
+
+  /**
+   * @param bits up to 32, negative values are written as two's complement
+   */
+  writeBits(value: number, bits: number): void {
+    let unsigned = value < 0 ? value + 2 ** bits : value;
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      const weight = 2 ** bit;
+      const set = unsigned >= weight;
+      if (set) {
+        unsigned -= weight;
+      }
+      this.current = (this.current << 1) | (set ? 1 : 0);
+      this.currentBits++;
+      if (this.currentBits === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.currentBits = 0;
+      }
+    }
+  }
+
+  /** `zeros` zero bits, then a one */
+  writeUnary(zeros: number): void {
+    for (let ix = 0; ix < zeros; ix++) {
+      this.writeBits(0, 1);
+    }
+    this.writeBits(1, 1);
+  }
+
+  /** pads with zeros */
+  alignToByte(): void {
+    if (this.currentBits > 0) {
+      this.writeBits(0, 8 - this.currentBits);
+    }
+  }
+
+  /** the bytes written so far, padded to a whole byte */
+  toBuffer(): Buffer {
+    this.alignToByte();
+    return Buffer.from(this.bytes);
+  }
+}
@@ -1,4 +1,5 @@
 import { Buffer, isUtf8 } from 'node:buffer';
+import { RawData } from 'ws';
 
 export function bufferTextOrThrow(buffer: Buffer): string {
   if (!isUtf8(buffer)) {
@@ -7,6 +8,18 @@ export function bufferTextOrThrow(buffer: Buffer): string {
   return buffer.toString('utf8');
 }
 
+export function bufferFromRawData(rawData: RawData): Buffer {
+  if (Buffer.isBuffer(rawData)) {
+    return rawData;
+  } else if (rawData instanceof ArrayBuffer) {
+    return Buffer.from(rawData);
+  } else if (Array.isArray(rawData)) {
+    return Buffer.concat(rawData);
+  } else {
+    throw new Error('Unknown binary data type');
+  }
+}
+
 export function insertIdIntoBuffer(id: number, buffer: Buffer): Buffer {
   const idBuffer = Buffer.alloc(4);
   idBuffer.writeUInt32BE(id);
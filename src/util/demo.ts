@@ -1,38 +1,14 @@
 import * as console from 'node:console';
-import { UsageData } from '@server/services/usageService';
-import { UsageResponse } from '@server/controllers/usageController';
-import { RawData, WebSocket } from 'ws';
-import { bufferFromRawData } from '@server/ws/wsTranscribe';
-import { bufferTextOrThrow } from '@util/buffer';
+import { issueToken } from '@server/auth';
+import { config, DEV_JWT_SECRET } from '@server/config';
+import { userId } from '@server/types';
 
-const HOST = 'localhost:3000';
-const API_USAGE_URL = `http://${HOST}/api/usage`;
-const WS_TRANSCRIBE_URL = `ws://${HOST}/transcribe`;
-export const USER_1_TOKEN = 'Bearer a';
-export const USER_2_TOKEN = 'Bearer b';
+// the demos' server and clients share the process, JWT_SECRET still wins when set
+config.jwt.secret ??= DEV_JWT_SECRET;
 
-export async function fetchUsageData(token: string): Promise<UsageData> {
-  const response = await fetch(API_USAGE_URL, {
-    method: 'GET',
-    headers: {
-      authorization: token,
-    },
-  });
-  if (!response.ok) {
-    throw new Error(`fetchUsage response.status: ${response.status}`);
-  }
-  // TODO: validate with zod
-  const usageResponse = (await response.json()) as UsageResponse;
-  return usageResponse.usage;
-}
-
-export function createWs(token: string): WebSocket {
-  return new WebSocket(WS_TRANSCRIBE_URL, {
-    headers: {
-      authorization: token,
-    },
-  });
-}
+export const SERVER_URL = 'http://localhost:3000';
+export const USER_1_TOKEN = issueToken(userId('1'));
+export const USER_2_TOKEN = issueToken(userId('2'));
 
 export async function logStatusAndExecute<T>(
   message: string,
@@ -51,15 +27,3 @@ export async function logStatusAndExecute<T>(
     process.stdout.write('\n');
   }
 }
-
-export function isReadyMessage(rawData: RawData): boolean {
-  const buffer = bufferFromRawData(rawData);
-  const bufferString = bufferTextOrThrow(buffer);
-  const message = JSON.parse(bufferString) as unknown;
-  return (
-    typeof message === 'object' &&
-    message !== null &&
-    'event' in message &&
-    message.event === 'ready'
-  );
-}
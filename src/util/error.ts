@@ -22,6 +22,65 @@ export class UnauthorizedError extends HttpError {
   }
 }
 
+export class BadRequestError extends HttpError {
+  statusCode = 400;
+  constructor(message: string = 'Bad Request') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class InvalidCursorError extends BadRequestError {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  statusCode = 403;
+  constructor(message: string = 'Forbidden') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  statusCode = 404;
+  constructor(message: string = 'Not Found') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class ConflictError extends HttpError {
+  statusCode = 409;
+  constructor(message: string = 'Conflict') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
 export class TimeoutError extends Error {
   constructor(message: string) {
     super(message);
@@ -76,3 +135,85 @@ export class ExceededAllocatedUsageError extends Error {
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
+
+export class MalformedTokenError extends UnauthorizedError {
+  constructor(message: string = 'Malformed token') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class InvalidTokenSignatureError extends UnauthorizedError {
+  constructor(message: string = 'Invalid token signature') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class TokenExpiredError extends UnauthorizedError {
+  constructor(message: string = 'Token expired') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class InvalidTokenClaimError extends UnauthorizedError {
+  constructor(message: string = 'Invalid token claim') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class TokenRevokedError extends UnauthorizedError {
+  constructor(message: string = 'Token revoked') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    // which limit was hit, e.g. `packets_per_sec`
+    readonly limit: string,
+    readonly max: number,
+  ) {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class IncompleteData extends Error {
+  constructor(message: string = 'Incomplete data') {
+    super(message);
+    // breaks if minified
+    this.name = new.target.name;
+
+    // Restore prototype chain (fix for transpiled JS environments)
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
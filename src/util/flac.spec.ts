@@ -0,0 +1,209 @@
+import { describe, expect, it } from '@jest/globals';
+import { AudioFormat } from '@util/audioFormat';
+import { BitWriter } from '@util/bits';
+import { InvalidData } from '@util/error';
+import {
+  createFlacStream,
+  FlacDecoder,
+  flacCrc16,
+  flacCrc8,
+  MAX_PENDING_BYTES,
+} from '@util/flac';
+
+const MONO: AudioFormat = {
+  encoding: 'pcm_s16le',
+  sampleRateHz: 16_000,
+  channels: 1,
+};
+const STEREO: AudioFormat = { ...MONO, channels: 2 };
+
+function pcm(...samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, ix) => buffer.writeInt16LE(sample, ix * 2));
+  return buffer;
+}
+
+function sine(length: number, amplitude = 10_000): number[] {
+  return Array.from({ length }, (_, ix) =>
+    Math.round(amplitude * Math.sin((2 * Math.PI * 440 * ix) / 16_000)),
+  );
+}
+
+function writeRice(writer: BitWriter, residual: number[], parameter: number) {
+  for (const value of residual) {
+    const unsigned = value >= 0 ? value * 2 : -value * 2 - 1;
+    writer.writeUnary(Math.floor(unsigned / 2 ** parameter));
+    writer.writeBits(unsigned % 2 ** parameter, parameter);
+  }
+}
+
+/**
+ * A frame of `blockSize` samples with 16 bits per sample, the subframes written by `writeSubframes`.
+ */
+function frame(
+  channelAssignment: number,
+  blockSize: number,
+  writeSubframes: (writer: BitWriter) => void,
+): Buffer {
+  const writer = new BitWriter();
+  writer.writeBits(0b11111111111110, 14);
+  writer.writeBits(0, 2);
+  writer.writeBits(7, 4);
+  writer.writeBits(0, 4);
+  writer.writeBits(channelAssignment, 4);
+  writer.writeBits(4, 3);
+  writer.writeBits(0, 1);
+  writer.writeBits(0, 8);
+  writer.writeBits(blockSize - 1, 16);
+  writer.writeBits(flacCrc8(writer.toBuffer()), 8);
+  writeSubframes(writer);
+  const body = writer.toBuffer();
+  const crc = Buffer.alloc(2);
+  crc.writeUInt16BE(flacCrc16(body));
+  return Buffer.concat([body, crc]);
+}
+
+function decodeAll(stream: Buffer, chunkBytes = stream.length): Buffer {
+  const decoder = new FlacDecoder();
+  const decoded: Buffer[] = [];
+  for (let offset = 0; offset < stream.length; offset += chunkBytes) {
+    decoded.push(decoder.accept(stream.subarray(offset, offset + chunkBytes)));
+  }
+  return Buffer.concat(decoded);
+}
+
+describe('FlacDecoder', () => {
+  it('should decode verbatim frames and read the format', () => {
+    const audio = pcm(...sine(1_000));
+    const decoder = new FlacDecoder();
+    expect(decoder.format).toBeNull();
+    expect(decoder.accept(createFlacStream(MONO, audio, 256))).toEqual(audio);
+    expect(decoder.format).toEqual(MONO);
+  });
+  it('should decode frames split across packets', () => {
+    const left = sine(600);
+    const audio = pcm(...left.flatMap((sample) => [sample, -sample]));
+    const stream = createFlacStream(STEREO, audio, 256);
+    const decoder = new FlacDecoder();
+    // the metadata and the start of the first frame decode to nothing
+    expect(decoder.accept(stream.subarray(0, 100))).toEqual(Buffer.alloc(0));
+    expect(decoder.format).toEqual(STEREO);
+    for (const chunkBytes of [1, 7, 1000]) {
+      expect(decodeAll(stream, chunkBytes)).toEqual(audio);
+    }
+  });
+  it('should decode fixed and lpc subframes with rice coded residuals', () => {
+    const samples = sine(64);
+    const fixedResidual = samples
+      .slice(2)
+      .map(
+        (sample, ix) =>
+          sample - (2 * (samples[ix + 1] ?? 0) - (samples[ix] ?? 0)),
+      );
+    const fixed = frame(0, 64, (writer) => {
+      // fixed order 2
+      writer.writeBits(0b00010100, 8);
+      writer.writeBits(samples[0] ?? 0, 16);
+      writer.writeBits(samples[1] ?? 0, 16);
+      // rice, partition order 1
+      writer.writeBits(0, 2);
+      writer.writeBits(1, 4);
+      writer.writeBits(6, 4);
+      writeRice(writer, fixedResidual.slice(0, 30), 6);
+      writer.writeBits(6, 4);
+      writeRice(writer, fixedResidual.slice(30), 6);
+    });
+    const lpcResidual = samples
+      .slice(1)
+      .map((sample, ix) => sample - ((7 * (samples[ix] ?? 0)) >> 3));
+    const lpc = frame(0, 64, (writer) => {
+      // lpc order 1, 0.875 as 7 >> 3 in 4 bits
+      writer.writeBits(0b01000000, 8);
+      writer.writeBits(samples[0] ?? 0, 16);
+      writer.writeBits(3, 4);
+      writer.writeBits(3, 5);
+      writer.writeBits(7, 4);
+      // rice2, partition order 0
+      writer.writeBits(1, 2);
+      writer.writeBits(0, 4);
+      writer.writeBits(12, 5);
+      writeRice(writer, lpcResidual, 12);
+    });
+    const stream = Buffer.concat([
+      createFlacStream(MONO, Buffer.alloc(0)),
+      fixed,
+      lpc,
+    ]);
+    expect(decodeAll(stream)).toEqual(pcm(...samples, ...samples));
+  });
+  it('should decode mid/side stereo, constant subframes and wasted bits', () => {
+    const left = sine(16);
+    const right = sine(16, 3_000);
+    const midSide = frame(10, 16, (writer) => {
+      writer.writeBits(0b00000010, 8);
+      left.forEach((sample, ix) =>
+        writer.writeBits((sample + (right[ix] ?? 0)) >> 1, 16),
+      );
+      // the side channel has an extra bit
+      writer.writeBits(0b00000010, 8);
+      left.forEach((sample, ix) =>
+        writer.writeBits(sample - (right[ix] ?? 0), 17),
+      );
+    });
+    const constant = frame(1, 16, (writer) => {
+      for (const value of [100, -4]) {
+        // constant, 2 wasted bits
+        writer.writeBits(0b00000001, 8);
+        writer.writeUnary(1);
+        writer.writeBits(value / 4, 14);
+      }
+    });
+    const stream = Buffer.concat([
+      createFlacStream(STEREO, Buffer.alloc(0)),
+      midSide,
+      constant,
+    ]);
+    expect(decodeAll(stream)).toEqual(
+      Buffer.concat([
+        pcm(...left.flatMap((sample, ix) => [sample, right[ix] ?? 0])),
+        pcm(...new Array<number[]>(16).fill([100, -4]).flat()),
+      ]),
+    );
+  });
+  it('should reject corrupt streams', () => {
+    const stream = createFlacStream(MONO, pcm(...sine(100)));
+    expect(() => new FlacDecoder().accept(Buffer.from('RIFF'))).toThrow(
+      'missing flac stream marker',
+    );
+    const corrupt = Buffer.from(stream);
+    corrupt[corrupt.length - 10] ^= 0xff;
+    expect(() => new FlacDecoder().accept(corrupt)).toThrow(
+      'flac frame checksum mismatch',
+    );
+    const garbage = Buffer.concat([
+      createFlacStream(MONO, Buffer.alloc(0)),
+      Buffer.alloc(32),
+    ]);
+    expect(() => new FlacDecoder().accept(garbage)).toThrow(InvalidData);
+    expect(() => new FlacDecoder().accept(garbage)).toThrow(
+      'invalid flac frame sync',
+    );
+  });
+  it('should reject a frame that never completes', () => {
+    // a rice coded residual whose unary run never ends
+    const unterminated = frame(0, 4096, (writer) => {
+      // fixed order 0, rice partition order 0 with parameter 0
+      writer.writeBits(0b00010000, 8);
+      writer.writeBits(0, 10);
+    }).subarray(0, -2);
+    const decoder = new FlacDecoder();
+    decoder.accept(
+      Buffer.concat([createFlacStream(MONO, Buffer.alloc(0)), unterminated]),
+    );
+    const chunk = Buffer.alloc(MAX_PENDING_BYTES / 2);
+    expect(decoder.accept(chunk)).toEqual(Buffer.alloc(0));
+    expect(() => decoder.accept(chunk)).toThrow(
+      `flac stream buffered over ${MAX_PENDING_BYTES} bytes without a complete frame`,
+    );
+  });
+});
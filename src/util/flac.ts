@@ -0,0 +1,580 @@
+import {
+  AudioFormat,
+  AudioPacketDecoder,
+  validateFormat,
+} from '@util/audioFormat';
+import { BitReader, BitWriter } from '@util/bits';
+import { IncompleteData, InvalidData } from '@util/error';
+
+const STREAM_MARKER = 'fLaC';
+const METADATA_STREAMINFO = 0;
+const STREAMINFO_BYTES = 34;
+const FRAME_SYNC = 0b11111111111110;
+// a few of the largest frames, 65536 samples of 8 channels at 32 bits is just over 2MB,
+// more than this without a complete frame or metadata block isn't a frame still arriving
+export const MAX_PENDING_BYTES = 8 * 1024 * 1024;
+
+const SAMPLE_RATES_HZ: Record<number, number> = {
+  1: 88_200,
+  2: 176_400,
+  3: 192_000,
+  4: 8_000,
+  5: 16_000,
+  6: 22_050,
+  7: 24_000,
+  8: 32_000,
+  9: 44_100,
+  10: 48_000,
+  11: 96_000,
+};
+
+const SAMPLE_SIZES: Record<number, number> = {
+  1: 8,
+  2: 12,
+  4: 16,
+  5: 20,
+  6: 24,
+  7: 32,
+};
+
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_RIGHT_SIDE = 9;
+const CHANNELS_MID_SIDE = 10;
+
+interface StreamInfo {
+  sampleRateHz: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+interface FrameHeader {
+  blockSize: number;
+  sampleRateHz: number;
+  channelAssignment: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+const CRC8_TABLE = crcTable(8, 0x07);
+const CRC16_TABLE = crcTable(16, 0x8005);
+
+function crcTable(width: 8 | 16, polynomial: number): Uint16Array {
+  const table = new Uint16Array(256);
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    }
+    table[byte] = crc;
+  }
+  return table;
+}
+
+export function flacCrc8(buffer: Buffer): number {
+  let crc = 0;
+  for (const byte of buffer) {
+    crc = CRC8_TABLE[crc ^ byte] ?? 0;
+  }
+  return crc;
+}
+
+export function flacCrc16(buffer: Buffer): number {
+  let crc = 0;
+  for (const byte of buffer) {
+    crc = ((crc << 8) & 0xffff) ^ (CRC16_TABLE[(crc >> 8) ^ byte] ?? 0);
+  }
+  return crc;
+}
+
+function readStreamInfo(block: Buffer): StreamInfo {
+  const reader = new BitReader(block);
+  // min/max block and frame sizes
+  reader.readBits(16);
+  reader.readBits(16);
+  reader.readBits(24);
+  reader.readBits(24);
+  return {
+    sampleRateHz: reader.readBits(20),
+    channels: reader.readBits(3) + 1,
+    bitsPerSample: reader.readBits(5) + 1,
+  };
+}
+
+/** frame and sample numbers are coded like UTF-8 */
+function skipCodedNumber(reader: BitReader): void {
+  const first = reader.readBits(8);
+  let continuation = 0;
+  while (continuation < 8 && first & (0x80 >> continuation)) {
+    continuation++;
+  }
+  if (continuation === 1 || continuation === 8) {
+    throw new InvalidData('invalid flac frame number');
+  }
+  for (let ix = 1; ix < continuation; ix++) {
+    reader.readBits(8);
+  }
+}
+
+function readFrameHeader(
+  reader: BitReader,
+  frame: Buffer,
+  info: StreamInfo,
+): FrameHeader {
+  if (reader.readBits(14) !== FRAME_SYNC || reader.readBits(1) !== 0) {
+    throw new InvalidData('invalid flac frame sync');
+  }
+  // blocking strategy, fixed or variable, doesn't matter for decoding
+  reader.readBits(1);
+  const blockSizeCode = reader.readBits(4);
+  const sampleRateCode = reader.readBits(4);
+  const channelAssignment = reader.readBits(4);
+  const sampleSizeCode = reader.readBits(3);
+  reader.readBits(1);
+  skipCodedNumber(reader);
+
+  let blockSize: number;
+  if (blockSizeCode === 1) {
+    blockSize = 192;
+  } else if (blockSizeCode >= 2 && blockSizeCode <= 5) {
+    blockSize = 576 << (blockSizeCode - 2);
+  } else if (blockSizeCode === 6) {
+    blockSize = reader.readBits(8) + 1;
+  } else if (blockSizeCode === 7) {
+    blockSize = reader.readBits(16) + 1;
+  } else if (blockSizeCode >= 8) {
+    blockSize = 256 << (blockSizeCode - 8);
+  } else {
+    throw new InvalidData('invalid flac block size');
+  }
+
+  let sampleRateHz: number;
+  if (sampleRateCode === 0) {
+    sampleRateHz = info.sampleRateHz;
+  } else if (sampleRateCode === 12) {
+    sampleRateHz = reader.readBits(8) * 1000;
+  } else if (sampleRateCode === 13) {
+    sampleRateHz = reader.readBits(16);
+  } else if (sampleRateCode === 14) {
+    sampleRateHz = reader.readBits(16) * 10;
+  } else {
+    const rate = SAMPLE_RATES_HZ[sampleRateCode];
+    if (rate === undefined) {
+      throw new InvalidData('invalid flac sample rate');
+    }
+    sampleRateHz = rate;
+  }
+
+  let channels: number;
+  if (channelAssignment < 8) {
+    channels = channelAssignment + 1;
+  } else if (channelAssignment <= CHANNELS_MID_SIDE) {
+    channels = 2;
+  } else {
+    throw new InvalidData('invalid flac channel assignment');
+  }
+
+  const bitsPerSample =
+    sampleSizeCode === 0 ? info.bitsPerSample : SAMPLE_SIZES[sampleSizeCode];
+  if (bitsPerSample === undefined) {
+    throw new InvalidData('invalid flac sample size');
+  }
+
+  const headerEnd = reader.bytePosition;
+  if (reader.readBits(8) !== flacCrc8(frame.subarray(0, headerEnd))) {
+    throw new InvalidData('flac frame header checksum mismatch');
+  }
+  return {
+    blockSize,
+    sampleRateHz,
+    channelAssignment,
+    channels,
+    bitsPerSample,
+  };
+}
+
+function readResidual(
+  reader: BitReader,
+  blockSize: number,
+  predictorOrder: number,
+  samples: number[],
+): void {
+  const method = reader.readBits(2);
+  if (method > 1) {
+    throw new InvalidData('invalid flac residual coding');
+  }
+  const parameterBits = method === 0 ? 4 : 5;
+  const escape = (1 << parameterBits) - 1;
+  const partitionOrder = reader.readBits(4);
+  const partitions = 1 << partitionOrder;
+  const partitionSize = blockSize >> partitionOrder;
+  if (
+    partitionSize * partitions !== blockSize ||
+    partitionSize < predictorOrder
+  ) {
+    throw new InvalidData('invalid flac residual partition order');
+  }
+  for (let partition = 0; partition < partitions; partition++) {
+    const count =
+      partition === 0 ? partitionSize - predictorOrder : partitionSize;
+    const parameter = reader.readBits(parameterBits);
+    if (parameter === escape) {
+      const bits = reader.readBits(5);
+      for (let ix = 0; ix < count; ix++) {
+        samples.push(reader.readSigned(bits));
+      }
+      continue;
+    }
+    for (let ix = 0; ix < count; ix++) {
+      const value =
+        reader.readUnary() * 2 ** parameter + reader.readBits(parameter);
+      // zigzag, even values are positive
+      samples.push(value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+    }
+  }
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+function predict(
+  samples: number[],
+  coefficients: number[],
+  shift: number,
+  residual: number[],
+): void {
+  const order = coefficients.length;
+  for (const value of residual) {
+    const ix = samples.length;
+    let sum = 0;
+    for (let tap = 0; tap < order; tap++) {
+      sum += (coefficients[tap] ?? 0) * (samples[ix - 1 - tap] ?? 0);
+    }
+    samples.push(value + Math.floor(sum / 2 ** shift));
+  }
+}
+
+function readSubframe(
+  reader: BitReader,
+  blockSize: number,
+  bitsPerSample: number,
+): number[] {
+  if (reader.readBits(1) !== 0) {
+    throw new InvalidData('invalid flac subframe');
+  }
+  const type = reader.readBits(6);
+  let wastedBits = 0;
+  if (reader.readBits(1) === 1) {
+    wastedBits = reader.readUnary() + 1;
+  }
+  const bits = bitsPerSample - wastedBits;
+  let samples: number[];
+  if (type === 0) {
+    samples = new Array<number>(blockSize).fill(reader.readSigned(bits));
+  } else if (type === 1) {
+    samples = [];
+    for (let ix = 0; ix < blockSize; ix++) {
+      samples.push(reader.readSigned(bits));
+    }
+  } else if (type >= 8 && type <= 12) {
+    const order = type - 8;
+    samples = [];
+    for (let ix = 0; ix < order; ix++) {
+      samples.push(reader.readSigned(bits));
+    }
+    const residual: number[] = [];
+    readResidual(reader, blockSize, order, residual);
+    predict(samples, FIXED_COEFFICIENTS[order] ?? [], 0, residual);
+  } else if (type >= 32) {
+    const order = type - 31;
+    samples = [];
+    for (let ix = 0; ix < order; ix++) {
+      samples.push(reader.readSigned(bits));
+    }
+    const precision = reader.readBits(4) + 1;
+    if (precision === 16) {
+      throw new InvalidData('invalid flac lpc precision');
+    }
+    const shift = reader.readSigned(5);
+    if (shift < 0) {
+      throw new InvalidData('invalid flac lpc shift');
+    }
+    const coefficients: number[] = [];
+    for (let ix = 0; ix < order; ix++) {
+      coefficients.push(reader.readSigned(precision));
+    }
+    const residual: number[] = [];
+    readResidual(reader, blockSize, order, residual);
+    predict(samples, coefficients, shift, residual);
+  } else {
+    throw new InvalidData(`invalid flac subframe type: ${type}`);
+  }
+  return wastedBits > 0
+    ? samples.map((sample) => sample * 2 ** wastedBits)
+    : samples;
+}
+
+/**
+ * @returns the channels' samples, undone from left/side, right/side or mid/side stereo
+ */
+function decorrelate(header: FrameHeader, channels: number[][]): number[][] {
+  const [first = [], second = []] = channels;
+  switch (header.channelAssignment) {
+    case CHANNELS_LEFT_SIDE:
+      return [first, first.map((left, ix) => left - (second[ix] ?? 0))];
+    case CHANNELS_RIGHT_SIDE:
+      return [second.map((right, ix) => right + (first[ix] ?? 0)), second];
+    case CHANNELS_MID_SIDE: {
+      const left: number[] = [];
+      const right: number[] = [];
+      first.forEach((mid, ix) => {
+        const side = second[ix] ?? 0;
+        // the bit lost when mid was halved is the low bit of side
+        const sum = mid * 2 + (side & 1);
+        left.push((sum + side) / 2);
+        right.push((sum - side) / 2);
+      });
+      return [left, right];
+    }
+    default:
+      return channels;
+  }
+}
+
+/**
+ * Decodes a FLAC stream to 16-bit PCM as its packets arrive.
+ * Frames may span packets, a packet's audio is the frames completed by it.
+ */
+export class FlacDecoder implements AudioPacketDecoder {
+  readonly declared = { encoding: 'flac' } as const;
+  readonly compressed = true;
+  private info: StreamInfo | null = null;
+  private _format: AudioFormat | null = null;
+  private pending: Buffer = Buffer.alloc(0);
+  private state: 'marker' | 'metadata' | 'frames' = 'marker';
+
+  get format(): AudioFormat | null {
+    return this._format;
+  }
+
+  accept(packet: Buffer): Buffer {
+    this.pending = Buffer.concat([this.pending, packet]);
+    if (this.state !== 'frames') {
+      this.readMetadata();
+    }
+    const decoded: Buffer[] = [];
+    while (this.state === 'frames' && this.pending.length > 0) {
+      const frame = this.readFrame();
+      if (!frame) {
+        break;
+      }
+      decoded.push(frame);
+    }
+    if (this.pending.length > MAX_PENDING_BYTES) {
+      throw new InvalidData(
+        `flac stream buffered over ${MAX_PENDING_BYTES} bytes without a complete frame`,
+      );
+    }
+    return Buffer.concat(decoded);
+  }
+
+  close(): void {
+    this.pending = Buffer.alloc(0);
+  }
+
+  private readMetadata(): void {
+    if (this.state === 'marker') {
+      if (this.pending.length < STREAM_MARKER.length) {
+        return;
+      }
+      if (this.pending.toString('ascii', 0, 4) !== STREAM_MARKER) {
+        throw new InvalidData('missing flac stream marker');
+      }
+      this.pending = this.pending.subarray(4);
+      this.state = 'metadata';
+    }
+    while (this.state === 'metadata' && this.pending.length >= 4) {
+      const isLast = (this.pending[0] ?? 0) & 0x80;
+      const type = (this.pending[0] ?? 0) & 0x7f;
+      const length = this.pending.readUIntBE(1, 3);
+      if (this.pending.length < 4 + length) {
+        return;
+      }
+      const block = this.pending.subarray(4, 4 + length);
+      if (type === METADATA_STREAMINFO) {
+        if (length < STREAMINFO_BYTES) {
+          throw new InvalidData('invalid flac streaminfo');
+        }
+        this.info = readStreamInfo(block);
+        const format: AudioFormat = {
+          encoding: 'pcm_s16le',
+          sampleRateHz: this.info.sampleRateHz,
+          channels: this.info.channels,
+        };
+        validateFormat(format);
+        this._format = format;
+      } else if (!this.info) {
+        throw new InvalidData('flac streaminfo must come first');
+      }
+      this.pending = this.pending.subarray(4 + length);
+      if (isLast) {
+        if (!this.info) {
+          throw new InvalidData('missing flac streaminfo');
+        }
+        this.state = 'frames';
+      }
+    }
+  }
+
+  /**
+   * @returns the frame's samples, or null when the rest of it is yet to arrive
+   */
+  private readFrame(): Buffer | null {
+    const info = this.info;
+    if (!info) {
+      throw new Error('expected flac streaminfo');
+    }
+    const reader = new BitReader(this.pending);
+    let header: FrameHeader;
+    let channels: number[][];
+    try {
+      header = readFrameHeader(reader, this.pending, info);
+      if (
+        header.sampleRateHz !== info.sampleRateHz ||
+        header.channels !== info.channels
+      ) {
+        throw new InvalidData('flac frame changes the stream format');
+      }
+      channels = [];
+      for (let channel = 0; channel < header.channels; channel++) {
+        // the side channel has an extra bit
+        const isSide =
+          (header.channelAssignment === CHANNELS_LEFT_SIDE && channel === 1) ||
+          (header.channelAssignment === CHANNELS_RIGHT_SIDE && channel === 0) ||
+          (header.channelAssignment === CHANNELS_MID_SIDE && channel === 1);
+        channels.push(
+          readSubframe(
+            reader,
+            header.blockSize,
+            header.bitsPerSample + (isSide ? 1 : 0),
+          ),
+        );
+      }
+      reader.alignToByte();
+      const frameEnd = reader.bytePosition;
+      if (
+        reader.readBits(16) !== flacCrc16(this.pending.subarray(0, frameEnd))
+      ) {
+        throw new InvalidData('flac frame checksum mismatch');
+      }
+    } catch (err) {
+      if (err instanceof IncompleteData) {
+        return null;
+      }
+      throw err;
+    }
+    this.pending = this.pending.subarray(reader.bytePosition);
+    return toPcm16(decorrelate(header, channels), header.bitsPerSample);
+  }
+}
+
+function toPcm16(channels: number[][], bitsPerSample: number): Buffer {
+  const frames = channels[0]?.length ?? 0;
+  const pcm = Buffer.alloc(frames * channels.length * 2);
+  const scale = 2 ** (16 - bitsPerSample);
+  for (let frame = 0; frame < frames; frame++) {
+    channels.forEach((samples, channel) => {
+      const sample = Math.floor((samples[frame] ?? 0) * scale);
+      pcm.writeInt16LE(
+        Math.max(-32_768, Math.min(32_767, sample)),
+        (frame * channels.length + channel) * 2,
+      );
+    });
+  }
+  return pcm;
+}
+
+/** frame and sample numbers are coded like UTF-8 */
+function writeCodedNumber(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (6 * continuation + (6 - continuation))) {
+    continuation++;
+  }
+  const leading = 0xff00 >> (continuation + 1);
+  writer.writeBits(
+    (leading & 0xff) | Math.floor(value / 2 ** (6 * continuation)),
+    8,
+  );
+  for (let ix = continuation - 1; ix >= 0; ix--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * ix)) & 0x3f), 8);
+  }
+}
+
+/**
+ * FLAC stream of 16-bit PCM in verbatim frames, e.g. to build test streams.
+ */
+export function createFlacStream(
+  format: AudioFormat,
+  pcm: Buffer,
+  blockSize = 4096,
+): Buffer {
+  const frameBytes = format.channels * 2;
+  const totalSamples = pcm.length / frameBytes;
+  const info = new BitWriter();
+  info.writeBits(blockSize, 16);
+  info.writeBits(blockSize, 16);
+  // frame sizes unknown
+  info.writeBits(0, 24);
+  info.writeBits(0, 24);
+  info.writeBits(format.sampleRateHz, 20);
+  info.writeBits(format.channels - 1, 3);
+  info.writeBits(15, 5);
+  info.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  info.writeBits(totalSamples % 2 ** 32, 32);
+  const streamInfo = Buffer.concat([info.toBuffer(), Buffer.alloc(16)]);
+  const blockHeader = Buffer.from([0x80 | METADATA_STREAMINFO, 0, 0, 0]);
+  blockHeader.writeUIntBE(streamInfo.length, 1, 3);
+
+  const frames: Buffer[] = [];
+  for (let start = 0; start < totalSamples; start += blockSize) {
+    const samples = Math.min(blockSize, totalSamples - start);
+    const frame = new BitWriter();
+    frame.writeBits(FRAME_SYNC, 14);
+    frame.writeBits(0, 2);
+    // block size in 16 bits after the header, rate from streaminfo
+    frame.writeBits(7, 4);
+    frame.writeBits(0, 4);
+    frame.writeBits(format.channels - 1, 4);
+    // 16 bits per sample
+    frame.writeBits(4, 3);
+    frame.writeBits(0, 1);
+    writeCodedNumber(frame, start / blockSize);
+    frame.writeBits(samples - 1, 16);
+    const header = frame.toBuffer();
+    frame.writeBits(flacCrc8(header), 8);
+    for (let channel = 0; channel < format.channels; channel++) {
+      // verbatim subframe, no wasted bits
+      frame.writeBits(0b00000010, 8);
+      for (let ix = 0; ix < samples; ix++) {
+        frame.writeBits(
+          pcm.readInt16LE((start + ix) * frameBytes + channel * 2),
+          16,
+        );
+      }
+    }
+    const body = frame.toBuffer();
+    const crc = Buffer.alloc(2);
+    crc.writeUInt16BE(flacCrc16(body));
+    frames.push(body, crc);
+  }
+  return Buffer.concat([
+    Buffer.from(STREAM_MARKER),
+    blockHeader,
+    streamInfo,
+    ...frames,
+  ]);
+}
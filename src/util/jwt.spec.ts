@@ -0,0 +1,124 @@
+import crypto from 'node:crypto';
+import { describe, expect, it } from '@jest/globals';
+import { decodeJwt, parseJwks, signJwt, verifyJwt } from '@util/jwt';
+
+const SECRET = 'secret';
+const NOW_SEC = 1_700_000_000;
+
+function generateJwks(type: 'rsa' | 'ec', kid: string) {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwks = parseJwks({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid }],
+  });
+  return { privateKey, jwks };
+}
+
+describe('jwt', () => {
+  it('should verify HS256', () => {
+    const token = signJwt({ sub: '1' }, { alg: 'HS256', secret: SECRET });
+    expect(verifyJwt(token, { secret: SECRET })).toEqual({ sub: '1' });
+  });
+  it('should reject HS256 with wrong secret', () => {
+    const token = signJwt({ sub: '1' }, { alg: 'HS256', secret: 'other' });
+    expect(() => verifyJwt(token, { secret: SECRET })).toThrow(
+      'Invalid token signature',
+    );
+  });
+  it('should reject HS256 when no secret is configured', () => {
+    const token = signJwt({ sub: '1' }, { alg: 'HS256', secret: SECRET });
+    expect(() => verifyJwt(token, {})).toThrow('HS256 tokens are not accepted');
+  });
+  it.each(['rsa', 'ec'] as const)('should verify %s against jwks', (type) => {
+    const { privateKey, jwks } = generateJwks(type, 'key-1');
+    const token = signJwt(
+      { sub: '1' },
+      { alg: type === 'rsa' ? 'RS256' : 'ES256', privateKey, kid: 'key-1' },
+    );
+    expect(verifyJwt(token, { jwks })).toEqual({ sub: '1' });
+  });
+  it('should reject key from another jwks', () => {
+    const { privateKey } = generateJwks('ec', 'key-1');
+    const { jwks } = generateJwks('ec', 'key-1');
+    const token = signJwt(
+      { sub: '1' },
+      { alg: 'ES256', privateKey, kid: 'key-1' },
+    );
+    expect(() => verifyJwt(token, { jwks })).toThrow('Invalid token signature');
+  });
+  it('should reject unknown kid', () => {
+    const { privateKey, jwks } = generateJwks('ec', 'key-1');
+    const token = signJwt(
+      { sub: '1' },
+      { alg: 'ES256', privateKey, kid: 'key-2' },
+    );
+    expect(() => verifyJwt(token, { jwks })).toThrow(
+      'No matching key for token',
+    );
+  });
+  it('should reject malformed', () => {
+    expect(() => verifyJwt('a', { secret: SECRET })).toThrow('Malformed token');
+    expect(() => verifyJwt('a.b.c', { secret: SECRET })).toThrow(
+      'Malformed token header',
+    );
+  });
+  it('should reject unsupported algorithm', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString(
+      'base64url',
+    );
+    expect(() => decodeJwt(`${header}.e30.x`)).toThrow(
+      'Unsupported token algorithm: none',
+    );
+  });
+  it('should reject expired', () => {
+    const token = signJwt(
+      { sub: '1', exp: NOW_SEC },
+      { alg: 'HS256', secret: SECRET },
+    );
+    expect(() => verifyJwt(token, { secret: SECRET, nowSec: NOW_SEC })).toThrow(
+      'Token expired',
+    );
+    expect(
+      verifyJwt(token, {
+        secret: SECRET,
+        nowSec: NOW_SEC,
+        clockToleranceSec: 5,
+      }),
+    ).toEqual({ sub: '1', exp: NOW_SEC });
+  });
+  it('should reject not yet valid', () => {
+    const token = signJwt(
+      { sub: '1', nbf: NOW_SEC + 10 },
+      { alg: 'HS256', secret: SECRET },
+    );
+    expect(() => verifyJwt(token, { secret: SECRET, nowSec: NOW_SEC })).toThrow(
+      'Token not yet valid',
+    );
+  });
+  it('should check audience and issuer', () => {
+    const token = signJwt(
+      { sub: '1', aud: ['a', 'b'], iss: 'issuer' },
+      { alg: 'HS256', secret: SECRET },
+    );
+    expect(() =>
+      verifyJwt(token, { secret: SECRET, audience: 'b', issuer: 'issuer' }),
+    ).not.toThrow();
+    expect(() => verifyJwt(token, { secret: SECRET, audience: 'c' })).toThrow(
+      'Invalid token audience',
+    );
+    expect(() => verifyJwt(token, { secret: SECRET, issuer: 'other' })).toThrow(
+      'Invalid token issuer',
+    );
+  });
+  it('should check signature before claims', () => {
+    const token = signJwt(
+      { sub: '1', exp: NOW_SEC },
+      { alg: 'HS256', secret: 'other' },
+    );
+    expect(() => verifyJwt(token, { secret: SECRET, nowSec: NOW_SEC })).toThrow(
+      'Invalid token signature',
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import crypto, { JsonWebKey, KeyObject } from 'node:crypto';
+import fs from 'node:fs';
+import {
+  InvalidTokenClaimError,
+  InvalidTokenSignatureError,
+  MalformedTokenError,
+  TokenExpiredError,
+} from '@util/error';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export const SUPPORTED_JWT_ALGORITHMS: readonly JwtAlgorithm[] = [
+  'HS256',
+  'RS256',
+  'ES256',
+];
+
+export interface JwtHeader {
+  alg: JwtAlgorithm;
+  typ?: string;
+  kid?: string;
+}
+
+export interface JwtPayload {
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwkEntry {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+export interface VerifyJwtOptions {
+  /** shared secret for HS256, HS256 tokens are rejected when not set */
+  secret?: string;
+  /** public keys for RS256 / ES256, asymmetric tokens are rejected when empty */
+  jwks?: readonly JwkEntry[];
+  audience?: string;
+  issuer?: string;
+  clockToleranceSec?: number;
+  /** override for tests, seconds since epoch */
+  nowSec?: number;
+}
+
+export type SignJwtKey =
+  | { alg: 'HS256'; secret: string; kid?: string }
+  | { alg: 'RS256' | 'ES256'; privateKey: KeyObject; kid?: string };
+
+interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtPayload;
+  signingInput: string;
+  signature: Buffer;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isJwtAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return SUPPORTED_JWT_ALGORITHMS.includes(alg as JwtAlgorithm);
+}
+
+function parseSegment(segment: string, name: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (_err) {
+    throw new MalformedTokenError(`Malformed token ${name}`);
+  }
+  if (!isRecord(parsed)) {
+    throw new MalformedTokenError(`Malformed token ${name}`);
+  }
+  return parsed;
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return typeof value === 'undefined' || typeof value === 'number';
+}
+
+export function decodeJwt(token: string): DecodedJwt {
+  const segments = token.split('.');
+  if (segments.length !== 3 || segments.some((segment) => !segment)) {
+    throw new MalformedTokenError();
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments as [
+    string,
+    string,
+    string,
+  ];
+  const header = parseSegment(encodedHeader, 'header');
+  if (!isJwtAlgorithm(header.alg)) {
+    throw new MalformedTokenError(
+      `Unsupported token algorithm: ${String(header.alg)}`,
+    );
+  }
+  const payload = parseSegment(encodedPayload, 'payload');
+  if (
+    !isOptionalNumber(payload.exp) ||
+    !isOptionalNumber(payload.nbf) ||
+    !isOptionalNumber(payload.iat)
+  ) {
+    throw new MalformedTokenError('Malformed token time claims');
+  }
+  return {
+    header: header as unknown as JwtHeader,
+    payload: payload as JwtPayload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: Buffer.from(encodedSignature, 'base64url'),
+  };
+}
+
+function hmacSha256(secret: string, signingInput: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(signingInput).digest();
+}
+
+function expectedKeyType(alg: JwtAlgorithm): 'rsa' | 'ec' | null {
+  switch (alg) {
+    case 'RS256':
+      return 'rsa';
+    case 'ES256':
+      return 'ec';
+    default:
+      return null;
+  }
+}
+
+function candidateKeys(
+  header: JwtHeader,
+  jwks: readonly JwkEntry[],
+): JwkEntry[] {
+  const keyType = expectedKeyType(header.alg);
+  return jwks.filter(
+    (entry) =>
+      entry.key.asymmetricKeyType === keyType &&
+      (!entry.alg || entry.alg === header.alg) &&
+      (!header.kid || entry.kid === header.kid),
+  );
+}
+
+function verifySignature(decoded: DecodedJwt, opt: VerifyJwtOptions): void {
+  const { header, signingInput, signature } = decoded;
+  if (header.alg === 'HS256') {
+    if (!opt.secret) {
+      throw new InvalidTokenSignatureError('HS256 tokens are not accepted');
+    }
+    const expected = hmacSha256(opt.secret, signingInput);
+    if (
+      expected.length !== signature.length ||
+      !crypto.timingSafeEqual(expected, signature)
+    ) {
+      throw new InvalidTokenSignatureError();
+    }
+    return;
+  }
+  const keys = candidateKeys(header, opt.jwks ?? []);
+  if (keys.length === 0) {
+    throw new InvalidTokenSignatureError('No matching key for token');
+  }
+  const verified = keys.some((entry) =>
+    crypto.verify(
+      'sha256',
+      Buffer.from(signingInput),
+      // JWS uses raw r||s signatures for ECDSA rather than DER
+      header.alg === 'ES256'
+        ? { key: entry.key, dsaEncoding: 'ieee-p1363' }
+        : entry.key,
+      signature,
+    ),
+  );
+  if (!verified) {
+    throw new InvalidTokenSignatureError();
+  }
+}
+
+function verifyClaims(payload: JwtPayload, opt: VerifyJwtOptions): void {
+  const nowSec = opt.nowSec ?? Math.floor(Date.now() / 1000);
+  const tolerance = opt.clockToleranceSec ?? 0;
+  if (typeof payload.exp === 'number' && nowSec - tolerance >= payload.exp) {
+    throw new TokenExpiredError();
+  }
+  if (typeof payload.nbf === 'number' && nowSec + tolerance < payload.nbf) {
+    throw new InvalidTokenClaimError('Token not yet valid');
+  }
+  if (opt.audience !== undefined) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(opt.audience)) {
+      throw new InvalidTokenClaimError('Invalid token audience');
+    }
+  }
+  if (opt.issuer !== undefined && payload.iss !== opt.issuer) {
+    throw new InvalidTokenClaimError('Invalid token issuer');
+  }
+}
+
+/**
+ * Verifies the signature and registered claims of a compact JWS token.
+ *
+ * Signature is checked before any claims so an expired but forged token is
+ * reported as a bad signature rather than as expired.
+ *
+ * @throws {MalformedTokenError} token can't be decoded
+ * @throws {InvalidTokenSignatureError} signature doesn't match any configured key
+ * @throws {TokenExpiredError} `exp` is in the past
+ * @throws {InvalidTokenClaimError} `nbf`, `aud` or `iss` don't match
+ */
+export function verifyJwt(token: string, opt: VerifyJwtOptions): JwtPayload {
+  const decoded = decodeJwt(token);
+  verifySignature(decoded, opt);
+  verifyClaims(decoded.payload, opt);
+  return decoded.payload;
+}
+
+export function signJwt(payload: JwtPayload, key: SignJwtKey): string {
+  const header: JwtHeader = {
+    alg: key.alg,
+    typ: 'JWT',
+    ...(key.kid !== undefined && { kid: key.kid }),
+  };
+  const signingInput = [header, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.');
+  let signature: Buffer;
+  if (key.alg === 'HS256') {
+    signature = hmacSha256(key.secret, signingInput);
+  } else {
+    signature = crypto.sign(
+      'sha256',
+      Buffer.from(signingInput),
+      key.alg === 'ES256'
+        ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' }
+        : key.privateKey,
+    );
+  }
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+export function parseJwks(jwks: unknown): JwkEntry[] {
+  if (!isRecord(jwks) || !Array.isArray(jwks.keys)) {
+    throw new Error('invalid JWKS: expected { keys: [] }');
+  }
+  return jwks.keys.map((jwk: unknown) => {
+    if (!isRecord(jwk)) {
+      throw new Error('invalid JWKS: key must be an object');
+    }
+    return {
+      kid: typeof jwk.kid === 'string' ? jwk.kid : undefined,
+      alg: typeof jwk.alg === 'string' ? jwk.alg : undefined,
+      key: crypto.createPublicKey({
+        key: jwk as JsonWebKey,
+        format: 'jwk',
+      }),
+    };
+  });
+}
+
+export function loadJwksFile(path: string): JwkEntry[] {
+  return parseJwks(JSON.parse(fs.readFileSync(path, 'utf8')));
+}
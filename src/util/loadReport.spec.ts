@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  distribution,
+  formatLoadSummary,
+  LoadRecorder,
+  percentile,
+} from '@util/loadReport';
+
+describe('loadReport', () => {
+  it('should pick nearest rank percentiles', () => {
+    const sorted = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(95);
+    expect(percentile(sorted, 99)).toBe(99);
+    expect(percentile(sorted, 100)).toBe(100);
+    expect(percentile([7], 0)).toBe(7);
+    expect(() => percentile([], 50)).toThrow('expected values');
+  });
+
+  it('should describe unsorted values', () => {
+    expect(distribution([30, 10, 20])).toEqual({
+      count: 3,
+      min: 10,
+      mean: 20,
+      p50: 20,
+      p95: 30,
+      p99: 30,
+      max: 30,
+    });
+    expect(distribution([])).toBeNull();
+  });
+
+  it('should summarize a run', () => {
+    const recorder = new LoadRecorder();
+    recorder.recordReady(12);
+    recorder.recordConnectFailed('PolicyViolation (1008): Unauthorized');
+    for (let i = 0; i < 4; i++) {
+      recorder.recordSent(8000, 250);
+    }
+    recorder.recordResult([100, 50], 500, 5);
+    recorder.recordResult([80], 250, null);
+    recorder.recordRejected('packets per second');
+    recorder.recordOutcome('completed');
+
+    const summary = recorder.summary(1000);
+    expect(summary).toMatchObject({
+      users: { connected: 1, failed: 1 },
+      packets: { sent: 4, transcribed: 3, rejected: 1, lost: 0 },
+      bytesSent: 32_000,
+      audioMsSent: 1000,
+      throughput: { packetsPerSec: 3, realtimeFactor: 0.75 },
+      latencyMs: { count: 3, p50: 80, max: 100 },
+      queueWaitMs: { count: 1, p99: 5 },
+      outcomes: {
+        completed: 1,
+        'PolicyViolation (1008): Unauthorized': 1,
+      },
+      rejections: { 'packets per second': 1 },
+    });
+    const text = formatLoadSummary(summary);
+    expect(text).toContain(
+      'packets: 4 sent, 3 transcribed, 1 rejected, 0 lost',
+    );
+    expect(text).toContain('latency: p50 80ms, p95 100ms, p99 100ms');
+    expect(text).toContain('  completed: 1');
+  });
+});
@@ -0,0 +1,188 @@
+export interface Distribution {
+  count: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadSummary {
+  elapsedMs: number;
+  users: { connected: number; failed: number };
+  packets: {
+    sent: number;
+    /** covered by a final result */
+    transcribed: number;
+    rejected: number;
+    /** neither transcribed nor rejected by the end */
+    lost: number;
+  };
+  bytesSent: number;
+  audioMsSent: number;
+  throughput: {
+    packetsPerSec: number;
+    /** audio ms transcribed per ms of the run, how many real time streams the server kept up with */
+    realtimeFactor: number;
+  };
+  timeToReadyMs: Distribution | null;
+  /** from sending a packet to the final result covering it */
+  latencyMs: Distribution | null;
+  /** time packets waited in the server's queue before being transcribed */
+  queueWaitMs: Distribution | null;
+  /** how each virtual user's connection ended */
+  outcomes: Record<string, number>;
+  /** rejected packets by the limit they hit */
+  rejections: Record<string, number>;
+}
+
+/**
+ * Nearest rank percentile of ascending `sorted` values.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    throw new Error('expected values');
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * @returns null when there are no values
+ */
+export function distribution(values: number[]): Distribution | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    mean: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Collects the measurements of a load test run, shared by all of its virtual users.
+ */
+export class LoadRecorder {
+  private readonly readyMs: number[] = [];
+  private readonly latencyMs: number[] = [];
+  private readonly queueWaitMs: number[] = [];
+  private readonly outcomes: Record<string, number> = {};
+  private readonly rejections: Record<string, number> = {};
+  private failed = 0;
+  private sent = 0;
+  private transcribed = 0;
+  private rejected = 0;
+  private bytesSent = 0;
+  private audioMsSent = 0;
+  private audioMsTranscribed = 0;
+
+  recordReady(ms: number): void {
+    this.readyMs.push(ms);
+  }
+
+  recordConnectFailed(outcome: string): void {
+    this.failed += 1;
+    increment(this.outcomes, outcome);
+  }
+
+  recordSent(bytes: number, audioMs: number): void {
+    this.sent += 1;
+    this.bytesSent += bytes;
+    this.audioMsSent += audioMs;
+  }
+
+  /**
+   * @param latenciesMs of every packet the result covered
+   * @param queuedMs null when the server didn't say
+   */
+  recordResult(
+    latenciesMs: number[],
+    audioMs: number,
+    queuedMs: number | null,
+  ): void {
+    this.transcribed += latenciesMs.length;
+    this.latencyMs.push(...latenciesMs);
+    this.audioMsTranscribed += audioMs;
+    if (queuedMs !== null) {
+      this.queueWaitMs.push(queuedMs);
+    }
+  }
+
+  recordRejected(limit: string): void {
+    this.rejected += 1;
+    increment(this.rejections, limit);
+  }
+
+  recordOutcome(outcome: string): void {
+    increment(this.outcomes, outcome);
+  }
+
+  summary(elapsedMs: number): LoadSummary {
+    return {
+      elapsedMs,
+      users: { connected: this.readyMs.length, failed: this.failed },
+      packets: {
+        sent: this.sent,
+        transcribed: this.transcribed,
+        rejected: this.rejected,
+        lost: this.sent - this.transcribed - this.rejected,
+      },
+      bytesSent: this.bytesSent,
+      audioMsSent: this.audioMsSent,
+      throughput: {
+        packetsPerSec:
+          elapsedMs > 0 ? (this.transcribed / elapsedMs) * 1000 : 0,
+        realtimeFactor: elapsedMs > 0 ? this.audioMsTranscribed / elapsedMs : 0,
+      },
+      timeToReadyMs: distribution(this.readyMs),
+      latencyMs: distribution(this.latencyMs),
+      queueWaitMs: distribution(this.queueWaitMs),
+      outcomes: { ...this.outcomes },
+      rejections: { ...this.rejections },
+    };
+  }
+}
+
+function formatDistribution(name: string, value: Distribution | null): string {
+  if (!value) {
+    return `${name}: no samples`;
+  }
+  const ms = (n: number) => `${Math.round(n)}ms`;
+  return `${name}: p50 ${ms(value.p50)}, p95 ${ms(value.p95)}, p99 ${ms(value.p99)}, max ${ms(value.max)} (n=${value.count}, mean ${ms(value.mean)})`;
+}
+
+function formatCounts(name: string, counts: Record<string, number>): string[] {
+  const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+  if (entries.length === 0) {
+    return [];
+  }
+  return [`${name}:`, ...entries.map(([key, count]) => `  ${key}: ${count}`)];
+}
+
+export function formatLoadSummary(summary: LoadSummary): string {
+  const { users, packets, throughput } = summary;
+  return [
+    `elapsed: ${(summary.elapsedMs / 1000).toFixed(1)}s`,
+    `users: ${users.connected} connected, ${users.failed} failed`,
+    `packets: ${packets.sent} sent, ${packets.transcribed} transcribed, ${packets.rejected} rejected, ${packets.lost} lost`,
+    `sent: ${summary.bytesSent} bytes, ${(summary.audioMsSent / 1000).toFixed(1)}s of audio`,
+    `throughput: ${throughput.packetsPerSec.toFixed(1)} packets/s, ${throughput.realtimeFactor.toFixed(2)}x real time`,
+    formatDistribution('time to ready', summary.timeToReadyMs),
+    formatDistribution('latency', summary.latencyMs),
+    formatDistribution('queue wait', summary.queueWaitMs),
+    ...formatCounts('outcomes', summary.outcomes),
+    ...formatCounts('rejections', summary.rejections),
+  ].join('\n');
+}
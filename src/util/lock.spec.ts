@@ -0,0 +1,46 @@
+import { describe, expect, it } from '@jest/globals';
+import { delay } from '@util/delay';
+import { Mutex, SoftLock } from '@util/lock';
+
+describe('lock', () => {
+  describe('SoftLock', () => {
+    it('should lock / unlock', () => {
+      const lock = new SoftLock(1);
+      expect(lock.lock()).toBe(true);
+      expect(lock.lock()).toBe(false);
+      expect(lock.isLocked).toBe(true);
+      expect(lock.unlock()).toBe(true);
+      expect(lock.isLocked).toBe(false);
+      expect(lock.inner).toBe(1);
+    });
+  });
+  describe('Mutex', () => {
+    it('should run exclusively in order', async () => {
+      const mutex = new Mutex();
+      const order: number[] = [];
+      let running = 0;
+      await Promise.all(
+        [30, 10, 0].map((ms, ix) =>
+          mutex.runExclusive(async () => {
+            running += 1;
+            expect(running).toBe(1);
+            await delay(ms);
+            order.push(ix);
+            running -= 1;
+          }),
+        ),
+      );
+      expect(order).toEqual([0, 1, 2]);
+      expect(mutex.isLocked).toBe(false);
+    });
+    it('should release on error', async () => {
+      const mutex = new Mutex();
+      await expect(
+        mutex.runExclusive(() => {
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+      await expect(mutex.runExclusive(() => 1)).resolves.toBe(1);
+    });
+  });
+});
@@ -22,3 +22,25 @@ export class SoftLock<T> {
     return this._inner;
   }
 }
+
+// serializes async critical sections, callers run in the order they called `runExclusive`
+export class Mutex {
+  private _tail: Promise<void> = Promise.resolve();
+  private _pending = 0;
+  async runExclusive<T>(fn: () => T | Promise<T>): Promise<T> {
+    const previous = this._tail;
+    let release: () => void = () => {};
+    this._tail = new Promise<void>((resolve) => (release = resolve));
+    this._pending += 1;
+    try {
+      await previous;
+      return await fn();
+    } finally {
+      this._pending -= 1;
+      release();
+    }
+  }
+  get isLocked(): boolean {
+    return this._pending > 0;
+  }
+}
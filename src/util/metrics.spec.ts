@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '@util/metrics';
+
+describe('metrics', () => {
+  it('should render counters', () => {
+    const registry = new MetricsRegistry();
+    const packets = registry.register(
+      new Counter('packets_total', 'Packets received'),
+    );
+    const closes = registry.register(
+      new Counter('closes_total', 'Closed sockets', ['code']),
+    );
+    expect(registry.render()).toBe(
+      [
+        '# HELP packets_total Packets received',
+        '# TYPE packets_total counter',
+        'packets_total 0',
+        '# HELP closes_total Closed sockets',
+        '# TYPE closes_total counter',
+        '',
+      ].join('\n'),
+    );
+    packets.inc();
+    packets.inc(2);
+    closes.inc(1, { code: 'Unauthorized' });
+    closes.inc(1, { code: 'say "hi"\n' });
+    closes.inc(1, { code: 'Unauthorized' });
+    expect(registry.render()).toContain('packets_total 3\n');
+    expect(registry.render()).toContain(
+      'closes_total{code="Unauthorized"} 2\ncloses_total{code="say \\"hi\\"\\n"} 1\n',
+    );
+    expect(() => packets.inc(-1)).toThrow("can't decrease");
+  });
+
+  it('should collect gauges when rendered', () => {
+    const registry = new MetricsRegistry();
+    let sockets = 1;
+    registry.register(new Gauge('sockets', 'Open sockets', () => sockets));
+    registry.register(
+      new Gauge('queued', 'Queued packets', () => [
+        { labels: { user_id: '1' }, value: 3 },
+      ]),
+    );
+    sockets = 2;
+    expect(registry.render()).toContain('sockets 2\n');
+    expect(registry.render()).toContain('queued{user_id="1"} 3\n');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.register(
+      new Histogram('latency_seconds', 'Latency', [1, 0.1]),
+    );
+    latency.observe(0.05);
+    latency.observe(0.5);
+    latency.observe(5);
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        'latency_seconds_sum 5.55',
+        'latency_seconds_count 3',
+      ].join('\n'),
+    );
+  });
+
+  it('should not register a name twice', () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter('packets_total', 'Packets'));
+    expect(() =>
+      registry.register(new Counter('packets_total', 'Packets')),
+    ).toThrow('metric already registered: packets_total');
+  });
+});
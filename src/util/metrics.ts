@@ -0,0 +1,220 @@
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+export interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  /** lines of the metric's samples in the text format */
+  lines(): string[];
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+function formatSample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const formatted =
+    entries.length > 0
+      ? `{${entries.map(([key, label]) => `${key}="${escapeLabelValue(label)}"`).join(',')}}`
+      : '';
+  return `${name}${formatted} ${formatValue(value)}`;
+}
+
+// same labels in any order are the same series
+function labelsKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/**
+ * Only goes up, e.g. packets received.
+ * Without `labelNames` it reads 0 until first incremented, labelled series appear when first incremented.
+ */
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private readonly series = new Map<string, Sample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = [],
+  ) {
+    if (labelNames.length === 0) {
+      this.series.set(labelsKey({}), { labels: {}, value: 0 });
+    }
+  }
+
+  inc(value = 1, labels: Labels = {}): void {
+    if (value < 0) {
+      throw new Error(`counter ${this.name} can't decrease`);
+    }
+    const key = labelsKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(({ labels, value }) =>
+      formatSample(this.name, labels, value),
+    );
+  }
+}
+
+/**
+ * Read from `collect` when scraped, for values the server already keeps track of like connected sockets.
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => number | Sample[],
+  ) {}
+
+  lines(): string[] {
+    const collected = this.collect();
+    const samples =
+      typeof collected === 'number'
+        ? [{ labels: {}, value: collected }]
+        : collected;
+    return samples.map(({ labels, value }) =>
+      formatSample(this.name, labels, value),
+    );
+  }
+}
+
+type HistogramSeries = {
+  labels: Labels;
+  // observations per bucket, not cumulative
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+/**
+ * Counts observations into cumulative `le` buckets, with their sum and count.
+ */
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    buckets: number[],
+    readonly labelNames: readonly string[] = [],
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    if (labelNames.length === 0) {
+      this.getSeries({});
+    }
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const series = this.getSeries(labels);
+    const index = this.buckets.findIndex((bucket) => value <= bucket);
+    // past the last bucket only counts towards +Inf
+    if (index !== -1) {
+      series.counts[index] += 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].flatMap(
+      ({ labels, counts, sum, count }) => {
+        let cumulative = 0;
+        const buckets = this.buckets.map((bucket, i) => {
+          cumulative += counts[i];
+          return formatSample(
+            `${this.name}_bucket`,
+            { ...labels, le: formatValue(bucket) },
+            cumulative,
+          );
+        });
+        return [
+          ...buckets,
+          formatSample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, count),
+          formatSample(`${this.name}_sum`, labels, sum),
+          formatSample(`${this.name}_count`, labels, count),
+        ];
+      },
+    );
+  }
+
+  private getSeries(labels: Labels): HistogramSeries {
+    const key = labelsKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels: { ...labels },
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * Renders its metrics in the Prometheus text exposition format.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  /**
+   * @throws Error when a metric with the same name is already registered
+   */
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    return [...this.metrics.values()]
+      .map((metric) =>
+        [
+          `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+          `# TYPE ${metric.name} ${metric.type}`,
+          ...metric.lines(),
+        ]
+          .map((line) => `${line}\n`)
+          .join(''),
+      )
+      .join('');
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { createOggPages, OggDemuxer, oggCrc32 } from '@util/ogg';
+
+function packet(length: number, fill: number): Buffer {
+  return Buffer.alloc(length, fill);
+}
+
+function page(
+  sequence: number,
+  lacing: number[],
+  flags = 0,
+  serial = 1,
+): Buffer {
+  const header = Buffer.alloc(27 + lacing.length);
+  header.write('OggS', 0, 'ascii');
+  header[5] = flags;
+  header.writeUInt32LE(serial, 14);
+  header.writeUInt32LE(sequence, 18);
+  header[26] = lacing.length;
+  lacing.forEach((value, ix) => (header[27 + ix] = value));
+  const body = Buffer.concat(lacing.map((value) => packet(value, sequence)));
+  const result = Buffer.concat([header, body]);
+  result.writeUInt32LE(oggCrc32(result), 22);
+  return result;
+}
+
+describe('OggDemuxer', () => {
+  it('should split pages into packets as bytes arrive', () => {
+    const packets = [packet(10, 1), packet(600, 2), packet(255, 3)];
+    const stream = createOggPages(packets);
+    const demuxer = new OggDemuxer();
+    const received: Buffer[] = [];
+    for (let offset = 0; offset < stream.length; offset += 50) {
+      received.push(...demuxer.push(stream.subarray(offset, offset + 50)));
+    }
+    expect(received).toEqual(packets);
+  });
+  it('should join packets continued on the next page', () => {
+    const demuxer = new OggDemuxer();
+    // a 255 lacing value means the packet goes on
+    expect(demuxer.push(page(0, [3, 255]))).toEqual([packet(3, 0)]);
+    expect(demuxer.push(page(1, [10], 0x01))).toEqual([
+      Buffer.concat([packet(255, 0), packet(10, 1)]),
+    ]);
+    expect(() => demuxer.push(page(2, [255]))).not.toThrow();
+    expect(() => demuxer.push(page(3, [1]))).toThrow(
+      'ogg packet continues on a page not marked continued',
+    );
+  });
+  it('should reject corrupt, missing and foreign pages', () => {
+    const corrupt = page(0, [10]);
+    corrupt[30] ^= 0xff;
+    expect(() => new OggDemuxer().push(corrupt)).toThrow(
+      'ogg page checksum mismatch',
+    );
+    expect(() =>
+      new OggDemuxer().push(Buffer.concat([page(0, [1]), page(2, [1])])),
+    ).toThrow('missing ogg page: expected 1, got 2');
+    expect(() =>
+      new OggDemuxer().push(Buffer.concat([page(0, [1]), page(1, [1], 0, 2)])),
+    ).toThrow('multiplexed or chained ogg streams are not supported');
+    expect(() => new OggDemuxer().push(Buffer.alloc(30))).toThrow(
+      'invalid ogg page',
+    );
+  });
+});
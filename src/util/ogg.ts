@@ -0,0 +1,177 @@
+import { InvalidData } from '@util/error';
+
+const CAPTURE_PATTERN = 'OggS';
+const PAGE_HEADER_BYTES = 27;
+const FLAG_CONTINUED = 0x01;
+const FLAG_FIRST_PAGE = 0x02;
+const FLAG_LAST_PAGE = 0x04;
+// well over any audio packet, bounds what a stream that never ends its packet can buffer
+const MAX_PACKET_BYTES = 1024 * 1024;
+// a full header and 255 segments of 255 bytes
+const MAX_PAGE_BYTES = PAGE_HEADER_BYTES + 255 + 255 * 255;
+
+const CRC32_TABLE: Uint32Array = (() => {
+  const table = new Uint32Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[byte] = crc >>> 0;
+  }
+  return table;
+})();
+
+/** the unreflected CRC-32 of Ogg pages, computed with the checksum field zeroed */
+export function oggCrc32(page: Buffer): number {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ (CRC32_TABLE[((crc >>> 24) ^ byte) & 0xff] ?? 0)) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Splits an Ogg stream into its packets as the stream's bytes arrive.
+ * Pages may span the pushed chunks and packets may span pages, only complete packets are returned.
+ * Only a single logical stream is read, multiplexed or chained streams are rejected.
+ */
+export class OggDemuxer {
+  private pending: Buffer = Buffer.alloc(0);
+  // start of a packet continued on the next page
+  private partialPacket: Buffer[] = [];
+  private partialPacketBytes = 0;
+  private serial: number | null = null;
+  private nextSequence = 0;
+
+  /**
+   * @throws InvalidData when a page is corrupt, missing or from another stream
+   */
+  push(data: Buffer): Buffer[] {
+    this.pending = Buffer.concat([this.pending, data]);
+    const packets: Buffer[] = [];
+    for (;;) {
+      const pageLength = this.completePageLength();
+      if (pageLength === null) {
+        if (this.pending.length > MAX_PAGE_BYTES) {
+          throw new InvalidData(
+            `ogg stream buffered over ${MAX_PAGE_BYTES} bytes without a complete page`,
+          );
+        }
+        return packets;
+      }
+      const page = this.pending.subarray(0, pageLength);
+      this.pending = this.pending.subarray(pageLength);
+      packets.push(...this.readPage(page));
+    }
+  }
+
+  /**
+   * @returns the length of the page at the start of the pending bytes, null until all of it arrived
+   */
+  private completePageLength(): number | null {
+    if (this.pending.length < PAGE_HEADER_BYTES) {
+      return null;
+    }
+    if (this.pending.toString('ascii', 0, 4) !== CAPTURE_PATTERN) {
+      throw new InvalidData('invalid ogg page');
+    }
+    const segments = this.pending[26] ?? 0;
+    const headerLength = PAGE_HEADER_BYTES + segments;
+    if (this.pending.length < headerLength) {
+      return null;
+    }
+    let bodyLength = 0;
+    for (let ix = 0; ix < segments; ix++) {
+      bodyLength += this.pending[PAGE_HEADER_BYTES + ix] ?? 0;
+    }
+    const pageLength = headerLength + bodyLength;
+    return this.pending.length < pageLength ? null : pageLength;
+  }
+
+  private readPage(page: Buffer): Buffer[] {
+    if (page[4] !== 0) {
+      throw new InvalidData(`unsupported ogg version: ${page[4]}`);
+    }
+    const checksum = page.readUInt32LE(22);
+    const zeroed = Buffer.from(page);
+    zeroed.writeUInt32LE(0, 22);
+    if (oggCrc32(zeroed) !== checksum) {
+      throw new InvalidData('ogg page checksum mismatch');
+    }
+    const flags = page[5] ?? 0;
+    const serial = page.readUInt32LE(14);
+    const sequence = page.readUInt32LE(18);
+    if (this.serial === null) {
+      this.serial = serial;
+      this.nextSequence = sequence;
+    } else if (serial !== this.serial) {
+      throw new InvalidData(
+        'multiplexed or chained ogg streams are not supported',
+      );
+    }
+    if (sequence !== this.nextSequence) {
+      throw new InvalidData(
+        `missing ogg page: expected ${this.nextSequence}, got ${sequence}`,
+      );
+    }
+    this.nextSequence = sequence + 1;
+    if (!(flags & FLAG_CONTINUED) && this.partialPacket.length > 0) {
+      throw new InvalidData(
+        'ogg packet continues on a page not marked continued',
+      );
+    }
+
+    const segments = page[26] ?? 0;
+    const packets: Buffer[] = [];
+    let offset = PAGE_HEADER_BYTES + segments;
+    for (let ix = 0; ix < segments; ix++) {
+      const lacing = page[PAGE_HEADER_BYTES + ix] ?? 0;
+      this.partialPacket.push(page.subarray(offset, offset + lacing));
+      this.partialPacketBytes += lacing;
+      offset += lacing;
+      if (this.partialPacketBytes > MAX_PACKET_BYTES) {
+        throw new InvalidData(`ogg packet exceeds ${MAX_PACKET_BYTES} bytes`);
+      }
+      // a lacing value under 255 ends the packet
+      if (lacing < 255) {
+        packets.push(Buffer.concat(this.partialPacket));
+        this.partialPacket = [];
+        this.partialPacketBytes = 0;
+      }
+    }
+    return packets;
+  }
+}
+
+/**
+ * Pages of a single logical stream, e.g. to build test streams, each packet is laced onto its own page.
+ */
+export function createOggPages(packets: Buffer[], serial = 1): Buffer {
+  return Buffer.concat(
+    packets.map((packet, sequence) => {
+      const lacing: number[] = [];
+      let remaining = packet.length;
+      while (remaining >= 255) {
+        lacing.push(255);
+        remaining -= 255;
+      }
+      lacing.push(remaining);
+      if (lacing.length > 255) {
+        throw new Error('packet too large for a single ogg page');
+      }
+      const header = Buffer.alloc(PAGE_HEADER_BYTES + lacing.length);
+      header.write(CAPTURE_PATTERN, 0, 'ascii');
+      header[5] =
+        (sequence === 0 ? FLAG_FIRST_PAGE : 0) |
+        (sequence === packets.length - 1 ? FLAG_LAST_PAGE : 0);
+      header.writeUInt32LE(serial, 14);
+      header.writeUInt32LE(sequence, 18);
+      header[26] = lacing.length;
+      lacing.forEach((value, ix) => (header[PAGE_HEADER_BYTES + ix] = value));
+      const page = Buffer.concat([header, packet]);
+      page.writeUInt32LE(oggCrc32(page), 22);
+      return page;
+    }),
+  );
+}
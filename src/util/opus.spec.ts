@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import OpusScript from 'opusscript';
+import { InvalidData } from '@util/error';
+import { createOggPages } from '@util/ogg';
+import {
+  createOpusHead,
+  createOpusTags,
+  OggOpusDecoder,
+  OPUS_SAMPLE_RATE_HZ,
+} from '@util/opus';
+
+const FRAME_SAMPLES = 960;
+const PRE_SKIP = 312;
+
+/** 20ms Opus packets of a 440 Hz sine */
+function encodeSine(channels: number, frames: number): Buffer[] {
+  const encoder = new OpusScript(
+    OPUS_SAMPLE_RATE_HZ,
+    channels,
+    OpusScript.Application.AUDIO,
+  );
+  const packets: Buffer[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    const pcm = Buffer.alloc(FRAME_SAMPLES * channels * 2);
+    for (let ix = 0; ix < FRAME_SAMPLES; ix++) {
+      const sample = Math.round(
+        8_000 *
+          Math.sin(
+            (2 * Math.PI * 440 * (frame * FRAME_SAMPLES + ix)) /
+              OPUS_SAMPLE_RATE_HZ,
+          ),
+      );
+      for (let channel = 0; channel < channels; channel++) {
+        pcm.writeInt16LE(sample, (ix * channels + channel) * 2);
+      }
+    }
+    packets.push(encoder.encode(pcm, FRAME_SAMPLES));
+  }
+  encoder.delete();
+  return packets;
+}
+
+function oggOpus(channels: number, audioPackets: Buffer[]): Buffer {
+  return createOggPages([
+    createOpusHead({ channels, preSkip: PRE_SKIP, outputGain: 0 }),
+    createOpusTags(),
+    ...audioPackets,
+  ]);
+}
+
+describe('OggOpusDecoder', () => {
+  it.each([1, 2])(
+    'should decode %d channel streams to 48kHz PCM without the pre-skip',
+    (channels) => {
+      const decoder = new OggOpusDecoder();
+      const pcm = decoder.accept(oggOpus(channels, encodeSine(channels, 10)));
+      expect(decoder.format).toEqual({
+        encoding: 'pcm_s16le',
+        sampleRateHz: OPUS_SAMPLE_RATE_HZ,
+        channels,
+      });
+      expect(pcm.length).toBe((10 * FRAME_SAMPLES - PRE_SKIP) * channels * 2);
+      // past the codec's start up the sine comes through
+      let peak = 0;
+      for (let offset = pcm.length / 2; offset < pcm.length; offset += 2) {
+        peak = Math.max(peak, Math.abs(pcm.readInt16LE(offset)));
+      }
+      expect(peak).toBeGreaterThan(6_000);
+      decoder.close();
+    },
+  );
+  it('should decode pages split across packets', () => {
+    const stream = oggOpus(1, encodeSine(1, 5));
+    const decoder = new OggOpusDecoder();
+    const decoded: Buffer[] = [];
+    for (let offset = 0; offset < stream.length; offset += 100) {
+      decoded.push(decoder.accept(stream.subarray(offset, offset + 100)));
+    }
+    expect(Buffer.concat(decoded).length).toBe(
+      (5 * FRAME_SAMPLES - PRE_SKIP) * 2,
+    );
+    decoder.close();
+  });
+  it('should reject streams it can not decode', () => {
+    expect(() =>
+      new OggOpusDecoder().accept(createOggPages([Buffer.from('OpusTags')])),
+    ).toThrow('missing opus header');
+    const surround = createOpusHead({ channels: 6, preSkip: 0, outputGain: 0 });
+    surround[18] = 1;
+    expect(() =>
+      new OggOpusDecoder().accept(createOggPages([surround])),
+    ).toThrow('unsupported opus channel mapping family: 1');
+    const decoder = new OggOpusDecoder();
+    // a frame count byte claiming more frames than fit in the packet
+    expect(() =>
+      decoder.accept(oggOpus(1, [Buffer.from([0x03, 0xff, 0xff])])),
+    ).toThrow(InvalidData);
+    decoder.close();
+  });
+});
@@ -0,0 +1,164 @@
+import OpusScript from 'opusscript';
+import {
+  AudioFormat,
+  AudioPacketDecoder,
+  validateFormat,
+} from '@util/audioFormat';
+import { InvalidData } from '@util/error';
+import { OggDemuxer } from '@util/ogg';
+
+/** Opus always decodes at 48kHz, whatever the stream was recorded at */
+export const OPUS_SAMPLE_RATE_HZ = 48_000;
+
+const HEAD_MAGIC = 'OpusHead';
+const TAGS_MAGIC = 'OpusTags';
+const HEAD_BYTES = 19;
+
+export interface OpusHead {
+  channels: number;
+  /** samples at 48kHz to discard from the start of the decoded audio */
+  preSkip: number;
+  /** Q7.8 dB */
+  outputGain: number;
+}
+
+/**
+ * @throws InvalidData when the packet isn't an `OpusHead` this decoder can play
+ */
+export function parseOpusHead(packet: Buffer): OpusHead {
+  if (
+    packet.length < HEAD_BYTES ||
+    packet.toString('ascii', 0, 8) !== HEAD_MAGIC
+  ) {
+    throw new InvalidData('missing opus header');
+  }
+  const version = packet[8] ?? 0;
+  // the upper bits are the major version, only 0 is defined
+  if (version >> 4 !== 0) {
+    throw new InvalidData(`unsupported opus version: ${version}`);
+  }
+  const mappingFamily = packet[18] ?? 0;
+  if (mappingFamily !== 0) {
+    throw new InvalidData(
+      `unsupported opus channel mapping family: ${mappingFamily}`,
+    );
+  }
+  const channels = packet[9] ?? 0;
+  if (channels < 1 || channels > 2) {
+    throw new InvalidData(`invalid opus channel count: ${channels}`);
+  }
+  return {
+    channels,
+    preSkip: packet.readUInt16LE(10),
+    outputGain: packet.readInt16LE(16),
+  };
+}
+
+/**
+ * `OpusHead` packet, e.g. to build test streams.
+ */
+export function createOpusHead(head: OpusHead): Buffer {
+  const packet = Buffer.alloc(HEAD_BYTES);
+  packet.write(HEAD_MAGIC, 0, 'ascii');
+  packet[8] = 1;
+  packet[9] = head.channels;
+  packet.writeUInt16LE(head.preSkip, 10);
+  packet.writeUInt32LE(OPUS_SAMPLE_RATE_HZ, 12);
+  packet.writeInt16LE(head.outputGain, 16);
+  return packet;
+}
+
+/**
+ * `OpusTags` packet without a vendor or comments.
+ */
+export function createOpusTags(): Buffer {
+  const packet = Buffer.alloc(16);
+  packet.write(TAGS_MAGIC, 0, 'ascii');
+  return packet;
+}
+
+function applyGain(pcm: Buffer, outputGain: number): Buffer {
+  if (outputGain === 0) {
+    return pcm;
+  }
+  const factor = 10 ** (outputGain / (20 * 256));
+  for (let offset = 0; offset < pcm.length; offset += 2) {
+    const sample = Math.round(pcm.readInt16LE(offset) * factor);
+    pcm.writeInt16LE(Math.max(-32_768, Math.min(32_767, sample)), offset);
+  }
+  return pcm;
+}
+
+/**
+ * Decodes an Ogg Opus stream to 16-bit PCM at 48kHz as its packets arrive, with the libopus build of `opusscript`.
+ * Only mono and stereo streams are supported, as browsers record them.
+ */
+export class OggOpusDecoder implements AudioPacketDecoder {
+  readonly declared = { encoding: 'ogg_opus' } as const;
+  readonly compressed = true;
+  private readonly demuxer = new OggDemuxer();
+  private head: OpusHead | null = null;
+  private tagsRead = false;
+  private decoder: OpusScript | null = null;
+  // left to discard of the pre-skip, in samples per channel
+  private skip = 0;
+  private _format: AudioFormat | null = null;
+
+  get format(): AudioFormat | null {
+    return this._format;
+  }
+
+  accept(packet: Buffer): Buffer {
+    const decoded: Buffer[] = [];
+    for (const opusPacket of this.demuxer.push(packet)) {
+      if (!this.head) {
+        this.readHead(opusPacket);
+      } else if (!this.tagsRead) {
+        if (opusPacket.toString('ascii', 0, 8) !== TAGS_MAGIC) {
+          throw new InvalidData('missing opus tags');
+        }
+        this.tagsRead = true;
+      } else {
+        decoded.push(this.decode(opusPacket, this.head));
+      }
+    }
+    return Buffer.concat(decoded);
+  }
+
+  close(): void {
+    this.decoder?.delete();
+    this.decoder = null;
+  }
+
+  private readHead(packet: Buffer): void {
+    const head = parseOpusHead(packet);
+    const format: AudioFormat = {
+      encoding: 'pcm_s16le',
+      sampleRateHz: OPUS_SAMPLE_RATE_HZ,
+      channels: head.channels,
+    };
+    validateFormat(format);
+    this.head = head;
+    this.skip = head.preSkip;
+    this._format = format;
+    this.decoder = new OpusScript(OPUS_SAMPLE_RATE_HZ, head.channels);
+  }
+
+  private decode(packet: Buffer, head: OpusHead): Buffer {
+    if (!this.decoder) {
+      throw new Error('opus decoder already closed');
+    }
+    let pcm: Buffer;
+    try {
+      pcm = this.decoder.decode(packet);
+    } catch (err) {
+      throw new InvalidData(
+        `invalid opus packet: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+    const frameBytes = head.channels * 2;
+    const skipped = Math.min(this.skip, pcm.length / frameBytes);
+    this.skip -= skipped;
+    return applyGain(pcm.subarray(skipped * frameBytes), head.outputGain);
+  }
+}
@@ -0,0 +1,370 @@
+import { z } from 'zod';
+import {
+  AudioFormat,
+  CONTAINER_ENCODINGS,
+  DeclaredAudioFormat,
+  SampleEncoding,
+} from '@util/audioFormat';
+import { InvalidData } from '@util/error';
+// types only, the client SDK imports this module and mustn't load the server
+import type {
+  TranscribeWord,
+  TranscriptionCostModel,
+  TranscriptionEngineCapabilities,
+} from '@server/engines/transcriptionEngine';
+import type {
+  TranscribeResponse,
+  TranscriptionEngineInfo,
+} from '@server/services/trascribeService';
+
+export const TRANSCRIPTION_ENGINE_NAMES = [
+  'lorem',
+  'fixture',
+  'subprocess',
+] as const;
+
+export type TranscriptionEngineName =
+  (typeof TRANSCRIPTION_ENGINE_NAMES)[number];
+
+export function isTranscriptionEngineName(
+  value: unknown,
+): value is TranscriptionEngineName {
+  return TRANSCRIPTION_ENGINE_NAMES.includes(value as TranscriptionEngineName);
+}
+
+export const PLAN_NAMES = ['free', 'pro', 'unlimited'] as const;
+
+export type PlanName = (typeof PLAN_NAMES)[number];
+
+export function isPlanName(value: unknown): value is PlanName {
+  return PLAN_NAMES.includes(value as PlanName);
+}
+
+/**
+ * Offered by clients in `Sec-WebSocket-Protocol`, a client that offers none gets v1.
+ */
+export const PROTOCOL_V1 = 'transcribe.v1';
+export const PROTOCOL_V2 = 'transcribe.v2';
+
+export const PROTOCOLS = [PROTOCOL_V2, PROTOCOL_V1] as const;
+
+export type Protocol = (typeof PROTOCOLS)[number];
+
+export enum WsCloseCode {
+  Normal = 1000,
+  GoingAway = 1001,
+  ProtocolError = 1002,
+  UnsupportedData = 1003,
+  NoStatusReceived = 1005,
+  AbnormalClosure = 1006,
+  InvalidData = 1007,
+  PolicyViolation = 1008,
+  MessageTooLarge = 1009,
+  UnexpectedError = 1011,
+  ServiceRestart = 1012,
+  ServiceUnavailable = 1013,
+  // not exactly part of the rfc - https://www.iana.org/assignments/websocket/websocket.xhtml
+  Timeout = 3008,
+}
+
+export enum InternalErrorCode {
+  ExceededAllocatedUsageError = 0,
+  TimeoutError = 1,
+  AbortedError = 2,
+  ConnectionReplacedError = 3,
+  Unauthorized = 4,
+  ShuttingDown = 5,
+  NotReady = 6,
+  InvalidData = 7,
+  RateLimited = 8,
+  PacketTooLarge = 9,
+  ServerError = 99,
+}
+
+/**
+ * Picks the newest protocol the client offered, for the `handleProtocols` option of the `WebSocketServer`.
+ * @returns false to complete the upgrade without a protocol, clients that only offered unknown ones fail it
+ */
+export function selectProtocol(offered: Set<string>): Protocol | false {
+  return PROTOCOLS.find((protocol) => offered.has(protocol)) ?? false;
+}
+
+/**
+ * The protocol of an open socket, `socket.protocol` is empty when the client didn't offer one.
+ */
+export function getProtocol(negotiated: string): Protocol {
+  return negotiated === PROTOCOL_V2 ? PROTOCOL_V2 : PROTOCOL_V1;
+}
+
+// client -> server, binary frames are audio packets `[uint32 id][payload]`, text frames are these
+
+// not strict, v1 clients may send more
+export const authControlMessageSchema = z.object({
+  type: z.literal('auth'),
+  token: z.string(),
+});
+
+export const controlMessageSchema = z.discriminatedUnion('type', [
+  authControlMessageSchema,
+]);
+
+export type AuthControlMessage = z.infer<typeof authControlMessageSchema>;
+
+export type ControlMessage = z.infer<typeof controlMessageSchema>;
+
+/**
+ * @throws InvalidData when the text isn't a control message, v2 says why
+ */
+export function parseControlMessage(
+  text: string,
+  protocol: Protocol = PROTOCOL_V2,
+): ControlMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch (_err) {
+    throw new InvalidData('invalid control message');
+  }
+  const result = controlMessageSchema.safeParse(message);
+  if (result.success) {
+    return result.data;
+  }
+  if (protocol === PROTOCOL_V1) {
+    throw new InvalidData('unknown control message');
+  }
+  throw new InvalidData(
+    `unknown control message: ${z.prettifyError(result.error)}`,
+  );
+}
+
+// server -> client, always text frames
+
+const audioFormatSchema: z.ZodType<AudioFormat> = z.strictObject({
+  encoding: z.enum([
+    'pcm_s16le',
+    'pcm_f32le',
+    'mulaw',
+  ] as const satisfies SampleEncoding[]),
+  sampleRateHz: z.number().int(),
+  channels: z.number().int(),
+});
+
+const declaredAudioFormatSchema: z.ZodType<DeclaredAudioFormat> = z.union([
+  audioFormatSchema,
+  z.strictObject({ encoding: z.enum(CONTAINER_ENCODINGS) }),
+]);
+
+const capabilitiesSchema: z.ZodType<TranscriptionEngineCapabilities> =
+  z.strictObject({
+    partials: z.boolean(),
+    wordTimestamps: z.boolean(),
+    deterministic: z.boolean(),
+  });
+
+const costModelSchema: z.ZodType<TranscriptionCostModel> = z.discriminatedUnion(
+  'type',
+  [
+    z.strictObject({
+      type: z.literal('per_word'),
+      audioMsPerWord: z.number(),
+      msPerWord: z.number(),
+    }),
+    z.strictObject({
+      type: z.literal('processing_time'),
+      estimatedMsPerAudioMs: z.number(),
+    }),
+  ],
+);
+
+const engineInfoSchema: z.ZodType<TranscriptionEngineInfo> = z.strictObject({
+  name: z.enum(TRANSCRIPTION_ENGINE_NAMES),
+  capabilities: capabilitiesSchema,
+  costModel: costModelSchema,
+});
+
+const wordSchema: z.ZodType<TranscribeWord> = z.strictObject({
+  word: z.string(),
+  startMs: z.number(),
+  endMs: z.number(),
+  confidence: z.number(),
+});
+
+const transcribeResponseShape = {
+  transcript: z.string(),
+  words: z.array(wordSchema),
+  usageUsedMs: z.number(),
+  confidence: z.number(),
+  usageRemainingMs: z.number(),
+} satisfies Record<keyof TranscribeResponse, z.ZodType>;
+
+export const readyEventSchema = z.strictObject({
+  event: z.literal('ready'),
+  /** pass as `?sessionId=` when reconnecting to resume the session */
+  sessionId: z.string(),
+  resumed: z.boolean(),
+  engine: engineInfoSchema,
+  /** `?seed=` or the server's configured seed, null when transcripts are random */
+  seed: z.number().nullable(),
+  /** `?encoding=&sampleRate=&channels=`, packets are checked against it */
+  format: declaredAudioFormatSchema,
+  /** only sent to v2 clients */
+  protocol: z.literal(PROTOCOL_V2).optional(),
+});
+
+export const partialTranscriptEventSchema = z.strictObject({
+  event: z.literal('partial'),
+  segmentId: z.number().int(),
+  packetIds: z.array(z.number().int()),
+  transcript: z.string(),
+});
+
+export const transcribeResultMessageSchema = z.strictObject({
+  event: z.literal('final'),
+  segmentId: z.number().int(),
+  id: z.number().int(),
+  packetIds: z.array(z.number().int()),
+  ...transcribeResponseShape,
+  /** ms packet `id` waited in the queue before it was transcribed, only sent to v2 clients */
+  queuedMs: z.number().optional(),
+});
+
+export const packetRejectedEventSchema = z.strictObject({
+  event: z.literal('packet_rejected'),
+  id: z.number().int(),
+  error: z.string(),
+  code: z.literal(InternalErrorCode.RateLimited),
+  limit: z.string(),
+  max: z.number(),
+});
+
+export const authExpiringEventSchema = z.strictObject({
+  event: z.literal('auth_expiring'),
+  expiresAt: z.number(),
+  graceMs: z.number(),
+});
+
+export const authOkEventSchema = z.strictObject({
+  event: z.literal('auth_ok'),
+  expiresAt: z.number().nullable(),
+});
+
+export const authErrorEventSchema = z.strictObject({
+  event: z.literal('auth_error'),
+  error: z.string(),
+});
+
+export const errorEventSchema = z.strictObject({
+  event: z.literal('error'),
+  error: z.string(),
+  code: z.enum(InternalErrorCode),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('event', [
+  readyEventSchema,
+  partialTranscriptEventSchema,
+  transcribeResultMessageSchema,
+  packetRejectedEventSchema,
+  authExpiringEventSchema,
+  authOkEventSchema,
+  authErrorEventSchema,
+  errorEventSchema,
+]);
+
+export type ReadyEvent = z.infer<typeof readyEventSchema>;
+
+/**
+ * Transcript so far of a segment still being processed, replaced by the next partial or the final with the same `segmentId`.
+ */
+export type PartialTranscriptEvent = z.infer<
+  typeof partialTranscriptEventSchema
+>;
+
+/**
+ * Final transcript of a segment, `id` is the packet that completed it and `packetIds` every packet with audio in it.
+ * Packets whose speech is carried over are covered by a later result.
+ */
+export type TranscribeResultMessage = z.infer<
+  typeof transcribeResultMessageSchema
+>;
+
+/**
+ * Sent instead of a result when a packet is dropped for exceeding one of the per user limits,
+ * the socket stays open.
+ */
+export type PacketRejectedEvent = z.infer<typeof packetRejectedEventSchema>;
+
+export type AuthExpiringEvent = z.infer<typeof authExpiringEventSchema>;
+
+export type AuthOkEvent = z.infer<typeof authOkEventSchema>;
+
+export type AuthErrorEvent = z.infer<typeof authErrorEventSchema>;
+
+/**
+ * Sent to v2 clients right before the server closes the socket, the close reason may be cut short.
+ */
+export type ErrorEvent = z.infer<typeof errorEventSchema>;
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+
+/**
+ * For clients of either version.
+ * @throws InvalidData when the text isn't a server message
+ */
+export function parseServerMessage(text: string): ServerMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch (_err) {
+    throw new InvalidData('invalid server message');
+  }
+  const result = serverMessageSchema.safeParse(message);
+  if (!result.success) {
+    throw new InvalidData(
+      `unknown server message: ${z.prettifyError(result.error)}`,
+    );
+  }
+  return result.data;
+}
+
+export type CloseReasonObj = { error: unknown; code: InternalErrorCode };
+
+const closeReasonSchema = z.object({
+  error: z.unknown(),
+  code: z.enum(InternalErrorCode),
+});
+
+/**
+ * The `CloseReasonObj` of a close frame the server sent, null for anything else, e.g. a dropped connection.
+ */
+export function parseCloseReason(reason: string): CloseReasonObj | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(reason);
+  } catch (_err) {
+    return null;
+  }
+  const result = closeReasonSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+// the limit of a close frame's reason
+const MAX_CLOSE_REASON_BYTES = 123;
+
+/**
+ * JSON `CloseReasonObj` with the error cut short to fit in a close frame.
+ */
+export function formatCloseReason(data: CloseReasonObj): string {
+  let reason = JSON.stringify(data);
+  if (Buffer.byteLength(reason) <= MAX_CLOSE_REASON_BYTES) {
+    return reason;
+  }
+  let error = String(data.error);
+  while (error.length > 0) {
+    error = error.slice(0, -1);
+    reason = JSON.stringify({ ...data, error: `${error}…` });
+    if (Buffer.byteLength(reason) <= MAX_CLOSE_REASON_BYTES) {
+      return reason;
+    }
+  }
+  return JSON.stringify({ ...data, error: '' });
+}
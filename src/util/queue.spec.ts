@@ -48,4 +48,16 @@ describe('Queue', () => {
     queue.enqueue(1);
     expect(queue.dequeue()).toBe(1);
   });
+  it('should grow past the initial capacity', () => {
+    const queue = new Queue<number>();
+    for (let ix = 0; ix < 3000; ix++) {
+      queue.enqueue(ix);
+    }
+    expect(queue.size()).toBe(3000);
+    expect(queue.dequeue()).toBe(0);
+    queue.enqueue(3000);
+    expect(queue.toArray()).toEqual(
+      Array.from({ length: 3000 }, (_, ix) => ix + 1),
+    );
+  });
 });
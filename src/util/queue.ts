@@ -13,10 +13,10 @@ class PingPongBuffer<T> {
     this._readBuffer = this._bufferB;
   }
 
-  /** Write a value to the write buffer */
+  /** Write a value to the write buffer, doubling its capacity when full */
   write(value: T): void {
     if (this._writeSize >= this._writeBuffer.length) {
-      throw new Error('Write buffer overflow');
+      this._writeBuffer.length = Math.max(this._writeBuffer.length * 2, 1);
     }
     this._writeBuffer[this._writeSize++] = value;
   }
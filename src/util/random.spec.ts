@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { createSeededRandom, getRandomArbitrary, MAX_SEED } from '@util/random';
+
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+describe('random', () => {
+  it('should repeat the sequence for the same seed', () => {
+    expect(take(createSeededRandom(42), 5)).toEqual(
+      take(createSeededRandom(42), 5),
+    );
+    expect(take(createSeededRandom(42), 5)).not.toEqual(
+      take(createSeededRandom(43), 5),
+    );
+  });
+  it('should reject seeds it would truncate', () => {
+    expect(() => createSeededRandom(MAX_SEED)).not.toThrow();
+    for (const seed of [-1, MAX_SEED + 1, 1.5, NaN]) {
+      expect(() => createSeededRandom(seed)).toThrow(RangeError);
+    }
+  });
+  it('should stay within [0, 1)', () => {
+    for (const value of take(createSeededRandom(7), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+  it('should scale into the range', () => {
+    expect(getRandomArbitrary(0.5, 1, () => 0)).toBe(0.5);
+    expect(getRandomArbitrary(0.5, 1, () => 0.5)).toBe(0.75);
+  });
+});
@@ -1,3 +1,34 @@
-export function getRandomArbitrary(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export type Random = () => number;
+
+export function getRandomArbitrary(
+  min: number,
+  max: number,
+  random: Random = Math.random,
+): number {
+  return random() * (max - min) + min;
+}
+
+// mulberry32's whole state
+export const MAX_SEED = 0xffffffff;
+
+export function isSeed(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+/**
+ * Small seeded PRNG (mulberry32), the same seed always gives the same sequence in [0, 1).
+ * @throws RangeError when the seed isn't an integer from 0 to `MAX_SEED`, instead of truncating it
+ */
+export function createSeededRandom(seed: number): Random {
+  if (!isSeed(seed)) {
+    throw new RangeError(`expected a seed from 0 to ${MAX_SEED}, got: ${seed}`);
+  }
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
@@ -0,0 +1,23 @@
+import { describe, expect, it } from '@jest/globals';
+import { TokenBucket } from '@util/rateLimit';
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to capacity', () => {
+    const bucket = new TokenBucket(2, 2, 0);
+    expect(bucket.tryTake(1, 0)).toBe(true);
+    expect(bucket.tryTake(1, 0)).toBe(true);
+    expect(bucket.tryTake(1, 0)).toBe(false);
+  });
+  it('should refill over time', () => {
+    const bucket = new TokenBucket(10, 10, 0);
+    expect(bucket.tryTake(10, 0)).toBe(true);
+    expect(bucket.tryTake(1, 50)).toBe(false);
+    expect(bucket.tryTake(1, 100)).toBe(true);
+    expect(bucket.available(10_000)).toBe(10);
+  });
+  it('should not take partial counts', () => {
+    const bucket = new TokenBucket(100, 100, 0);
+    expect(bucket.tryTake(150, 0)).toBe(false);
+    expect(bucket.available(0)).toBe(100);
+  });
+});
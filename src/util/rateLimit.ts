@@ -0,0 +1,43 @@
+/**
+ * Token bucket refilled continuously at `ratePerSec`, holding at most `capacity` tokens (a one-second burst by default).
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefillAt: number;
+
+  constructor(
+    private readonly ratePerSec: number,
+    private readonly capacity: number = ratePerSec,
+    now: number = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.lastRefillAt = now;
+  }
+
+  /**
+   * Takes `count` tokens if available, nothing is taken otherwise.
+   * @returns true if the tokens were taken
+   */
+  tryTake(count: number = 1, now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < count) {
+      return false;
+    }
+    this.tokens -= count;
+    return true;
+  }
+
+  available(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  private refill(now: number): void {
+    const elapsedSec = Math.max(now - this.lastRefillAt, 0) / 1000;
+    this.tokens = Math.min(
+      this.tokens + elapsedSec * this.ratePerSec,
+      this.capacity,
+    );
+    this.lastRefillAt = now;
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { DeficitRoundRobin } from '@util/scheduler';
+
+type Backlog = { cost: number; weight?: number; queued: number };
+
+function createScheduler(backlogs: Record<string, Backlog>, quantum = 100) {
+  const busy = new Set<string>();
+  const scheduler = new DeficitRoundRobin<string>(quantum, {
+    isReady: (key) => backlogs[key].queued > 0 && !busy.has(key),
+    hasWork: (key) => backlogs[key].queued > 0,
+    costOf: (key) => backlogs[key].cost,
+    weightOf: (key) => backlogs[key].weight ?? 1,
+  });
+  for (const key of Object.keys(backlogs)) {
+    scheduler.add(key);
+  }
+  return { scheduler, busy };
+}
+
+function countPicks(
+  scheduler: DeficitRoundRobin<string>,
+  picks: number,
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let ix = 0; ix < picks; ix++) {
+    const key = scheduler.next();
+    if (key === undefined) {
+      break;
+    }
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+describe('DeficitRoundRobin', () => {
+  it('should return undefined when nothing is ready', () => {
+    const { scheduler } = createScheduler({ a: { cost: 1, queued: 0 } });
+    expect(scheduler.next()).toBeUndefined();
+    expect(createScheduler({}).scheduler.next()).toBeUndefined();
+  });
+  it('should share equally between equal weights', () => {
+    const { scheduler } = createScheduler({
+      a: { cost: 100, queued: Infinity },
+      b: { cost: 100, queued: Infinity },
+    });
+    expect(countPicks(scheduler, 100)).toEqual({ a: 50, b: 50 });
+  });
+  it('should share by weight', () => {
+    const { scheduler } = createScheduler({
+      free: { cost: 100, queued: Infinity, weight: 1 },
+      pro: { cost: 100, queued: Infinity, weight: 3 },
+    });
+    expect(countPicks(scheduler, 400)).toEqual({ free: 100, pro: 300 });
+  });
+  it('should share by cost rather than packet count', () => {
+    const { scheduler } = createScheduler({
+      small: { cost: 10, queued: Infinity },
+      large: { cost: 1000, queued: Infinity },
+    });
+    const counts = countPicks(scheduler, 1010);
+    expect(counts.small * 10).toBe(counts.large * 1000);
+  });
+  it('should not starve anyone under sustained load', () => {
+    const backlogs: Record<string, Backlog> = {
+      chatty: { cost: 1, queued: Infinity },
+      ...Object.fromEntries(
+        Array.from({ length: 8 }, (_, ix) => [
+          `user${ix}`,
+          { cost: 250 * (ix + 1), queued: Infinity },
+        ]),
+      ),
+    };
+    const { scheduler, busy } = createScheduler(backlogs);
+    // 3 concurrent slots, items take as long as they cost and each key can only have one in flight
+    let slots: { key: string; endsAt: number }[] = [];
+    const served: Record<string, number> = {};
+    for (let now = 0; now < 100_000; ) {
+      let key: string | undefined;
+      while (slots.length < 3 && (key = scheduler.next()) !== undefined) {
+        busy.add(key);
+        slots.push({ key, endsAt: now + backlogs[key].cost });
+        served[key] = (served[key] ?? 0) + backlogs[key].cost;
+      }
+      now = Math.min(...slots.map((slot) => slot.endsAt));
+      for (const slot of slots.filter((slot) => slot.endsAt === now)) {
+        busy.delete(slot.key);
+      }
+      slots = slots.filter((slot) => slot.endsAt > now);
+    }
+    for (const key of Object.keys(backlogs)) {
+      expect(served[key]).toBeGreaterThan(0);
+    }
+    const [min, max] = [
+      Math.min(...Object.values(served)),
+      Math.max(...Object.values(served)),
+    ];
+    // the heaviest packets can overshoot by at most one item per visit
+    expect(max / min).toBeLessThan(3);
+  });
+  it('should reset the deficit of idle keys', () => {
+    const backlogs: Record<string, Backlog> = {
+      a: { cost: 100, queued: 0 },
+      b: { cost: 100, queued: Infinity },
+    };
+    const { scheduler } = createScheduler(backlogs);
+    countPicks(scheduler, 10);
+    backlogs.a.queued = Infinity;
+    expect(countPicks(scheduler, 10)).toEqual({ a: 5, b: 5 });
+  });
+  it('should keep serving after keys are deleted', () => {
+    const { scheduler } = createScheduler({
+      a: { cost: 100, queued: Infinity },
+      b: { cost: 100, queued: Infinity },
+      c: { cost: 100, queued: Infinity },
+    });
+    scheduler.next();
+    scheduler.delete('a');
+    scheduler.delete('c');
+    expect(countPicks(scheduler, 4)).toEqual({ b: 4 });
+    expect(scheduler.size()).toBe(1);
+  });
+});
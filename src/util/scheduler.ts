@@ -0,0 +1,96 @@
+export interface DeficitRoundRobinSource<K> {
+  /** key has queued work that can be started right now */
+  isReady(key: K): boolean;
+  /** key has queued work, possibly blocked by work in flight */
+  hasWork(key: K): boolean;
+  /** cost of the key's next item, e.g. estimated processing ms */
+  costOf(key: K): number;
+  /** share of the capacity relative to other keys, defaults to 1 */
+  weightOf?(key: K): number;
+}
+
+/**
+ * Deficit round-robin across keys, each visit credits `quantum * weight`
+ * and a key is served while its deficit covers the cost of its next item.
+ * Keys without work lose their deficit so idle keys can't save up a burst.
+ */
+export class DeficitRoundRobin<K> {
+  private readonly ring: K[] = [];
+  private readonly deficits = new Map<K, number>();
+  private cursor = 0;
+  // whether the key under the cursor already got its quantum for this visit
+  private credited = false;
+
+  constructor(
+    private readonly quantum: number,
+    private readonly source: DeficitRoundRobinSource<K>,
+  ) {
+    if (quantum <= 0) {
+      throw new Error('quantum must be positive');
+    }
+  }
+
+  add(key: K): void {
+    if (this.deficits.has(key)) {
+      return;
+    }
+    this.deficits.set(key, 0);
+    this.ring.push(key);
+  }
+
+  delete(key: K): void {
+    const index = this.ring.indexOf(key);
+    if (index === -1) {
+      return;
+    }
+    this.ring.splice(index, 1);
+    this.deficits.delete(key);
+    if (index < this.cursor) {
+      this.cursor--;
+    } else if (index === this.cursor) {
+      this.credited = false;
+    }
+    if (this.cursor >= this.ring.length) {
+      this.cursor = 0;
+    }
+  }
+
+  has(key: K): boolean {
+    return this.deficits.has(key);
+  }
+
+  size(): number {
+    return this.ring.length;
+  }
+
+  /**
+   * @returns the key to serve next, its deficit is charged with the item cost, or undefined if no key is ready
+   */
+  next(): K | undefined {
+    if (!this.ring.some((key) => this.source.isReady(key))) {
+      return undefined;
+    }
+    while (true) {
+      const key = this.ring[this.cursor];
+      if (this.source.isReady(key)) {
+        let deficit = this.deficits.get(key) ?? 0;
+        const cost = this.source.costOf(key);
+        if (!this.credited) {
+          const credit = this.quantum * (this.source.weightOf?.(key) ?? 1);
+          // keys that are served less than once per visit (e.g. blocked by work in flight) can't save up a burst
+          deficit = Math.min(deficit + credit, Math.max(credit, cost));
+          this.credited = true;
+        }
+        if (deficit >= cost) {
+          this.deficits.set(key, deficit - cost);
+          return key;
+        }
+        this.deficits.set(key, deficit);
+      } else if (!this.source.hasWork(key)) {
+        this.deficits.set(key, 0);
+      }
+      this.cursor = (this.cursor + 1) % this.ring.length;
+      this.credited = false;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { AudioSegmenter } from '@util/segmenter';
+
+const SPEECH = 1000;
+const SILENCE = 0;
+
+function pcm(...samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, ix) => buffer.writeInt16LE(sample, ix * 2));
+  return buffer;
+}
+
+function createSegmenter(maxCarryBytes = 1024): AudioSegmenter {
+  // every sample is a frame and a single silent one is a pause
+  return new AudioSegmenter({
+    vad: { sampleRateHz: 1000, frameMs: 1, silenceRms: 100, minSilenceMs: 1 },
+    maxCarryBytes,
+  });
+}
+
+describe('AudioSegmenter', () => {
+  it('should pass through packets ending in a pause', () => {
+    const segmenter = createSegmenter();
+    expect(segmenter.push(1, pcm(SPEECH, SILENCE))).toEqual({
+      packetIds: [1],
+      data: pcm(SPEECH, SILENCE),
+    });
+    expect(segmenter.carriedBytes).toBe(0);
+  });
+  it('should carry trailing speech into the next packet', () => {
+    const segmenter = createSegmenter();
+    expect(segmenter.push(1, pcm(SPEECH, SILENCE, SPEECH))).toEqual({
+      packetIds: [1],
+      data: pcm(SPEECH, SILENCE),
+    });
+    expect(segmenter.carriedBytes).toBe(2);
+    expect(segmenter.push(2, pcm(SPEECH))).toBeNull();
+    expect(segmenter.lastCarriedPacketId).toBe(2);
+    expect(segmenter.push(3, pcm(SPEECH, SILENCE))).toEqual({
+      packetIds: [1, 2, 3],
+      data: pcm(SPEECH, SPEECH, SPEECH, SILENCE),
+    });
+    expect(segmenter.lastCarriedPacketId).toBeUndefined();
+  });
+  it('should flush carried speech', () => {
+    const segmenter = createSegmenter();
+    segmenter.push(1, pcm(SPEECH));
+    expect(segmenter.flush()).toEqual({
+      packetIds: [1],
+      data: pcm(SPEECH),
+    });
+    expect(segmenter.flush()).toBeNull();
+  });
+  it('should flush packets without audio', () => {
+    const segmenter = createSegmenter();
+    expect(segmenter.push(1, pcm(SPEECH, SILENCE))).not.toBeNull();
+    expect(segmenter.push(2, Buffer.alloc(0))).toBeNull();
+    expect(segmenter.carriedBytes).toBe(0);
+    expect(segmenter.lastCarriedPacketId).toBe(2);
+    expect(segmenter.flush()).toEqual({
+      packetIds: [2],
+      data: Buffer.alloc(0),
+    });
+    expect(segmenter.flush()).toBeNull();
+  });
+  it('should cut speech longer than the max carry', () => {
+    const segmenter = createSegmenter(4);
+    expect(segmenter.push(1, pcm(SPEECH, SPEECH))).toBeNull();
+    expect(segmenter.push(2, pcm(SPEECH))).toEqual({
+      packetIds: [1, 2],
+      data: pcm(SPEECH, SPEECH, SPEECH),
+    });
+  });
+  it('should cut every packet without a max carry', () => {
+    const segmenter = createSegmenter(0);
+    expect(segmenter.push(1, pcm(SPEECH, SPEECH))).toEqual({
+      packetIds: [1],
+      data: pcm(SPEECH, SPEECH),
+    });
+    expect(segmenter.carriedBytes).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { EnergyVadOptions, findLastPauseEnd } from '@util/vad';
+
+export interface AudioSegment {
+  /** packets with audio in this segment, in order */
+  packetIds: number[];
+  data: Buffer;
+}
+
+export interface AudioSegmenterOptions {
+  vad: EnergyVadOptions;
+  /** trailing speech is cut anyway once more than this would be carried, 0 cuts every packet */
+  maxCarryBytes: number;
+}
+
+/**
+ * Joins packets at pauses so words spanning packets aren't split.
+ * Speech after the last pause of a packet is carried over and prepended to the next one.
+ */
+export class AudioSegmenter {
+  private carry: { packetId: number; data: Buffer }[] = [];
+  private carryBytes = 0;
+
+  constructor(private readonly options: AudioSegmenterOptions) {}
+
+  get carriedBytes(): number {
+    return this.carryBytes;
+  }
+
+  /** most recent packet not in a segment yet, also when it had no audio */
+  get lastCarriedPacketId(): number | undefined {
+    return this.carry.at(-1)?.packetId;
+  }
+
+  /**
+   * @returns audio up to the last pause, or null when all of it is carried
+   */
+  push(packetId: number, data: Buffer): AudioSegment | null {
+    this.carry.push({ packetId, data });
+    this.carryBytes += data.length;
+    if (this.options.maxCarryBytes === 0) {
+      return this.take(this.carryBytes);
+    }
+    const pcm = Buffer.concat(
+      this.carry.map((piece) => piece.data),
+      this.carryBytes,
+    );
+    const pauseEnd = findLastPauseEnd(pcm, this.options.vad) ?? 0;
+    const cut =
+      this.carryBytes - pauseEnd > this.options.maxCarryBytes
+        ? this.carryBytes
+        : pauseEnd;
+    return this.take(cut);
+  }
+
+  /**
+   * Ends the carried speech, e.g. when the client stopped sending.
+   * Carried packets without audio, like a compressed stream's header, end in an empty segment.
+   */
+  flush(): AudioSegment | null {
+    if (this.carryBytes > 0) {
+      return this.take(this.carryBytes);
+    }
+    const packetIds = this.carry.map((piece) => piece.packetId);
+    this.carry = [];
+    return packetIds.length > 0 ? { packetIds, data: Buffer.alloc(0) } : null;
+  }
+
+  private take(byteLength: number): AudioSegment | null {
+    if (byteLength === 0) {
+      return null;
+    }
+    const packetIds: number[] = [];
+    const pieces: Buffer[] = [];
+    let remaining = byteLength;
+    while (remaining > 0) {
+      const piece = this.carry[0];
+      if (!piece) {
+        break;
+      }
+      if (packetIds.at(-1) !== piece.packetId) {
+        packetIds.push(piece.packetId);
+      }
+      if (piece.data.length <= remaining) {
+        pieces.push(piece.data);
+        remaining -= piece.data.length;
+        this.carry.shift();
+        continue;
+      }
+      pieces.push(piece.data.subarray(0, remaining));
+      piece.data = piece.data.subarray(remaining);
+      remaining = 0;
+    }
+    this.carryBytes -= byteLength;
+    return { packetIds, data: Buffer.concat(pieces, byteLength) };
+  }
+}
@@ -0,0 +1,37 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { SpillDirectory } from '@util/spill';
+
+describe('SpillDirectory', () => {
+  let parentDir: string;
+  beforeEach(async () => {
+    parentDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spill-test-'));
+  });
+  afterEach(async () => {
+    await fs.rm(parentDir, { recursive: true, force: true });
+  });
+  it('should not create a directory until written to', async () => {
+    const spill = new SpillDirectory(parentDir);
+    await spill.remove();
+    await expect(fs.readdir(parentDir)).resolves.toEqual([]);
+  });
+  it('should write and take back', async () => {
+    const spill = new SpillDirectory(parentDir);
+    const filePath = await spill.write(Buffer.from('hello'));
+    await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('hello');
+    await expect(spill.take(filePath)).resolves.toEqual(Buffer.from('hello'));
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+  it('should remove leftover files', async () => {
+    const spill = new SpillDirectory(parentDir);
+    await spill.write(Buffer.from('a'));
+    await spill.write(Buffer.from('b'));
+    await spill.remove();
+    await expect(fs.readdir(parentDir)).resolves.toEqual([]);
+    // usable again after removal
+    const filePath = await spill.write(Buffer.from('c'));
+    await expect(spill.take(filePath)).resolves.toEqual(Buffer.from('c'));
+  });
+});
@@ -0,0 +1,49 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Temp directory holding payloads that don't fit in memory, created on first write.
+ */
+export class SpillDirectory {
+  private dir: Promise<string> | null = null;
+
+  constructor(
+    private readonly parentDir: string,
+    private readonly prefix = 'spill-',
+  ) {}
+
+  /**
+   * @returns path of the file holding `data`
+   */
+  async write(data: Buffer): Promise<string> {
+    if (!this.dir) {
+      this.dir = fs
+        .mkdir(this.parentDir, { recursive: true })
+        .then(() => fs.mkdtemp(path.join(this.parentDir, this.prefix)));
+    }
+    const filePath = path.join(await this.dir, randomUUID());
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+
+  /**
+   * Reads the file back and deletes it.
+   */
+  async take(filePath: string): Promise<Buffer> {
+    const data = await fs.readFile(filePath);
+    await fs.rm(filePath, { force: true });
+    return data;
+  }
+
+  /**
+   * Deletes the directory along with any files left in it, later writes create a new one.
+   */
+  async remove(): Promise<void> {
+    const dir = await this.dir?.catch(() => null);
+    this.dir = null;
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { EnergyVadOptions, findLastPauseEnd, frameRms } from '@util/vad';
+
+// 10 samples per frame, pauses are at least 2 frames
+const OPTIONS: EnergyVadOptions = {
+  sampleRateHz: 1000,
+  frameMs: 10,
+  silenceRms: 100,
+  minSilenceMs: 20,
+};
+const FRAME_BYTES = 20;
+
+function pcm(...frames: number[]): Buffer {
+  const buffer = Buffer.alloc(frames.length * FRAME_BYTES);
+  frames.forEach((amplitude, frame) => {
+    for (let sample = 0; sample < FRAME_BYTES / 2; sample++) {
+      // alternate the sign so it looks like a waveform
+      buffer.writeInt16LE(
+        sample % 2 ? -amplitude : amplitude,
+        frame * FRAME_BYTES + sample * 2,
+      );
+    }
+  });
+  return buffer;
+}
+
+describe('vad', () => {
+  it('should measure rms amplitude', () => {
+    expect(frameRms(pcm(1000), 0, FRAME_BYTES)).toBe(1000);
+    expect(frameRms(pcm(0), 0, FRAME_BYTES)).toBe(0);
+    // a lone byte isn't a sample
+    expect(frameRms(Buffer.alloc(1, 0xff), 0, 1)).toBe(0);
+  });
+  it('should find the end of the last pause', () => {
+    expect(findLastPauseEnd(pcm(1000, 0, 0, 1000, 1000), OPTIONS)).toBe(
+      3 * FRAME_BYTES,
+    );
+    expect(findLastPauseEnd(pcm(1000, 0, 0, 0), OPTIONS)).toBe(4 * FRAME_BYTES);
+  });
+  it('should ignore silence shorter than a pause', () => {
+    expect(findLastPauseEnd(pcm(1000, 0, 1000), OPTIONS)).toBeNull();
+    expect(findLastPauseEnd(pcm(1000, 1000, 0), OPTIONS)).toBeNull();
+  });
+  it('should treat entirely silent audio as a pause', () => {
+    expect(findLastPauseEnd(pcm(0), OPTIONS)).toBe(FRAME_BYTES);
+    expect(findLastPauseEnd(Buffer.alloc(3), OPTIONS)).toBe(3);
+    expect(findLastPauseEnd(Buffer.alloc(0), OPTIONS)).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Energy based voice activity detection over signed 16-bit little-endian mono PCM.
+ */
+export interface EnergyVadOptions {
+  sampleRateHz: number;
+  /** length of the frames the energy is measured over */
+  frameMs: number;
+  /** frames with an RMS amplitude at or below this are silent */
+  silenceRms: number;
+  /** silence shorter than this is treated as part of the speech around it */
+  minSilenceMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: Readonly<EnergyVadOptions> = {
+  sampleRateHz: 16_000,
+  frameMs: 20,
+  // roughly -36 dBFS
+  silenceRms: 500,
+  minSilenceMs: 100,
+};
+
+/**
+ * RMS amplitude of the whole samples between the byte offsets `start` and `end`.
+ */
+export function frameRms(pcm: Buffer, start: number, end: number): number {
+  let sumOfSquares = 0;
+  let samples = 0;
+  for (
+    let offset = start;
+    offset + BYTES_PER_SAMPLE <= end;
+    offset += BYTES_PER_SAMPLE
+  ) {
+    const sample = pcm.readInt16LE(offset);
+    sumOfSquares += sample * sample;
+    samples++;
+  }
+  return samples === 0 ? 0 : Math.sqrt(sumOfSquares / samples);
+}
+
+/**
+ * Finds where the trailing speech starts, i.e. the end of the last pause.
+ * @returns byte offset after the last pause, `pcm.length` when it ends in a pause or is entirely silent, null when there is no pause
+ */
+export function findLastPauseEnd(
+  pcm: Buffer,
+  options: EnergyVadOptions = DEFAULT_VAD_OPTIONS,
+): number | null {
+  const frameBytes =
+    Math.max(Math.round((options.sampleRateHz * options.frameMs) / 1000), 1) *
+    BYTES_PER_SAMPLE;
+  const minSilenceFrames = Math.max(
+    Math.ceil(options.minSilenceMs / options.frameMs),
+    1,
+  );
+  const frameCount = Math.ceil(pcm.length / frameBytes);
+  let silentRun = 0;
+  let lastPauseEnd: number | null = null;
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * frameBytes;
+    const end = Math.min(start + frameBytes, pcm.length);
+    if (frameRms(pcm, start, end) > options.silenceRms) {
+      silentRun = 0;
+      continue;
+    }
+    silentRun++;
+    if (silentRun >= minSilenceFrames) {
+      lastPauseEnd = end;
+    }
+  }
+  // shorter than a pause but nothing was said either
+  if (silentRun === frameCount) {
+    return pcm.length;
+  }
+  return lastPauseEnd;
+}
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, DEV_JWT_SECRET } from '@server/config';
+import {
+  AdminIssueTokenResponse,
+  AdminUsersResponse,
+} from '@server/controllers/adminController';
+import { UsageHistoryResponse } from '@server/controllers/usageController';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { InternalErrorCode, WsCloseCode } from '@server/ws/wsTranscribe';
+import { connectWs, waitForClose } from './ws';
+
+const ADMIN_TOKEN = issueToken(userId('admin'), {
+  claims: { roles: ['admin'] },
+});
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Admin', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+
+  async function request<T = unknown>(
+    path: string,
+    {
+      method = 'GET',
+      token = ADMIN_TOKEN,
+      body,
+    }: { method?: string; token?: string; body?: unknown } = {},
+  ): Promise<{ status: number; body: T }> {
+    const response = await fetch(`http://${host}/api${path}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${token}`,
+        ...(body !== undefined && { 'content-type': 'application/json' }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  beforeEach(async () => {
+    await resetStorage();
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should block non admin tokens', async () => {
+    await expect(
+      request('/admin/users', { token: USER_1_TOKEN }),
+    ).resolves.toEqual({ status: 403, body: { error: 'Forbidden' } });
+  });
+  it('should block admin tokens signed with the dev secret', async () => {
+    const secret = config.jwt.secret;
+    config.jwt.secret = DEV_JWT_SECRET;
+    try {
+      const token = issueToken(userId('admin'), {
+        claims: { roles: ['admin'] },
+      });
+      await expect(request('/admin/users', { token })).resolves.toEqual({
+        status: 403,
+        body: { error: 'Admin API is disabled with the dev JWT secret' },
+      });
+    } finally {
+      config.jwt.secret = secret;
+    }
+  });
+  it('should block unauthenticated requests', async () => {
+    await expect(request('/admin/users', { token: '' })).resolves.toEqual(
+      expect.objectContaining({ status: 401 }),
+    );
+  });
+  it('should list users', async () => {
+    const { status, body } = await request<AdminUsersResponse>('/admin/users');
+    expect(status).toBe(200);
+    expect(body.users).toEqual([
+      expect.objectContaining({
+        id: '1',
+        usage: { remainingMs: 1000, totalUsedMs: 0 },
+      }),
+      expect.objectContaining({ id: '2' }),
+    ]);
+  });
+  it('should create user and issue token', async () => {
+    await expect(
+      request('/admin/users', {
+        method: 'POST',
+        body: { id: 'new', name: 'New', remainingMs: 5000 },
+      }),
+    ).resolves.toEqual({
+      status: 201,
+      body: {
+        user: expect.objectContaining({
+          id: 'new',
+          name: 'New',
+          usage: { remainingMs: 5000, totalUsedMs: 0 },
+          plan: 'free',
+        }),
+      },
+    });
+    await expect(
+      request('/admin/users', { method: 'POST', body: { id: 'new' } }),
+    ).resolves.toEqual(expect.objectContaining({ status: 409 }));
+    const issued = await request<AdminIssueTokenResponse>(
+      '/admin/users/new/tokens',
+      {
+        method: 'POST',
+        body: { expiresInSec: 60 },
+      },
+    );
+    expect(issued.status).toBe(201);
+    await expect(
+      request('/usage', { token: issued.body.token }),
+    ).resolves.toEqual({
+      status: 200,
+      body: expect.objectContaining({
+        usage: { remainingMs: 5000, totalUsedMs: 0 },
+        plan: 'free',
+      }),
+    });
+  });
+  it('should reject invalid bodies', async () => {
+    await expect(
+      request('/admin/users', { method: 'POST', body: { remainingMs: -1 } }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+    await expect(
+      request('/admin/users/1/usage', { method: 'PUT', body: {} }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+  });
+  it('should 404 unknown users', async () => {
+    await expect(request('/admin/users/unknown')).resolves.toEqual(
+      expect.objectContaining({ status: 404 }),
+    );
+  });
+  it('should manage usage', async () => {
+    await expect(
+      request('/admin/users/1/usage', {
+        method: 'PUT',
+        body: { remainingMs: 100 },
+      }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { usage: { remainingMs: 100, totalUsedMs: 0 } },
+    });
+    await expect(
+      request('/admin/users/1/usage/top-up', {
+        method: 'POST',
+        body: { ms: 50 },
+      }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { usage: { remainingMs: 150, totalUsedMs: 0 } },
+    });
+    await expect(
+      request('/admin/users/1/usage/reset-total', { method: 'POST' }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { usage: { remainingMs: 150, totalUsedMs: 0 } },
+    });
+  });
+  it('should record usage changes in the history', async () => {
+    await request('/admin/users', {
+      method: 'POST',
+      body: { id: 'history', remainingMs: 100 },
+    });
+    await request('/admin/users/history/usage/top-up', {
+      method: 'POST',
+      body: { ms: 50 },
+    });
+    const { body: issued } = await request<AdminIssueTokenResponse>(
+      '/admin/users/history/tokens',
+      { method: 'POST' },
+    );
+    const { status, body } = await request<UsageHistoryResponse>(
+      '/usage/history',
+      { token: issued.token },
+    );
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      entries: [
+        expect.objectContaining({
+          type: 'credit',
+          amountMs: 50,
+          balanceMs: 150,
+          reason: 'top_up',
+        }),
+        expect.objectContaining({
+          type: 'credit',
+          amountMs: 100,
+          balanceMs: 100,
+          reason: 'allowance',
+        }),
+      ],
+      nextCursor: null,
+    });
+    await expect(
+      request('/usage/history?limit=0', { token: issued.token }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+    await expect(
+      request('/usage/history?cursor=unknown', { token: issued.token }),
+    ).resolves.toEqual({
+      status: 400,
+      body: { error: expect.objectContaining({ message: 'Invalid cursor' }) },
+    });
+  });
+  it('should change plan', async () => {
+    await expect(
+      request('/admin/users/1/plan', {
+        method: 'PUT',
+        body: { plan: 'pro' },
+      }),
+    ).resolves.toEqual({
+      status: 200,
+      body: {
+        usage: { remainingMs: 10 * 60 * 60_000, totalUsedMs: 0 },
+        plan: 'pro',
+        window: {
+          start: expect.any(Number),
+          end: expect.any(Number),
+          resetsInMs: expect.any(Number),
+        },
+      },
+    });
+    await expect(
+      request('/admin/users/1/plan', {
+        method: 'PUT',
+        body: { plan: 'platinum' },
+      }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+  });
+  it('should revoke token and close its socket', async () => {
+    const issued = await request<AdminIssueTokenResponse>(
+      '/admin/users/1/tokens',
+      { method: 'POST' },
+    );
+    const token = issued.body.token;
+    const { ws } = await connectWs(host, token);
+    await expect(request('/admin/sockets')).resolves.toEqual({
+      status: 200,
+      body: {
+        sockets: [
+          expect.objectContaining({
+            userId: '1',
+            tokenId: issued.body.issued.tokenId,
+            ready: true,
+          }),
+        ],
+      },
+    });
+    const closed = waitForClose(ws);
+    await expect(
+      request(`/admin/tokens/${issued.body.issued.tokenId}`, {
+        method: 'DELETE',
+      }),
+    ).resolves.toEqual(expect.objectContaining({ status: 200 }));
+    await expect(closed).resolves.toEqual({
+      code: WsCloseCode.PolicyViolation,
+      reason: {
+        error: 'Token revoked',
+        code: InternalErrorCode.Unauthorized,
+      },
+    });
+    await expect(request('/usage', { token })).resolves.toEqual({
+      status: 401,
+      body: { error: 'Token revoked' },
+    });
+  });
+  it('should revoke all tokens for a user', async () => {
+    const issued = await request<AdminIssueTokenResponse>(
+      '/admin/users/2/tokens',
+      { method: 'POST' },
+    );
+    await expect(
+      request('/admin/users/2/tokens', { method: 'DELETE' }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { tokens: [expect.objectContaining({ revoked: true })] },
+    });
+    await expect(
+      request('/usage', { token: issued.body.token }),
+    ).resolves.toEqual(expect.objectContaining({ status: 401 }));
+    await expect(request('/admin/users/2/tokens')).resolves.toEqual({
+      status: 200,
+      body: { tokens: [expect.objectContaining({ revoked: true })] },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { audioBytes, DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+
+const TSX = path.join(__dirname, '..', 'node_modules', '.bin', 'tsx');
+const CLI = path.join(__dirname, '..', 'src', 'transcribe.ts');
+
+// speech loud enough for the VAD, so a segment spans its packets and gets partials
+function tone(ms: number): Buffer {
+  const buffer = Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, ms));
+  for (let offset = 0; offset < buffer.length; offset += 2) {
+    buffer.writeInt16LE(offset % 4 ? -5000 : 5000, offset);
+  }
+  return buffer;
+}
+
+describe('Command line client', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let url: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    url = `http://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-e2e-'));
+  });
+  afterEach(async () => {
+    await server.shutdown();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should wait for the final result with --interim', async () => {
+    const file = path.join(dir, 'tone.raw');
+    await fs.writeFile(file, tone(1000));
+    const { stdout } = await promisify(execFile)(
+      TSX,
+      [
+        CLI,
+        file,
+        '--url',
+        url,
+        '--token',
+        issueToken(userId('1')),
+        '--pace',
+        'fast',
+        '--interim',
+        '--output',
+        'jsonl',
+      ],
+      { timeout: 30_000 },
+    );
+    const events = stdout
+      .trim()
+      .split('\n')
+      .map(
+        (line) => JSON.parse(line) as { event: string; packetIds: number[] },
+      );
+    expect(events.some((event) => event.event === 'partial')).toBe(true);
+    expect(events.at(-1)).toEqual(
+      expect.objectContaining({ event: 'final', packetIds: [1, 2, 3, 4] }),
+    );
+  }, 60_000);
+});
@@ -0,0 +1,190 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import {
+  AddressInfo,
+  createServer as createNetServer,
+  Server,
+  Socket,
+} from 'node:net';
+import {
+  InternalErrorCode,
+  TranscribeClient,
+  TranscribeCloseError,
+  TranscribeEvent,
+  WsCloseCode,
+} from '@client';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { BYTES_PER_WORD } from '@server/services/trascribeService';
+import { getUsageStore, resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { PROTOCOL_V2 } from '@util/protocol';
+import { delay } from '@util/delay';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+/**
+ * Forwards TCP connections to the server until `drop` cuts them, like a flaky network.
+ */
+async function createProxy(port: number): Promise<{
+  url: string;
+  drop: () => void;
+  close: () => Promise<void>;
+}> {
+  const sockets = new Set<Socket>();
+  const proxy: Server = createNetServer((client) => {
+    const upstream = new Socket().connect(port, 'localhost');
+    client.pipe(upstream).pipe(client);
+    for (const socket of [client, upstream]) {
+      sockets.add(socket);
+      socket.on('error', () => undefined);
+      socket.on('close', () => {
+        sockets.delete(socket);
+        client.destroy();
+        upstream.destroy();
+      });
+    }
+  });
+  await new Promise<void>((resolve) => proxy.listen(0, resolve));
+  return {
+    url: `http://localhost:${(proxy.address() as AddressInfo).port}`,
+    drop: () => sockets.forEach((socket) => socket.destroy()),
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        proxy.close(() => resolve());
+      }),
+  };
+}
+
+async function finalsFor(
+  client: TranscribeClient,
+  lastId: number,
+): Promise<TranscribeEvent[]> {
+  const events: TranscribeEvent[] = [];
+  for await (const event of client) {
+    events.push(event);
+    if (event.event === 'final' && event.id === lastId) {
+      break;
+    }
+  }
+  return events;
+}
+
+describe('TranscribeClient', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let url: string;
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    url = `http://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should send audio and iterate its results', async () => {
+    const client = await TranscribeClient.connect({
+      url,
+      token: () => USER_1_TOKEN,
+    });
+    expect(client.ready).toMatchObject({
+      event: 'ready',
+      resumed: false,
+      protocol: PROTOCOL_V2,
+    });
+    expect(client.send(Buffer.alloc(BYTES_PER_WORD))).toBe(1);
+    expect(client.send(Buffer.alloc(BYTES_PER_WORD))).toBe(2);
+    const events = await finalsFor(client, 2);
+    expect(events).toEqual([
+      expect.objectContaining({ event: 'final', id: 1 }),
+      expect.objectContaining({ event: 'final', id: 2 }),
+    ]);
+    await expect(client.refreshToken()).resolves.toBeUndefined();
+    const usage = await client.getUsage();
+    expect(usage).toMatchObject({
+      plan: 'free',
+      usage: { remainingMs: 59_500, totalUsedMs: 500 },
+    });
+    await client.close();
+    expect(() => client.send(Buffer.alloc(2))).toThrow('client closed');
+  });
+
+  it('should reject connecting with a typed close error', async () => {
+    const connecting = TranscribeClient.connect({ url, token: 'invalid' });
+    await expect(connecting).rejects.toThrow(TranscribeCloseError);
+    await expect(connecting).rejects.toMatchObject({
+      code: WsCloseCode.PolicyViolation,
+      internalCode: InternalErrorCode.Unauthorized,
+      retryable: false,
+    });
+  });
+
+  it('should close with a server error when the usage store fails', async () => {
+    jest
+      .spyOn(getUsageStore(), 'get')
+      .mockRejectedValueOnce(new Error('disk failure'));
+    const connecting = TranscribeClient.connect({ url, token: USER_1_TOKEN });
+    await expect(connecting).rejects.toMatchObject({
+      message: 'Failed to check usage',
+      code: WsCloseCode.UnexpectedError,
+      internalCode: InternalErrorCode.ServerError,
+    });
+    // the server keeps serving other sockets
+    const client = await TranscribeClient.connect({ url, token: USER_1_TOKEN });
+    await client.close();
+  });
+
+  it('should throw the close error after the last result', async () => {
+    await resetStorage(250);
+    const client = await TranscribeClient.connect({ url, token: USER_1_TOKEN });
+    client.send(Buffer.alloc(BYTES_PER_WORD));
+    const events: TranscribeEvent[] = [];
+    let error: unknown;
+    try {
+      for await (const event of client) {
+        events.push(event);
+      }
+    } catch (err) {
+      error = err;
+    }
+    expect(events).toEqual([expect.objectContaining({ id: 1 })]);
+    expect(error).toBeInstanceOf(TranscribeCloseError);
+    expect(error).toMatchObject({
+      message: 'Exceeded allocated usage',
+      code: WsCloseCode.PolicyViolation,
+      internalCode: InternalErrorCode.ExceededAllocatedUsageError,
+    });
+    expect(() => client.send(Buffer.alloc(2))).toThrow(error as Error);
+  });
+
+  it('should resume the session after the connection drops', async () => {
+    const proxy = await createProxy(
+      (server.httpServer.address() as AddressInfo).port,
+    );
+    const client = await TranscribeClient.connect({
+      url: proxy.url,
+      token: USER_1_TOKEN,
+      reconnect: { initialDelayMs: 10 },
+    });
+    const sessionId = client.ready.sessionId;
+    client.send(Buffer.alloc(BYTES_PER_WORD));
+    await finalsFor(client, 1);
+    proxy.drop();
+    // once the client noticed, packets in flight while dropping could be lost
+    await delay(50);
+    client.send(Buffer.alloc(BYTES_PER_WORD));
+    const events = await finalsFor(client, 2);
+    expect(events).toEqual([expect.objectContaining({ id: 2 })]);
+    expect(client.ready).toMatchObject({ sessionId, resumed: true });
+    await client.close();
+    await proxy.close();
+  });
+});
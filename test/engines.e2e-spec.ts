@@ -0,0 +1,138 @@
+import fs from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { WebSocket } from 'ws';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, TranscriptionEngineConfig } from '@server/config';
+import { BYTES_PER_WORD } from '@server/services/trascribeService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import {
+  CloseReasonObj,
+  InternalErrorCode,
+  WsCloseCode,
+} from '@server/ws/wsTranscribe';
+import { BufferCounter, bufferTextOrThrow } from '@util/buffer';
+import { connectWs, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Transcription engines', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+  let dir: string;
+  let originalConfig: TranscriptionEngineConfig;
+
+  function openWs(query: string): WebSocket {
+    return new WebSocket(`ws://${host}/transcribe${query}`, {
+      headers: { authorization: `Bearer ${USER_1_TOKEN}` },
+    });
+  }
+
+  beforeEach(async () => {
+    originalConfig = { ...config.engine };
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'engines-e2e-'));
+    const fixturePath = path.join(dir, 'fixtures.json');
+    await fs.writeFile(fixturePath, JSON.stringify(['hello world', 'bye']));
+    config.engine = { ...config.engine, fixturePath };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.engine = originalConfig;
+    await server.shutdown();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should advertise the default engine', async () => {
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    expect(ready.engine).toEqual({
+      name: 'lorem',
+      capabilities: {
+        partials: true,
+        wordTimestamps: true,
+        deterministic: false,
+      },
+      costModel: { type: 'per_word', audioMsPerWord: 250, msPerWord: 250 },
+    });
+    expect(ready.seed).toBeNull();
+    ws.close();
+  });
+  it('should pick the engine per session', async () => {
+    const { ws, ready, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?engine=fixture',
+    });
+    expect(ready.engine).toEqual(
+      expect.objectContaining({
+        name: 'fixture',
+        capabilities: expect.objectContaining({ deterministic: true }),
+      }),
+    );
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    await waitForMessages(messages, 2);
+    expect(messages.map((message) => message.transcript)).toEqual([
+      'hello world',
+      'bye',
+    ]);
+    ws.close();
+  });
+  it('should repeat transcripts for the same seed', async () => {
+    async function transcribeSeeded(seed: number) {
+      const { ws, ready, messages } = await connectWs(host, USER_1_TOKEN, {
+        query: `?seed=${seed}`,
+      });
+      expect(ready.seed).toBe(seed);
+      expect(ready.engine.capabilities.deterministic).toBe(true);
+      const bufferCounter = new BufferCounter();
+      ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD * 3)));
+      ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD)));
+      await waitForMessages(messages, 2);
+      const closed = new Promise((resolve) => ws.once('close', resolve));
+      ws.close();
+      await closed;
+      return messages.map(({ transcript, words, confidence, usageUsedMs }) => ({
+        transcript,
+        words,
+        confidence,
+        usageUsedMs,
+      }));
+    }
+    const first = await transcribeSeeded(42);
+    await expect(transcribeSeeded(42)).resolves.toEqual(first);
+    await expect(transcribeSeeded(43)).resolves.not.toEqual(first);
+  });
+  it('should use the configured seed', async () => {
+    config.engine = { ...config.engine, seed: 7 };
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    expect(ready.seed).toBe(7);
+    ws.close();
+  });
+  it.each([
+    ['?engine=unknown', 'unknown engine: unknown'],
+    ['?engine=subprocess', 'subprocess engine is not configured'],
+    ['?seed=abc', 'invalid seed: abc'],
+    ['?seed=-1', 'invalid seed: -1'],
+    ['?seed=4294967296', 'invalid seed: 4294967296'],
+  ])('should close on unavailable engines %s', async (query, error) => {
+    const ws = openWs(query);
+    const closed = await new Promise<{ code: number; reason: CloseReasonObj }>(
+      (resolve) =>
+        ws.once('close', (code, reason) =>
+          resolve({
+            code,
+            reason: JSON.parse(bufferTextOrThrow(reason)) as CloseReasonObj,
+          }),
+        ),
+    );
+    expect(closed).toEqual({
+      code: WsCloseCode.InvalidData,
+      reason: { error, code: InternalErrorCode.InvalidData },
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { WebSocket } from 'ws';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, TranscribeConfig } from '@server/config';
+import {
+  AdminClearFaultsResponse,
+  AdminFaultProfilesResponse,
+  AdminFaultsResponse,
+} from '@server/controllers/adminController';
+import {
+  FaultErrorType,
+  NO_FAULTS,
+  resetFaults,
+} from '@server/services/faultService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import {
+  CloseReasonObj,
+  InternalErrorCode,
+  WsCloseCode,
+} from '@server/ws/wsTranscribe';
+import { BufferCounter } from '@util/buffer';
+import { delay } from '@util/delay';
+import { createSeededRandom } from '@util/random';
+import { connectWs, waitForClose, waitForMessages } from './ws';
+
+const ADMIN_TOKEN = issueToken(userId('admin'), {
+  claims: { roles: ['admin'] },
+});
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Fault injection', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+  let originalConfig: TranscribeConfig;
+
+  async function request<T = unknown>(
+    path: string,
+    { method = 'GET', body }: { method?: string; body?: unknown } = {},
+  ): Promise<{ status: number; body: T }> {
+    const response = await fetch(`http://${host}/api/admin${path}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${ADMIN_TOKEN}`,
+        ...(body !== undefined && { 'content-type': 'application/json' }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  beforeEach(async () => {
+    originalConfig = { ...config.transcribe };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.transcribe = originalConfig;
+    resetFaults();
+    await server.shutdown();
+  });
+
+  it.each<[FaultErrorType, WsCloseCode, CloseReasonObj]>([
+    [
+      'engine',
+      WsCloseCode.UnexpectedError,
+      { error: 'injected engine error', code: InternalErrorCode.ServerError },
+    ],
+    [
+      'invalid_data',
+      WsCloseCode.InvalidData,
+      { error: 'injected invalid data', code: InternalErrorCode.InvalidData },
+    ],
+    [
+      'exceeded_usage',
+      WsCloseCode.PolicyViolation,
+      {
+        error: 'Exceeded allocated usage',
+        code: InternalErrorCode.ExceededAllocatedUsageError,
+      },
+    ],
+    [
+      'aborted',
+      WsCloseCode.GoingAway,
+      { error: 'Aborted', code: InternalErrorCode.AbortedError },
+    ],
+    [
+      'unknown',
+      WsCloseCode.UnexpectedError,
+      { error: 'injected unknown error', code: InternalErrorCode.ServerError },
+    ],
+  ])('should inject %s errors', async (errorType, closeCode, closeReason) => {
+    await expect(
+      request<AdminFaultsResponse>('/users/1/faults', {
+        method: 'PUT',
+        body: { errorRate: 1, errorType },
+      }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { faults: { ...NO_FAULTS, errorRate: 1, errorType } },
+    });
+    const { ws } = await connectWs(host, USER_1_TOKEN);
+    const closed = waitForClose(ws);
+    ws.send(new BufferCounter().wrap(Buffer.alloc(16)));
+    await expect(closed).resolves.toEqual({
+      code: closeCode,
+      reason: closeReason,
+    });
+  });
+  it('should leave the socket open for injected closed connections', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { errorRate: 1, errorType: 'connection_closed' },
+    });
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    await delay(100);
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    expect(messages).toEqual([]);
+    ws.close();
+  });
+  it('should trip the transcribe timeout', async () => {
+    config.transcribe = { ...config.transcribe, timeoutMs: 50 };
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { timeoutRate: 1 },
+    });
+    const { ws } = await connectWs(host, USER_1_TOKEN);
+    const closed = waitForClose(ws);
+    ws.send(new BufferCounter().wrap(Buffer.alloc(16)));
+    await expect(closed).resolves.toEqual({
+      code: WsCloseCode.Timeout,
+      reason: { error: 'Timeout', code: InternalErrorCode.TimeoutError },
+    });
+  });
+  it('should add latency', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { extraLatencyMs: 200 },
+    });
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const start = Date.now();
+    ws.send(new BufferCounter().wrap(Buffer.alloc(16)));
+    await waitForMessages(messages, 1);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(200);
+    ws.close();
+  });
+  it('should drop results until cleared', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { dropRate: 1 },
+    });
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    await delay(100);
+    expect(messages).toEqual([]);
+    await expect(
+      request<AdminClearFaultsResponse>('/users/1/faults', {
+        method: 'DELETE',
+      }),
+    ).resolves.toEqual({ status: 200, body: { cleared: true } });
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    await waitForMessages(messages, 1);
+    expect(messages).toEqual([expect.objectContaining({ id: 2 })]);
+    ws.close();
+  });
+  it('should send results out of order', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { reorderRate: 1 },
+    });
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    await waitForMessages(messages, 2);
+    expect(messages.map((message) => message.id)).toEqual([2, 1]);
+    ws.close();
+  });
+  it('should roll faults from the session seed', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { dropRate: 0.5 },
+    });
+    // only the drop is rolled, once per result
+    const random = createSeededRandom(42);
+    const expected = Array.from({ length: 8 }, (_, ix) => ix + 1).filter(
+      () => random() >= 0.5,
+    );
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?seed=42',
+    });
+    const bufferCounter = new BufferCounter();
+    for (let ix = 0; ix < 8; ix++) {
+      ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+    }
+    await waitForMessages(messages, expected.length);
+    await delay(100);
+    expect(messages.map((message) => message.id)).toEqual(expected);
+    ws.close();
+  });
+  it('should prefer session faults over user faults', async () => {
+    await request('/users/1/faults', {
+      method: 'PUT',
+      body: { dropRate: 1 },
+    });
+    const { ws, ready, messages } = await connectWs(host, USER_1_TOKEN);
+    await expect(
+      request<AdminFaultsResponse>(`/sessions/${ready.sessionId}/faults`, {
+        method: 'PUT',
+        body: { jitterMs: 10 },
+      }),
+    ).resolves.toEqual({
+      status: 200,
+      body: { faults: { ...NO_FAULTS, jitterMs: 10 } },
+    });
+    await expect(
+      request<AdminFaultProfilesResponse>('/faults'),
+    ).resolves.toEqual({
+      status: 200,
+      body: {
+        users: { '1': { ...NO_FAULTS, dropRate: 1 } },
+        sessions: { [ready.sessionId]: { ...NO_FAULTS, jitterMs: 10 } },
+      },
+    });
+    ws.send(new BufferCounter().wrap(Buffer.alloc(16)));
+    await waitForMessages(messages, 1);
+    const closed = new Promise((resolve) => ws.once('close', resolve));
+    ws.close();
+    await closed;
+  });
+  it('should reject unknown sessions and invalid profiles', async () => {
+    await expect(
+      request('/sessions/unknown/faults', {
+        method: 'PUT',
+        body: { errorRate: 1 },
+      }),
+    ).resolves.toEqual(expect.objectContaining({ status: 404 }));
+    await expect(
+      request('/users/1/faults', { method: 'PUT', body: { errorRate: 2 } }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+    await expect(
+      request('/users/1/faults', {
+        method: 'PUT',
+        body: { errorType: 'nope' },
+      }),
+    ).resolves.toEqual(expect.objectContaining({ status: 400 }));
+  });
+});
@@ -0,0 +1,212 @@
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import OpusScript from 'opusscript';
+import { WebSocket } from 'ws';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { InternalErrorCode, WsCloseCode } from '@server/ws/wsTranscribe';
+import {
+  audioBytes,
+  AudioFormat,
+  createWavHeader,
+  DEFAULT_AUDIO_FORMAT,
+} from '@util/audioFormat';
+import { BufferCounter } from '@util/buffer';
+import { createFlacStream } from '@util/flac';
+import { createOggPages } from '@util/ogg';
+import {
+  createOpusHead,
+  createOpusTags,
+  OPUS_SAMPLE_RATE_HZ,
+} from '@util/opus';
+import { connectWs, waitForClose, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+/** 20ms Opus packets of silence */
+function opusSilence(packets: number): Buffer[] {
+  const encoder = new OpusScript(OPUS_SAMPLE_RATE_HZ, 1);
+  const encoded = Array.from({ length: packets }, () =>
+    encoder.encode(Buffer.alloc(960 * 2), 960),
+  );
+  encoder.delete();
+  return encoded;
+}
+
+const F32_STEREO: AudioFormat = {
+  encoding: 'pcm_f32le',
+  sampleRateHz: 48_000,
+  channels: 2,
+};
+
+describe('Audio formats', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+
+  function openWs(query: string): WebSocket {
+    return new WebSocket(`ws://${host}/transcribe${query}`, {
+      headers: { authorization: `Bearer ${USER_1_TOKEN}` },
+    });
+  }
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should default to PCM 16kHz/16bit mono', async () => {
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    expect(ready.format).toEqual(DEFAULT_AUDIO_FORMAT);
+    ws.close();
+  });
+  it('should charge by the duration of the declared format', async () => {
+    const { ws, ready, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?encoding=pcm_f32le&sampleRate=48000&channels=2',
+    });
+    expect(ready.format).toEqual(F32_STEREO);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(audioBytes(F32_STEREO, 500))));
+    await waitForMessages(messages, 1);
+    expect(messages[0]).toEqual(
+      expect.objectContaining({
+        usageUsedMs: 500,
+        words: [
+          expect.objectContaining({ startMs: 0, endMs: 250 }),
+          expect.objectContaining({ startMs: 250, endMs: 500 }),
+        ],
+      }),
+    );
+    ws.close();
+  });
+  it('should read the format from a wav header', async () => {
+    const format: AudioFormat = {
+      encoding: 'mulaw',
+      sampleRateHz: 8_000,
+      channels: 1,
+    };
+    const { ws, ready, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?encoding=wav',
+    });
+    expect(ready.format).toEqual({ encoding: 'wav' });
+    // mu-law silence, zero bytes are the loudest negative sample
+    const audio = Buffer.alloc(audioBytes(format, 250), 0xff);
+    const bufferCounter = new BufferCounter();
+    ws.send(
+      bufferCounter.wrap(
+        Buffer.concat([createWavHeader(format, audio.length * 2), audio]),
+      ),
+    );
+    ws.send(bufferCounter.wrap(audio));
+    await waitForMessages(messages, 2);
+    expect(messages).toEqual([
+      expect.objectContaining({ id: 1, usageUsedMs: 250 }),
+      expect.objectContaining({
+        id: 2,
+        usageUsedMs: 250,
+        words: [expect.objectContaining({ startMs: 250, endMs: 500 })],
+      }),
+    ]);
+    ws.close();
+  });
+  it.each([
+    [
+      '?encoding=flac',
+      createFlacStream(
+        DEFAULT_AUDIO_FORMAT,
+        Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, 500)),
+      ),
+    ],
+    [
+      '?encoding=ogg_opus',
+      createOggPages([
+        createOpusHead({ channels: 1, preSkip: 312, outputGain: 0 }),
+        createOpusTags(),
+        ...opusSilence(25),
+      ]),
+    ],
+  ])('should charge %s by the decoded duration', async (query, stream) => {
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: query,
+    });
+    const bufferCounter = new BufferCounter();
+    // the header alone decodes to nothing
+    ws.send(bufferCounter.wrap(stream.subarray(0, 20)));
+    ws.send(bufferCounter.wrap(stream.subarray(20)));
+    await waitForMessages(messages, 1);
+    expect(messages).toEqual([
+      expect.objectContaining({ id: 2, packetIds: [1, 2], usageUsedMs: 500 }),
+    ]);
+    ws.close();
+  });
+  it('should send a final for a last packet without audio', async () => {
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?encoding=flac',
+    });
+    const stream = createFlacStream(
+      DEFAULT_AUDIO_FORMAT,
+      Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, 500)),
+    );
+    const bufferCounter = new BufferCounter();
+    // the second packet ends mid frame, its audio never completes
+    ws.send(bufferCounter.wrap(stream.subarray(0, 20)));
+    ws.send(bufferCounter.wrap(stream.subarray(20, 60)));
+    await waitForMessages(messages, 1);
+    expect(messages).toEqual([
+      expect.objectContaining({
+        event: 'final',
+        id: 2,
+        packetIds: [1, 2],
+        transcript: '',
+        usageUsedMs: 0,
+      }),
+    ]);
+    ws.close();
+  });
+  it.each([
+    [
+      '',
+      Buffer.alloc(3),
+      'misaligned audio: 3 bytes is not a multiple of the 2 byte frames',
+    ],
+    ['?encoding=wav', Buffer.alloc(48), 'missing wav header'],
+    ['?encoding=flac', Buffer.from('RIFF'), 'missing flac stream marker'],
+    ['?encoding=ogg_opus', Buffer.alloc(48), 'invalid ogg page'],
+  ])(
+    'should close with InvalidData for packets not matching %p',
+    async (query, packet, error) => {
+      const { ws } = await connectWs(host, USER_1_TOKEN, { query: query });
+      const closed = waitForClose(ws);
+      ws.send(new BufferCounter().wrap(packet));
+      await expect(closed).resolves.toEqual({
+        code: WsCloseCode.InvalidData,
+        reason: { error, code: InternalErrorCode.InvalidData },
+      });
+    },
+  );
+  it.each([
+    ['?encoding=opus', 'unknown encoding: opus'],
+    ['?sampleRate=100', 'invalid sample rate: 100'],
+    ['?channels=two', 'invalid channels: two'],
+    ['?channels=9', 'invalid channel count: 9'],
+    [
+      '?encoding=wav&sampleRate=8000',
+      'sampleRate and channels are read from the wav header',
+    ],
+    [
+      '?encoding=flac&channels=2',
+      'sampleRate and channels are read from the flac header',
+    ],
+  ])('should reject %s', async (query, error) => {
+    const closed = waitForClose(openWs(query));
+    await expect(closed).resolves.toEqual({
+      code: WsCloseCode.InvalidData,
+      reason: { error, code: InternalErrorCode.InvalidData },
+    });
+  });
+});
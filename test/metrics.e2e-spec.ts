@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { TranscribeClient, TranscribeCloseError } from '@client';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { BYTES_PER_WORD, MS_PER_WORD } from '@server/services/trascribeService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Metrics', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let url: string;
+
+  async function scrape(): Promise<string> {
+    const response = await fetch(`${url}/metrics`);
+    expect(response.status).toBe(200);
+    // express puts the charset first
+    expect(response.headers.get('content-type')).toMatch(
+      /^text\/plain; .*version=0\.0\.4/,
+    );
+    return response.text();
+  }
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    url = `http://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should export sockets, packets and transcribe latency', async () => {
+    const before = await scrape();
+    expect(before).toContain('# TYPE transcribe_connected_sockets gauge\n');
+    expect(before).toContain('transcribe_connected_sockets 0\n');
+    expect(before).toContain('transcribe_packets_accepted_total 0\n');
+
+    const client = await TranscribeClient.connect({ url, token: USER_1_TOKEN });
+    client.send(Buffer.alloc(BYTES_PER_WORD));
+    for await (const event of client) {
+      if (event.event === 'final') {
+        break;
+      }
+    }
+    const after = await scrape();
+    expect(after).toContain('transcribe_connected_sockets 1\n');
+    expect(after).toContain('transcribe_queued_packets{user_id="1"} 0\n');
+    expect(after).toContain('transcribe_in_flight 0\n');
+    expect(after).toContain('transcribe_packets_accepted_total 1\n');
+    expect(after).toContain(
+      `transcribe_bytes_accepted_total ${BYTES_PER_WORD + 4}\n`,
+    );
+    expect(after).toContain(`transcribe_billed_ms_total ${MS_PER_WORD}\n`);
+    expect(after).toContain('transcribe_duration_seconds_count 1\n');
+    expect(after).toContain(
+      'transcribe_duration_seconds_bucket{le="+Inf"} 1\n',
+    );
+    await client.close();
+  });
+
+  it('should count closes by internal error code', async () => {
+    const connecting = TranscribeClient.connect({ url, token: 'invalid' });
+    await expect(connecting).rejects.toThrow(TranscribeCloseError);
+    expect(await scrape()).toContain(
+      'transcribe_socket_closes_total{close_code="1008",internal_code="Unauthorized"} 1\n',
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { BYTES_PER_WORD } from '@server/services/trascribeService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import {
+  PartialTranscriptEvent,
+  TranscribeResultMessage,
+} from '@server/ws/wsTranscribe';
+import { BufferCounter } from '@util/buffer';
+import { connectWs, waitFor } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+type TranscriptEvent = PartialTranscriptEvent | TranscribeResultMessage;
+
+describe('Partial transcripts', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+
+  async function waitForFinals(
+    messages: TranscriptEvent[],
+    count: number,
+  ): Promise<void> {
+    await waitFor(
+      () =>
+        messages.filter((message) => message.event === 'final').length >= count,
+      () => `${count} finals, got ${JSON.stringify(messages)}`,
+    );
+  }
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should send growing partials before the final', async () => {
+    const { ws, messages } = await connectWs<TranscriptEvent>(
+      host,
+      USER_1_TOKEN,
+      {
+        query: '?interimResults=true',
+      },
+    );
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD * 3)));
+    ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD)));
+    await waitForFinals(messages, 2);
+    expect(messages).toEqual([
+      expect.objectContaining({ event: 'partial', segmentId: 1 }),
+      expect.objectContaining({ event: 'partial', segmentId: 1 }),
+      expect.objectContaining({ event: 'final', segmentId: 1, id: 1 }),
+      expect.objectContaining({ event: 'final', segmentId: 2, id: 2 }),
+    ]);
+    const [first, second, final] = messages.map(
+      (message) => message.transcript,
+    );
+    expect(first?.split(' ')).toHaveLength(1);
+    expect(second?.startsWith(`${first} `)).toBe(true);
+    expect(second?.split(' ')).toHaveLength(2);
+    expect(final?.startsWith(`${second} `)).toBe(true);
+    expect(final?.split(' ')).toHaveLength(3);
+    ws.close();
+  });
+  it('should only send finals by default', async () => {
+    const { ws, messages } = await connectWs<TranscriptEvent>(
+      host,
+      USER_1_TOKEN,
+    );
+    ws.send(new BufferCounter().wrap(Buffer.alloc(BYTES_PER_WORD * 3)));
+    await waitForFinals(messages, 1);
+    expect(messages).toEqual([
+      expect.objectContaining({ event: 'final', segmentId: 1, id: 1 }),
+    ]);
+    ws.close();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { BYTES_PER_WORD } from '@server/services/trascribeService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import {
+  InternalErrorCode,
+  parseServerMessage,
+  PROTOCOL_V1,
+  PROTOCOL_V2,
+  ServerMessage,
+  WsCloseCode,
+} from '@util/protocol';
+import { BufferCounter } from '@util/buffer';
+import { connectWs, waitForClose, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Protocol versions', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should negotiate v2 and send messages matching its schema', async () => {
+    const { ws, ready, messages } = await connectWs<ServerMessage>(
+      host,
+      USER_1_TOKEN,
+      { protocols: [PROTOCOL_V1, PROTOCOL_V2], parse: parseServerMessage },
+    );
+    expect(ws.protocol).toBe(PROTOCOL_V2);
+    expect(ready).toMatchObject({
+      event: 'ready',
+      protocol: PROTOCOL_V2,
+    });
+    ws.send(new BufferCounter().wrap(Buffer.alloc(BYTES_PER_WORD)));
+    await waitForMessages(messages, 1);
+    expect(messages[0]).toMatchObject({
+      event: 'final',
+      id: 1,
+      queuedMs: expect.any(Number),
+    });
+    ws.close();
+  });
+
+  it('should send v2 clients the full error before closing', async () => {
+    const { ws, messages } = await connectWs<ServerMessage>(
+      host,
+      USER_1_TOKEN,
+      { protocols: [PROTOCOL_V2], parse: parseServerMessage },
+    );
+    const closed = waitForClose(ws);
+    ws.send(JSON.stringify({ type: 'auth' }));
+    const { code, reason } = await closed;
+    expect(code).toBe(WsCloseCode.InvalidData);
+    expect(messages[0]).toEqual({
+      event: 'error',
+      error: expect.stringContaining('unknown control message:'),
+      code: InternalErrorCode.InvalidData,
+    });
+    expect(messages[0]?.event === 'error' && messages[0].error).toContain(
+      'token',
+    );
+    expect(reason).toMatchObject({
+      code: InternalErrorCode.InvalidData,
+    });
+  });
+
+  it('should keep v1 for clients that offer no protocol', async () => {
+    const { ws, ready, messages } = await connectWs<ServerMessage>(
+      host,
+      USER_1_TOKEN,
+      { parse: parseServerMessage },
+    );
+    const closed = waitForClose(ws);
+    expect(ws.protocol).toBe('');
+    expect(ready).not.toHaveProperty('protocol');
+    ws.send(new BufferCounter().wrap(Buffer.alloc(BYTES_PER_WORD)));
+    await waitForMessages(messages, 1);
+    expect(messages[0]).toMatchObject({ event: 'final', id: 1 });
+    expect(messages[0]).not.toHaveProperty('queuedMs');
+    ws.send(JSON.stringify({ type: 'auth' }));
+    const { code, reason } = await closed;
+    expect(code).toBe(WsCloseCode.InvalidData);
+    expect(messages).toHaveLength(1);
+    expect(reason).toEqual({
+      error: 'unknown control message',
+      code: InternalErrorCode.InvalidData,
+    });
+  });
+
+  it('should not pick a protocol the client did not offer', async () => {
+    await expect(
+      connectWs(host, USER_1_TOKEN, { protocols: ['transcribe.v99'] }),
+    ).rejects.toThrow('Server sent no subprotocol');
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, TranscribeConfig } from '@server/config';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import {
+  InternalErrorCode,
+  PacketRejectedEvent,
+  WsCloseCode,
+} from '@server/ws/wsTranscribe';
+import { audioBytes, DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+import { BufferCounter } from '@util/buffer';
+import { createFlacStream } from '@util/flac';
+import { connectWs, waitFor, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Rate limits', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+  let originalConfig: TranscribeConfig;
+
+  beforeEach(async () => {
+    originalConfig = { ...config.transcribe };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.transcribe = originalConfig;
+    await server.shutdown();
+  });
+
+  it.each([
+    [
+      { maxPacketsPerSec: 2 },
+      2,
+      'packets_per_sec',
+      'Too many packets per second',
+    ],
+    [{ maxBytesPerSec: 32 }, 2, 'bytes_per_sec', 'Too many bytes per second'],
+    [{ maxQueuedPackets: 1 }, 1, 'queued_packets', 'Too many queued packets'],
+  ])(
+    'should reject packets over the limit %#',
+    async (limits, allowed, limit, error) => {
+      config.transcribe = { ...config.transcribe, ...limits };
+      const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+      const bufferCounter = new BufferCounter();
+      for (let ix = 0; ix < allowed + 1; ix++) {
+        ws.send(bufferCounter.wrap(Buffer.alloc(16)));
+      }
+      await waitForMessages(messages, 1);
+      expect(messages[0]).toEqual({
+        event: 'packet_rejected',
+        id: allowed + 1,
+        error,
+        code: InternalErrorCode.RateLimited,
+        limit,
+        max: Object.values(limits)[0],
+      } satisfies PacketRejectedEvent);
+      // the socket stays open and the accepted packets are still transcribed
+      await waitForMessages(messages, allowed + 1);
+      expect(messages.slice(1).map((message) => message.id)).toEqual(
+        Array.from({ length: allowed }, (_, ix) => ix + 1),
+      );
+      expect(ws.readyState).toBe(WebSocket.OPEN);
+      ws.close();
+    },
+  );
+
+  it('should close on packets larger than the bytes per second limit', async () => {
+    config.transcribe = { ...config.transcribe, maxBytesPerSec: 32 };
+    const { ws } = await connectWs(host, USER_1_TOKEN);
+    const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+      ws.once('close', (code, reason) =>
+        resolve({ code, reason: reason.toString() }),
+      );
+    });
+    ws.send(new BufferCounter().wrap(Buffer.alloc(64)));
+    const { code, reason } = await closed;
+    expect(code).toBe(WsCloseCode.MessageTooLarge);
+    expect(JSON.parse(reason)).toEqual({
+      error: 'Packet larger than the bytes per second limit',
+      code: InternalErrorCode.PacketTooLarge,
+    });
+  });
+
+  it('should not decode rejected packets of a compressed stream', async () => {
+    config.transcribe = { ...config.transcribe, maxPacketsPerSec: 2 };
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN, {
+      query: '?encoding=flac',
+    });
+    const stream = createFlacStream(
+      DEFAULT_AUDIO_FORMAT,
+      Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, 500)),
+    );
+    const rest = stream.subarray(1000);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(stream.subarray(0, 20)));
+    ws.send(bufferCounter.wrap(stream.subarray(20, 1000)));
+    ws.send(bufferCounter.wrap(rest));
+    await waitFor(
+      () => messages.some((message) => message.event === 'packet_rejected'),
+      () => `a rejected packet, got ${JSON.stringify(messages)}`,
+    );
+    // once the bucket refilled the same bytes go through as if never sent
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    ws.send(bufferCounter.wrap(rest));
+    await waitFor(
+      () =>
+        messages.some(
+          (message) =>
+            message.event === 'final' &&
+            (message.packetIds as number[]).includes(4),
+        ),
+      () => `the final of packet 4, got ${JSON.stringify(messages)}`,
+    );
+    const finals = messages.filter((message) => message.event === 'final');
+    expect(
+      finals.reduce((total, message) => total + Number(message.usageUsedMs), 0),
+    ).toBe(500);
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    ws.close();
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, WsConfig } from '@server/config';
+import { clearUserFaults, setUserFaults } from '@server/services/faultService';
+import { getUsage, resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { audioBytes, DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
+import { BufferCounter } from '@util/buffer';
+import { delay } from '@util/delay';
+import { WsCloseCode } from '@util/protocol';
+import { connectWs, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Session resume', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+  let originalConfig: WsConfig;
+
+  async function close(ws: WebSocket, code?: number): Promise<void> {
+    const closed = new Promise((resolve) => ws.once('close', resolve));
+    ws.close(code);
+    await closed;
+  }
+
+  beforeEach(async () => {
+    originalConfig = { ...config.ws };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.ws = originalConfig;
+    clearUserFaults(userId('1'));
+    await server.shutdown();
+  });
+
+  it('should deliver results finished while disconnected in order', async () => {
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    expect(ready).toEqual({
+      event: 'ready',
+      sessionId: expect.any(String),
+      resumed: false,
+      engine: expect.objectContaining({ name: 'lorem' }),
+      seed: null,
+      format: DEFAULT_AUDIO_FORMAT,
+    });
+    const bufferCounter = new BufferCounter();
+    for (let ix = 0; ix < 3; ix++) {
+      ws.send(bufferCounter.wrap(Buffer.alloc(16, ix)));
+    }
+    await close(ws);
+    await delay(100);
+    const resumed = await connectWs(host, USER_1_TOKEN, {
+      query: `?sessionId=${ready.sessionId}`,
+    });
+    expect(resumed.ready).toEqual({
+      event: 'ready',
+      sessionId: ready.sessionId,
+      resumed: true,
+      engine: expect.objectContaining({ name: 'lorem' }),
+      seed: null,
+      format: DEFAULT_AUDIO_FORMAT,
+    });
+    await waitForMessages(resumed.messages, 3);
+    expect(resumed.messages.map((message) => message.id)).toEqual([1, 2, 3]);
+    await close(resumed.ws);
+  });
+  it('should start a new session once the old one expired', async () => {
+    config.ws = { ...config.ws, sessionResumeTtlMs: 0 };
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    ws.send(new BufferCounter().wrap(Buffer.alloc(16)));
+    await close(ws);
+    await delay(50);
+    const next = await connectWs(host, USER_1_TOKEN, {
+      query: `?sessionId=${ready.sessionId}`,
+    });
+    expect(next.ready).toEqual({
+      event: 'ready',
+      sessionId: expect.any(String),
+      resumed: false,
+      engine: expect.objectContaining({ name: 'lorem' }),
+      seed: null,
+      format: DEFAULT_AUDIO_FORMAT,
+    });
+    expect(next.ready.sessionId).not.toBe(ready.sessionId);
+    await delay(100);
+    expect(next.messages).toEqual([]);
+    await close(next.ws);
+  });
+  it('should not resume an unknown session', async () => {
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN, {
+      query: '?sessionId=unknown',
+    });
+    expect(ready.resumed).toBe(false);
+    expect(ready.sessionId).not.toBe('unknown');
+    await close(ws);
+  });
+  it('should end the session and stop billing on a clean close', async () => {
+    // slow enough that most of the queue is still waiting when the client leaves
+    setUserFaults(userId('1'), { extraLatencyMs: 200 });
+    const { ws, ready } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    for (let ix = 0; ix < 5; ix++) {
+      ws.send(
+        bufferCounter.wrap(
+          Buffer.alloc(audioBytes(DEFAULT_AUDIO_FORMAT, 100), ix),
+        ),
+      );
+    }
+    await close(ws, WsCloseCode.Normal);
+    await delay(1500);
+    const { totalUsedMs } = await getUsage(userId('1'));
+    expect(totalUsedMs).toBeLessThan(500);
+    await delay(300);
+    expect(await getUsage(userId('1'))).toEqual(
+      expect.objectContaining({ totalUsedMs }),
+    );
+    const next = await connectWs(host, USER_1_TOKEN, {
+      query: `?sessionId=${ready.sessionId}`,
+    });
+    expect(next.ready.resumed).toBe(false);
+    await close(next.ws);
+  });
+});
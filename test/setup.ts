@@ -0,0 +1,5 @@
+import { randomBytes } from 'node:crypto';
+import { config } from '@server/config';
+
+// tests sign their own tokens, never with the public dev secret
+config.jwt.secret = randomBytes(32).toString('hex');
@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, TranscribeConfig, WsConfig } from '@server/config';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { getQueuedMemoryBytes } from '@server/ws/wsTranscribe';
+import { BufferCounter } from '@util/buffer';
+import { delay } from '@util/delay';
+import { connectWs, waitFor, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Spill', () => {
+  let server: Awaited<ReturnType<typeof createServer>> | null;
+  let host: string;
+  let spillDir: string;
+  let originalConfig: TranscribeConfig;
+  let originalWsConfig: WsConfig;
+
+  async function listSpilledFiles(): Promise<string[]> {
+    const dirs = await fs.readdir(spillDir).catch(() => []);
+    const files = await Promise.all(
+      dirs.map((dir) => fs.readdir(path.join(spillDir, dir))),
+    );
+    return [...dirs, ...files.flat()];
+  }
+
+  beforeEach(async () => {
+    originalConfig = { ...config.transcribe };
+    originalWsConfig = { ...config.ws };
+    spillDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spill-e2e-'));
+    // spill everything
+    config.transcribe = {
+      ...config.transcribe,
+      spillDir,
+      maxUserMemoryBytes: 0,
+    };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.transcribe = originalConfig;
+    config.ws = originalWsConfig;
+    await server?.shutdown();
+    await fs.rm(spillDir, { recursive: true, force: true });
+  });
+
+  it('should transcribe spilled packets in order and clean up once the session expires', async () => {
+    config.ws = { ...config.ws, sessionResumeTtlMs: 0 };
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    for (let ix = 0; ix < 3; ix++) {
+      ws.send(bufferCounter.wrap(Buffer.alloc(16, ix)));
+    }
+    await waitForMessages(messages, 3);
+    expect(messages.map((message) => message.id)).toEqual([1, 2, 3]);
+    expect(getQueuedMemoryBytes()).toBe(0);
+    const closed = new Promise((resolve) => ws.once('close', resolve));
+    ws.close();
+    await closed;
+    await delay(50);
+    await expect(listSpilledFiles()).resolves.toEqual([]);
+  });
+  it('should clean up spilled packets on shutdown', async () => {
+    const { ws } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    for (let ix = 0; ix < 10; ix++) {
+      ws.send(bufferCounter.wrap(Buffer.alloc(16, ix)));
+    }
+    await waitFor(
+      async () => (await listSpilledFiles()).length >= 5,
+      () => '5 spilled files',
+    );
+    await server?.shutdown();
+    server = null;
+    await expect(listSpilledFiles()).resolves.toEqual([]);
+    expect(getQueuedMemoryBytes()).toBe(0);
+  });
+});
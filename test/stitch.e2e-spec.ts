@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { config, TranscribeConfig } from '@server/config';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { BufferCounter } from '@util/buffer';
+import { connectWs, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+// 16kHz 16-bit mono
+const BYTES_PER_MS = 32;
+
+function pcm(speechMs: number, silenceMs = 0): Buffer {
+  const buffer = Buffer.alloc((speechMs + silenceMs) * BYTES_PER_MS);
+  for (let offset = 0; offset < speechMs * BYTES_PER_MS; offset += 2) {
+    buffer.writeInt16LE(offset % 4 ? -5000 : 5000, offset);
+  }
+  return buffer;
+}
+
+describe('Stitching', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+  let originalConfig: TranscribeConfig;
+
+  beforeEach(async () => {
+    originalConfig = { ...config.transcribe };
+    config.transcribe = { ...config.transcribe, stitchFlushMs: 200 };
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    config.transcribe = originalConfig;
+    await server.shutdown();
+  });
+
+  it('should join packets until a pause', async () => {
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(pcm(100, 200)));
+    ws.send(bufferCounter.wrap(pcm(100)));
+    ws.send(bufferCounter.wrap(pcm(100, 200)));
+    await waitForMessages(messages, 2);
+    expect(messages).toEqual([
+      expect.objectContaining({ id: 1, packetIds: [1] }),
+      expect.objectContaining({ id: 3, packetIds: [2, 3] }),
+    ]);
+    ws.close();
+  });
+  it('should flush carried speech when no packet follows', async () => {
+    const { ws, messages } = await connectWs(host, USER_1_TOKEN);
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(pcm(100, 200)));
+    ws.send(bufferCounter.wrap(pcm(100)));
+    await waitForMessages(messages, 2);
+    expect(messages).toEqual([
+      expect.objectContaining({ id: 1, packetIds: [1] }),
+      expect.objectContaining({ id: 2, packetIds: [2] }),
+    ]);
+    ws.close();
+  });
+});
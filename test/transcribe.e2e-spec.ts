@@ -7,10 +7,10 @@ import {
   MS_PER_WORD,
   TranscribeResponse,
 } from '@server/services/trascribeService';
+import { UsageResponse } from '@server/controllers/usageController';
 import {
   resetStorage,
   STARTING_USAGE_LIMIT_MS,
-  UsageData,
 } from '@server/services/usageService';
 import {
   bufferFromRawData,
@@ -18,20 +18,28 @@ import {
   InternalErrorCode,
   WsCloseCode,
 } from '@server/ws/wsTranscribe';
+import { DEFAULT_AUDIO_FORMAT } from '@util/audioFormat';
 import { BufferCounter, bufferTextOrThrow, IWrap } from '@util/buffer';
 import { delay } from '@util/delay';
 import { timeout } from '@util/timeout';
 import { Queue } from '@util/queue';
+import { issueToken } from '@server/auth';
+import { userId } from '@server/types';
+import { signJwt } from '@util/jwt';
+import { config } from '@server/config';
 
 const limit = pLimit(1);
 
 const HOST = 'localhost:3000';
 const API_USAGE_URL = `http://${HOST}/api/usage`;
 const WS_TRANSCRIBE_URL = `ws://${HOST}/transcribe`;
-const USER_1_TOKEN = 'Bearer a';
-const USER_2_TOKEN = 'Bearer b';
+const USER_1_TOKEN = `Bearer ${issueToken(userId('1'))}`;
+const USER_2_TOKEN = `Bearer ${issueToken(userId('2'))}`;
+const EXPIRED_TOKEN = `Bearer ${issueToken(userId('1'), { expiresInSec: -1 })}`;
+const BAD_SIGNATURE_TOKEN = `Bearer ${signJwt({ sub: '1' }, { alg: 'HS256', secret: 'not-the-secret' })}`;
+const MALFORMED_TOKEN = 'Bearer a';
 
-async function fetchUsageData(token: string): Promise<UsageData> {
+async function fetchUsageData(token: string): Promise<UsageResponse> {
   const response = await fetch(API_USAGE_URL, {
     method: 'GET',
     headers: {
@@ -41,7 +49,7 @@ async function fetchUsageData(token: string): Promise<UsageData> {
   if (!response.ok) {
     throw new Error(`fetchUsage response.status: ${response.status}`);
   }
-  return (await response.json()) as UsageData;
+  return (await response.json()) as UsageResponse;
 }
 
 function createWs(token: string): WebSocket {
@@ -354,7 +362,14 @@ async function expectWsEventIsType<T extends WsEvent, ET extends T['event']>(
   return wsEvent;
 }
 
-const MESSAGE_DATA_READY_EVENT = { event: 'ready' };
+const MESSAGE_DATA_READY_EVENT = {
+  event: 'ready',
+  sessionId: expect.any(String),
+  resumed: false,
+  engine: expect.objectContaining({ name: 'lorem' }),
+  seed: null,
+  format: DEFAULT_AUDIO_FORMAT,
+};
 
 async function expectWsEventOpen(
   asyncWsEvent: Awaitable<WsEvent>,
@@ -447,7 +462,7 @@ function wsEventQueueWrapperWithBufferCounter(
 describe('Transcribe', () => {
   let server: { shutdown: () => Promise<void[]> };
   beforeEach(async () => {
-    resetStorage();
+    await resetStorage();
     server = await createServer(3000);
   });
   afterEach(async () => {
@@ -507,6 +522,24 @@ describe('Transcribe', () => {
       });
       expect(response.status).toBe(401);
     }));
+  it.each([
+    [EXPIRED_TOKEN, 'Token expired'],
+    [BAD_SIGNATURE_TOKEN, 'Invalid token signature'],
+    [MALFORMED_TOKEN, 'Malformed token'],
+  ])(
+    'should block invalid http token %#',
+    async (token, error) =>
+      await limit(async () => {
+        const response = await fetch(API_USAGE_URL, {
+          method: 'GET',
+          headers: {
+            authorization: token,
+          },
+        });
+        expect(response.status).toBe(401);
+        await expect(response.json()).resolves.toEqual({ error });
+      }),
+  );
   it('should allow authorized http requests', async () =>
     await limit(async () => {
       const response = await fetch(API_USAGE_URL, {
@@ -535,6 +568,27 @@ describe('Transcribe', () => {
         },
       );
     }));
+  it.each([
+    [EXPIRED_TOKEN, 'Token expired'],
+    [BAD_SIGNATURE_TOKEN, 'Invalid token signature'],
+    [MALFORMED_TOKEN, 'Malformed token'],
+  ])(
+    'should block invalid ws token %#',
+    async (token, error) =>
+      await limit(async () => {
+        const ws = wsEventQueueWrapperWithBufferCounter(createWs(token));
+        const events = ws.pollQueue({ timeout: 100 });
+        await expectWsEventOpen(nextEventOrThrow(events.next()));
+        await expectWsEventCloseHasReasonPartialObj<CloseReasonObj>(
+          nextEventOrThrow(events.next()),
+          WsCloseCode.PolicyViolation,
+          {
+            error,
+            code: InternalErrorCode.Unauthorized,
+          },
+        );
+      }),
+  );
   it('should allow authorized ws requests', async () =>
     await limit(async () => {
       const ws = wsEventQueueWrapperWithBufferCounter(createWs(USER_1_TOKEN));
@@ -600,6 +654,90 @@ describe('Transcribe', () => {
       await expectWsEventCloseNormal(nextEventOrThrow(eventsA2.next()));
     });
   });
+  describe('token refresh', () => {
+    const wsConfig = { ...config.ws };
+    beforeEach(() => {
+      // tokens have second precision, so expire in 2s and warn immediately
+      config.ws.tokenExpiryWarningMs = 2000;
+      config.ws.tokenExpiryGraceMs = 200;
+    });
+    afterEach(() => {
+      Object.assign(config.ws, wsConfig);
+    });
+    function sendAuthMessage(ws: WsEventQueueWrapper, token: string) {
+      ws.ws.send(JSON.stringify({ type: 'auth', token }));
+    }
+    it('should warn and close after token expires', async () =>
+      await limit(async () => {
+        const token = `Bearer ${issueToken(userId('1'), { expiresInSec: 2 })}`;
+        const ws = wsEventQueueWrapperWithBufferCounter(createWs(token));
+        const events = ws.pollQueue({ timeout: 3000 });
+        await expectWsEventOpen(nextEventOrThrow(events.next()));
+        await expectWsEventReady(nextEventOrThrow(events.next()));
+        await expectWsEventMessageWithDataPartialObj(
+          nextEventOrThrow(events.next()),
+          { event: 'auth_expiring', graceMs: 200 },
+        );
+        await expectWsEventCloseHasReasonPartialObj<CloseReasonObj>(
+          nextEventOrThrow(events.next()),
+          WsCloseCode.PolicyViolation,
+          {
+            error: 'Token expired',
+            code: InternalErrorCode.Unauthorized,
+          },
+        );
+      }));
+    it('should keep socket open after refresh', async () =>
+      await limit(async () => {
+        const token = `Bearer ${issueToken(userId('1'), { expiresInSec: 2 })}`;
+        const ws = wsEventQueueWrapperWithBufferCounter(createWs(token));
+        const events = ws.pollQueue({ timeout: 3000 });
+        await expectWsEventOpen(nextEventOrThrow(events.next()));
+        await expectWsEventReady(nextEventOrThrow(events.next()));
+        await expectWsEventMessageWithDataPartialObj(
+          nextEventOrThrow(events.next()),
+          { event: 'auth_expiring' },
+        );
+        sendAuthMessage(ws, issueToken(userId('1'), { expiresInSec: 3600 }));
+        await expectWsEventMessageWithDataPartialObj(
+          nextEventOrThrow(events.next()),
+          { event: 'auth_ok' },
+        );
+        await delay(1500);
+        expect(ws.eventQueueIsEmpty()).toBe(true);
+        ws.close(WsCloseCode.Normal);
+        await expectWsEventCloseNormal(nextEventOrThrow(events.next()));
+      }));
+    it('should reject invalid refresh token', async () =>
+      await limit(async () => {
+        const ws = wsEventQueueWrapperWithBufferCounter(createWs(USER_1_TOKEN));
+        const events = ws.pollQueue({ timeout: 100 });
+        await expectWsEventOpen(nextEventOrThrow(events.next()));
+        await expectWsEventReady(nextEventOrThrow(events.next()));
+        sendAuthMessage(ws, issueToken(userId('1'), { expiresInSec: -1 }));
+        await expectWsEventMessageWithDataObj(nextEventOrThrow(events.next()), {
+          event: 'auth_error',
+          error: 'Token expired',
+        });
+        ws.close(WsCloseCode.Normal);
+        await expectWsEventCloseNormal(nextEventOrThrow(events.next()));
+      }));
+    it('should close on refresh token for another user', async () =>
+      await limit(async () => {
+        const ws = wsEventQueueWrapperWithBufferCounter(createWs(USER_1_TOKEN));
+        const events = ws.pollQueue({ timeout: 100 });
+        await expectWsEventOpen(nextEventOrThrow(events.next()));
+        await expectWsEventReady(nextEventOrThrow(events.next()));
+        sendAuthMessage(ws, issueToken(userId('2')));
+        await expectWsEventCloseHasReasonPartialObj<CloseReasonObj>(
+          nextEventOrThrow(events.next()),
+          WsCloseCode.PolicyViolation,
+          {
+            code: InternalErrorCode.Unauthorized,
+          },
+        );
+      }));
+  });
   it('should block connection after usage limit', async () => {
     await limit(async () => {
       const MAX_REMAINING_PAYLOAD_SIZE = Math.ceil(
@@ -701,6 +839,10 @@ describe('Transcribe', () => {
               remainingMs: usageRemainingMs,
               totalUsedMs: totalUsed,
             },
+            plan: 'free',
+            window: expect.objectContaining({
+              resetsInMs: expect.any(Number),
+            }),
           });
           if (usageRemainingMs <= 0) {
             expect(data.usageRemainingMs).toBe(usageRemainingMs);
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { createServer } from '@server';
+import { issueToken } from '@server/auth';
+import { BYTES_PER_WORD } from '@server/services/trascribeService';
+import { resetStorage } from '@server/services/usageService';
+import { userId } from '@server/types';
+import { TranscribeResultMessage } from '@server/ws/wsTranscribe';
+import { BufferCounter } from '@util/buffer';
+import { connectWs, waitForMessages } from './ws';
+
+const USER_1_TOKEN = issueToken(userId('1'));
+
+describe('Word timestamps', () => {
+  let server: Awaited<ReturnType<typeof createServer>>;
+  let host: string;
+
+  beforeEach(async () => {
+    await resetStorage(60_000);
+    server = await createServer(0);
+    host = `localhost:${(server.httpServer.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should time words from the start of the session', async () => {
+    const { ws, messages } = await connectWs<TranscribeResultMessage>(
+      host,
+      USER_1_TOKEN,
+    );
+    const bufferCounter = new BufferCounter();
+    ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD * 1.5)));
+    ws.send(bufferCounter.wrap(Buffer.alloc(BYTES_PER_WORD)));
+    await waitForMessages(messages, 2);
+    const [first, second] = messages;
+    expect(first?.words).toEqual([
+      expect.objectContaining({ startMs: 0, endMs: 250 }),
+      expect.objectContaining({ startMs: 250, endMs: 375 }),
+    ]);
+    expect(second?.words).toEqual([
+      expect.objectContaining({ startMs: 375, endMs: 625 }),
+    ]);
+    for (const message of messages) {
+      expect(message.transcript).toBe(
+        message.words.map(({ word }) => word).join(' '),
+      );
+      for (const { confidence } of message.words) {
+        expect(confidence).toBeGreaterThanOrEqual(0.5);
+        expect(confidence).toBeLessThanOrEqual(1);
+      }
+    }
+    ws.close();
+  });
+});
@@ -0,0 +1,92 @@
+import { WebSocket } from 'ws';
+import { bufferFromRawData, bufferTextOrThrow } from '@util/buffer';
+import { delay } from '@util/delay';
+import { CloseReasonObj, ReadyEvent } from '@util/protocol';
+
+/** below jest's default test timeout, so a stuck wait fails with its own message */
+export const DEFAULT_WAIT_TIMEOUT_MS = 4_000;
+
+export interface ConnectedWs<T> {
+  ws: WebSocket;
+  ready: ReadyEvent;
+  /** every message after `ready`, parsed with `parse` */
+  messages: T[];
+}
+
+/**
+ * Opens `/transcribe` and resolves once the server sent `ready`, rejects if it closes first.
+ * @param parse applied to every message including `ready`, e.g. `parseServerMessage` to check the schema
+ */
+export async function connectWs<T = Record<string, unknown>>(
+  host: string,
+  token: string,
+  {
+    query = '',
+    protocols,
+    parse = JSON.parse,
+  }: {
+    query?: string;
+    protocols?: string[];
+    parse?: (text: string) => unknown;
+  } = {},
+): Promise<ConnectedWs<T>> {
+  const ws = new WebSocket(`ws://${host}/transcribe${query}`, protocols, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+  const messages: T[] = [];
+  const ready = await new Promise<ReadyEvent>((resolve, reject) => {
+    ws.once('message', (data) =>
+      resolve(parse(bufferTextOrThrow(bufferFromRawData(data))) as ReadyEvent),
+    );
+    ws.once('error', reject);
+    ws.once('close', () => reject(new Error('closed before ready')));
+  });
+  ws.on('message', (data) => {
+    messages.push(parse(bufferTextOrThrow(bufferFromRawData(data))) as T);
+  });
+  return { ws, ready, messages };
+}
+
+export function waitForClose(
+  ws: WebSocket,
+): Promise<{ code: number; reason: CloseReasonObj }> {
+  return new Promise((resolve) => {
+    ws.once('close', (code, reason) =>
+      resolve({
+        code,
+        reason: JSON.parse(bufferTextOrThrow(reason)) as CloseReasonObj,
+      }),
+    );
+  });
+}
+
+/**
+ * Polls `predicate` until it holds, throws `timed out waiting for <describe()>` past the deadline.
+ */
+export async function waitFor(
+  predicate: () => boolean | Promise<boolean>,
+  describe: () => string,
+  timeoutMs = DEFAULT_WAIT_TIMEOUT_MS,
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `timed out after ${timeoutMs}ms waiting for ${describe()}`,
+      );
+    }
+    await delay(10);
+  }
+}
+
+export function waitForMessages(
+  messages: unknown[],
+  count: number,
+  timeoutMs?: number,
+): Promise<void> {
+  return waitFor(
+    () => messages.length >= count,
+    () => `${count} messages, got ${JSON.stringify(messages)}`,
+    timeoutMs,
+  );
+}